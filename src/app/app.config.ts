@@ -1,4 +1,4 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners } from '@angular/core';
+import { ApplicationConfig, inject, provideAppInitializer, provideBrowserGlobalErrorListeners } from '@angular/core';
 import { provideRouter } from '@angular/router';
 import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { APP_BASE_HREF } from '@angular/common';
@@ -6,6 +6,7 @@ import { APP_BASE_HREF } from '@angular/common';
 import { routes } from './app.routes';
 import { httpHeadersInterceptor } from './core/interceptors/http-headers.interceptor';
 import { errorHandlingInterceptor } from './core/interceptors/error-handling.interceptor';
+import { RemoteConfigService } from './core/services/remote-config.service';
 
 /**
  * Get Base HREF from URL
@@ -51,6 +52,8 @@ export const appConfig: ApplicationConfig = {
         errorHandlingInterceptor
       ])
     ),
-    { provide: APP_BASE_HREF, useFactory: getBaseHref }
+    { provide: APP_BASE_HREF, useFactory: getBaseHref },
+    // Load market configuration before the first render
+    provideAppInitializer(() => inject(RemoteConfigService).load())
   ]
 };
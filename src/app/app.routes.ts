@@ -1,10 +1,15 @@
 import { Routes } from '@angular/router';
-import { Routes as RouteConstants } from './shared/constants/routes.constants';
+import { Routes as RouteConstants, RouteParams, RouteTitles } from './shared/constants/routes.constants';
+import { BuybackStep, StaffRole } from './shared/constants/app.constants';
+import { staffRoleGuard } from './core/guards/staff-role.guard';
 
 /**
  * Application Routes
  *
- * Single-page application with one main route.
+ * Single-page application with one main route, plus quotation tracking and
+ * the co-worker check-in page (staff only).
+ * Each step of the buyback flow is a componentless child route of the main
+ * route, so the back button moves between steps and links open the exact view.
  *
  * NOTE: Routes do NOT include the /{market}/{lang}/ prefix
  * That's handled automatically by APP_BASE_HREF in app.config.ts
@@ -12,7 +17,13 @@ import { Routes as RouteConstants } from './shared/constants/routes.constants';
  * URL Examples:
  * - /sa/en/buy-back-quote
  * - /sa/ar/buy-back-quote
+ * - /sa/ar/buy-back-quote/category/1-1-1
+ * - /sa/en/buy-back-quote/product/1?q=billy
+ * - /sa/en/buy-back-quote/estimation
+ * - /sa/en/buy-back-quote/list/k3m9x2qa
  * - /bh/en/buy-back-quote
+ * - /sa/en/my-quotations
+ * - /sa/en/check-in
  */
 export const routes: Routes = [
   {
@@ -24,7 +35,33 @@ export const routes: Routes = [
     path: RouteConstants.BUYBACK_QUOTE,
     loadComponent: () =>
       import('./features/buyback-list/pages/buyback-list/buyback-list.component').then(m => m.BuybackListComponent),
-    title: 'Buy back estimator tool - IKEA Buyback Portal'
+    title: 'Buy back estimator tool - IKEA Buyback Portal',
+    children: [
+      { path: '', pathMatch: 'full', data: { step: BuybackStep.DISCOVER }, children: [] },
+      { path: `${RouteConstants.CATEGORY}/:${RouteParams.CATEGORY_ID}`, data: { step: BuybackStep.CATEGORY }, children: [] },
+      { path: `${RouteConstants.PRODUCT}/:${RouteParams.PRODUCT_ID}`, data: { step: BuybackStep.PRODUCT }, children: [] },
+      { path: RouteConstants.ESTIMATION, data: { step: BuybackStep.ESTIMATION }, children: [] },
+      { path: `${RouteConstants.SHARED_LIST}/:${RouteParams.SHARE_TOKEN}`, data: { step: BuybackStep.SHARED_LIST }, children: [] },
+      {
+        path: `${RouteConstants.CONFIRMATION}/:${RouteParams.CONFIRMATION_NUMBER}`,
+        data: { step: BuybackStep.CONFIRMATION },
+        children: []
+      },
+      { path: '**', redirectTo: '' }
+    ]
+  },
+  {
+    path: RouteConstants.MY_QUOTATIONS,
+    loadComponent: () =>
+      import('./features/quotations/pages/my-quotations/my-quotations.component').then(m => m.MyQuotationsComponent),
+    title: RouteTitles.MY_QUOTATIONS
+  },
+  {
+    path: RouteConstants.CHECK_IN,
+    loadComponent: () =>
+      import('./features/check-in/pages/check-in/check-in.component').then(m => m.CheckInComponent),
+    canActivate: [staffRoleGuard(StaffRole.COWORKER)],
+    title: RouteTitles.CHECK_IN
   },
   {
     path: '**',
@@ -1,10 +1,11 @@
 import { Component, signal } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { ToasterComponent } from "./shared/components/toaster/toaster.component";
+import { CommonErrorModalComponent } from './shared/components/common-error-modal/common-error-modal.component';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, ToasterComponent],
+  imports: [RouterOutlet, ToasterComponent, CommonErrorModalComponent],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
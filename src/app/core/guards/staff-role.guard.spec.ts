@@ -0,0 +1,47 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, provideRouter, Router, RouterStateSnapshot, UrlTree } from '@angular/router';
+import { firstValueFrom, Observable, of } from 'rxjs';
+import { staffRoleGuard } from './staff-role.guard';
+import { StaffSession, StaffSessionService } from '../services/staff-session.service';
+import { CommonErrorModalService } from '../../shared/components/common-error-modal/common-error-modal.service';
+import { errorCase, StaffRole } from '../../shared/constants/app.constants';
+
+describe('staffRoleGuard', () => {
+  let session: StaffSession | null;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        {
+          provide: StaffSessionService,
+          useValue: {
+            load: () => of(session),
+            hasRole: (role: StaffRole.Role) => session?.roles.includes(role) ?? false
+          }
+        }
+      ]
+    });
+  });
+
+  const canActivate = () => TestBed.runInInjectionContext(() => firstValueFrom(
+    staffRoleGuard(StaffRole.COWORKER)({} as ActivatedRouteSnapshot, {} as RouterStateSnapshot) as Observable<boolean | UrlTree>
+  ));
+
+  it('should let a co-worker with the role in', async () => {
+    session = { name: 'Co-worker', roles: [StaffRole.COWORKER] };
+
+    expect(await canActivate()).toBe(true);
+    expect(TestBed.inject(CommonErrorModalService).modalData()).toBeNull();
+  });
+
+  it('should send anyone else to the estimator with an access denied modal', async () => {
+    for (const denied of [null, { name: 'Visitor', roles: [] }]) {
+      session = denied;
+      const result = await canActivate();
+
+      expect(TestBed.inject(Router).serializeUrl(result as UrlTree)).toBe('/buy-back-quote');
+      expect(TestBed.inject(CommonErrorModalService).modalData()?.errType).toBe(errorCase.STAFF_ACCESS_DENIED.errType);
+    }
+  });
+});
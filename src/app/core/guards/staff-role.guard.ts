@@ -0,0 +1,34 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { map } from 'rxjs/operators';
+import { StaffSessionService } from '../services/staff-session.service';
+import { CommonErrorModalService } from '../../shared/components/common-error-modal/common-error-modal.service';
+import { errorCase, StaffRole } from '../../shared/constants/app.constants';
+import { Routes as RouteConstants } from '../../shared/constants/routes.constants';
+
+/**
+ * Staff Role Guard
+ *
+ * Lets a route open only for a signed-in co-worker with the given role.
+ * Anyone else is sent to the buyback estimator with an access denied modal.
+ *
+ * Usage:
+ * ```typescript
+ * { path: RouteConstants.CHECK_IN, canActivate: [staffRoleGuard(StaffRole.COWORKER)], ... }
+ * ```
+ */
+export const staffRoleGuard = (role: StaffRole.Role): CanActivateFn => () => {
+  const staffSession = inject(StaffSessionService);
+  const modalService = inject(CommonErrorModalService);
+  const router = inject(Router);
+
+  return staffSession.load().pipe(
+    map(() => {
+      if (staffSession.hasRole(role)) {
+        return true;
+      }
+      modalService.openErrorDialog(errorCase.STAFF_ACCESS_DENIED);
+      return router.createUrlTree([`/${RouteConstants.BUYBACK_QUOTE}`]);
+    })
+  );
+};
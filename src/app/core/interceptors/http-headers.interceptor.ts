@@ -6,7 +6,7 @@ import { LocaleService } from '../services/locale.service';
  * HTTP Headers Interceptor
  *
  * Adds common headers to all HTTP requests:
- * - Content-Type: application/json
+ * - Content-Type: application/json (except multipart bodies, where the browser sets the boundary)
  * - Accept-Language: Current locale (en-SA, ar-SA, etc.)
  * - X-Market: Current market (sa, bh)
  */
@@ -19,14 +19,16 @@ export const httpHeadersInterceptor: HttpInterceptorFn = (req, next) => {
   // Construct Accept-Language header (e.g., "en-SA", "ar-BH")
   const locale = `${language}-${market.toUpperCase()}`;
 
+  const headers: Record<string, string> = {
+    'Accept-Language': locale,
+    'X-Market': market
+  };
+  if (!(req.body instanceof FormData)) {
+    headers['Content-Type'] = 'application/json';
+  }
+
   // Clone request and add headers
-  const clonedRequest = req.clone({
-    setHeaders: {
-      'Content-Type': 'application/json',
-      'Accept-Language': locale,
-      'X-Market': market
-    }
-  });
+  const clonedRequest = req.clone({ setHeaders: headers });
 
   return next(clonedRequest);
 };
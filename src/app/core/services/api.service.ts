@@ -33,9 +33,21 @@ export class APIService {
   // Submission endpoints
   public readonly submissions = this.getUrl(this.endpoints.submissions);
 
+  // Quotation endpoints
+  public readonly quotations = this.getUrl(this.endpoints.quotations);
+
+  // Membership endpoints
+  public readonly familyMembership = this.getUrl(this.endpoints.familyMembership);
+
   // Store endpoints
   public readonly stores = this.getUrl(this.endpoints.stores);
 
+  // Shared list endpoints
+  public readonly sharedLists = this.getUrl(this.endpoints.sharedLists);
+
+  // Staff endpoints
+  public readonly staffSession = this.getUrl(this.endpoints.staffSession);
+
   // Config endpoints
   public readonly config = this.getUrl(this.endpoints.config);
 }
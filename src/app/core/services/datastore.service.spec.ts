@@ -0,0 +1,136 @@
+import { TestBed } from '@angular/core/testing';
+import { Subscription } from 'rxjs';
+import { DatastoreService, VersionedStore } from './datastore.service';
+
+const store: VersionedStore<string[]> = {
+  key: 'test_list',
+  version: 2,
+  migrations: {
+    0: data => ({ names: data }),
+    1: data => (data as { names: string[] }).names.map(name => name.toUpperCase())
+  },
+  validate: data =>
+    Array.isArray(data) && data.every(name => typeof name === 'string') ? data as string[] : null
+};
+
+describe('DatastoreService', () => {
+  let service: DatastoreService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DatastoreService);
+  });
+
+  describe('getVersionedItem', () => {
+    const save = (saved: unknown) => localStorage.setItem(store.key, JSON.stringify(saved));
+    const saved = () => JSON.parse(localStorage.getItem(store.key)!);
+
+    beforeEach(() => vi.spyOn(console, 'error').mockImplementation(() => {}));
+
+    afterEach(() => vi.restoreAllMocks());
+
+    it('should read the current version as saved', () => {
+      service.setVersionedItem(store, ['A']);
+      expect(saved()).toEqual({ version: 2, data: ['A'] });
+      expect(service.getVersionedItem(store)).toEqual(['A']);
+    });
+
+    it('should be null when nothing is saved', () => {
+      expect(service.getVersionedItem(store)).toBeNull();
+    });
+
+    it('should migrate unversioned data through every version and save it back', () => {
+      save(['a', 'b']);
+      expect(service.getVersionedItem(store)).toEqual(['A', 'B']);
+      expect(saved()).toEqual({ version: 2, data: ['A', 'B'] });
+    });
+
+    it('should migrate from an intermediate version', () => {
+      save({ version: 1, data: { names: ['c'] } });
+      expect(service.getVersionedItem(store)).toEqual(['C']);
+    });
+
+    it('should remove data that fails validation', () => {
+      save({ version: 2, data: [1, 2] });
+      expect(service.getVersionedItem(store)).toBeNull();
+      expect(service.hasItem(store.key)).toBe(false);
+    });
+
+    it('should remove data whose migration fails or is missing', () => {
+      save({ version: 1, data: null });
+      expect(service.getVersionedItem(store)).toBeNull();
+      expect(service.hasItem(store.key)).toBe(false);
+
+      save(['a']);
+      expect(service.getVersionedItem({ ...store, migrations: { 1: store.migrations[1] } })).toBeNull();
+      expect(service.hasItem(store.key)).toBe(false);
+    });
+
+    it('should ignore, but keep, data from a newer version', () => {
+      save({ version: 3, data: { lists: [] } });
+      expect(service.getVersionedItem(store)).toBeNull();
+      expect(saved()).toEqual({ version: 3, data: { lists: [] } });
+    });
+  });
+
+  describe('watchVersionedItem', () => {
+    let values: (string[] | null)[];
+    let subscription: Subscription;
+
+    // Another tab writes the key, then the browser reports it
+    const changeInOtherTab = (saved: unknown) => {
+      if (saved === undefined) {
+        localStorage.removeItem(store.key);
+      } else {
+        localStorage.setItem(store.key, JSON.stringify(saved));
+      }
+      window.dispatchEvent(new StorageEvent('storage', { key: store.key, storageArea: localStorage }));
+    };
+
+    beforeEach(() => {
+      values = [];
+      subscription = service.watchVersionedItem(store).subscribe(value => values.push(value));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      subscription.unsubscribe();
+      vi.restoreAllMocks();
+    });
+
+    it('should report the new value', () => {
+      changeInOtherTab({ version: 2, data: ['A', 'B'] });
+      expect(values).toEqual([['A', 'B']]);
+    });
+
+    it('should report a removed value as null', () => {
+      changeInOtherTab(undefined);
+      expect(values).toEqual([null]);
+    });
+
+    it('should report cleared storage as null', () => {
+      localStorage.clear();
+      window.dispatchEvent(new StorageEvent('storage', { key: null, storageArea: localStorage }));
+      expect(values).toEqual([null]);
+    });
+
+    it('should not report a value from a newer version', () => {
+      changeInOtherTab({ version: 3, data: { lists: [] } });
+      expect(values).toEqual([]);
+      // Left for the newer version to read
+      expect(service.hasItem(store.key)).toBe(true);
+    });
+
+    it('should not report corrupt data as a removal', () => {
+      changeInOtherTab({ version: 2, data: [1, 2] });
+      expect(values).toEqual([]);
+    });
+
+    it('should ignore other keys and session storage', () => {
+      window.dispatchEvent(new StorageEvent('storage', { key: 'other', storageArea: localStorage }));
+      window.dispatchEvent(new StorageEvent('storage', { key: store.key, storageArea: sessionStorage }));
+      expect(values).toEqual([]);
+    });
+  });
+});
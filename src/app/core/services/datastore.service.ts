@@ -1,6 +1,31 @@
 import { Injectable } from '@angular/core';
+import { fromEvent, Observable } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
 import { StorageKeys, SessionKeys } from '../../shared/constants/app.constants';
 
+/**
+ * Schema of a versioned localStorage key
+ */
+export interface VersionedStore<T> {
+  key: string;
+  // Current schema version, saved with the data
+  version: number;
+  // Upgrades keyed by the version they upgrade from (n to n + 1);
+  // version 0 is data saved before the key was versioned
+  migrations: Record<number, (data: unknown) => unknown>;
+  // Check migrated data, returning it without its corrupt entries,
+  // or null when it is unusable
+  validate: (data: unknown) => T | null;
+}
+
+/**
+ * Data saved under a versioned key
+ */
+interface VersionedRecord {
+  version: number;
+  data: unknown;
+}
+
 /**
  * Datastore Service
  *
@@ -14,6 +39,11 @@ import { StorageKeys, SessionKeys } from '../../shared/constants/app.constants';
  *   const items = this.datastore.getItem<BuybackItem[]>(StorageKeys.BUYBACK_LIST, []);
  * }
  * ```
+ *
+ * Keys whose shape changes over time are saved with a schema version
+ * (`setVersionedItem` / `getVersionedItem`), migrated to the current
+ * version and validated when read. `watchVersionedItem` reports changes
+ * other tabs make to such a key, so open tabs can stay in sync.
  */
 @Injectable({
   providedIn: 'root'
@@ -76,6 +106,84 @@ export class DatastoreService {
     return localStorage.getItem(key) !== null;
   }
 
+  /**
+   * Set versioned item in localStorage
+   */
+  public setVersionedItem<T>(store: VersionedStore<T>, value: T): void {
+    this.setItem<VersionedRecord>(store.key, { version: store.version, data: value });
+  }
+
+  /**
+   * Get versioned item from localStorage
+   * Older versions are migrated (and saved back), corrupt data is removed.
+   * Data from a newer version is ignored, as it cannot be read safely
+   */
+  public getVersionedItem<T>(store: VersionedStore<T>): T | null {
+    const saved = this.getItem<unknown>(store.key);
+    if (saved === null) {
+      return null;
+    }
+
+    const record: VersionedRecord = this.isVersionedRecord(saved) ? saved : { version: 0, data: saved };
+    if (record.version > store.version) {
+      console.error(`localStorage item ${store.key} has unknown version ${record.version}`);
+      return null;
+    }
+
+    let data = record.data;
+    try {
+      for (let version = record.version; version < store.version; version++) {
+        const migrate = store.migrations[version];
+        if (!migrate) {
+          throw new Error(`No migration from version ${version}`);
+        }
+        data = migrate(data);
+      }
+    } catch (error) {
+      console.error(`Error migrating localStorage item ${store.key}:`, error);
+      this.removeItem(store.key);
+      return null;
+    }
+
+    const value = store.validate(data);
+    if (value === null) {
+      console.error(`Discarding corrupt localStorage item ${store.key}`);
+      this.removeItem(store.key);
+    } else if (record.version < store.version) {
+      this.setVersionedItem(store, value);
+    }
+    return value;
+  }
+
+  /**
+   * Watch changes made to a versioned item by other tabs or windows
+   * Emits the new value, read like getVersionedItem (null once removed).
+   * A value this tab cannot read (newer version or corrupt) is not reported,
+   * so it is never mistaken for a removal. Changes made by this tab are not
+   * reported either
+   */
+  public watchVersionedItem<T>(store: VersionedStore<T>): Observable<T | null> {
+    return fromEvent<StorageEvent>(window, 'storage').pipe(
+      // A null key means the other tab cleared the whole storage
+      filter(event => event.storageArea === localStorage && (event.key === store.key || event.key === null)),
+      // Checked before reading, as reading removes corrupt data
+      map(() => ({ removed: !this.hasItem(store.key), value: this.getVersionedItem(store) })),
+      filter(read => read.removed || read.value !== null),
+      map(read => read.value)
+    );
+  }
+
+  /**
+   * Check if saved data is a versioned record
+   */
+  private isVersionedRecord(saved: unknown): saved is VersionedRecord {
+    return typeof saved === 'object' &&
+      saved !== null &&
+      !Array.isArray(saved) &&
+      typeof (saved as VersionedRecord).version === 'number' &&
+      'data' in saved;
+  }
+
   /**
    * Set item in sessionStorage
    */
@@ -186,6 +294,13 @@ export class DatastoreService {
     this.setItem(StorageKeys.SELECTED_STORE, storeId);
   }
 
+  /**
+   * Clear selected store
+   */
+  public clearSelectedStore(): void {
+    this.removeItem(StorageKeys.SELECTED_STORE);
+  }
+
   /**
    * Get user email
    */
@@ -214,13 +329,35 @@ export class DatastoreService {
     this.setItem(StorageKeys.LAST_QUOTATION, quotation);
   }
 
+  /**
+   * Get recent search queries, newest first
+   */
+  public getRecentSearches(): string[] {
+    return this.getItem<string[]>(StorageKeys.RECENT_SEARCHES, [])!;
+  }
+
+  /**
+   * Set recent search queries
+   */
+  public setRecentSearches(queries: string[]): void {
+    this.setItem(StorageKeys.RECENT_SEARCHES, queries);
+  }
+
+  /**
+   * Clear recent search queries
+   */
+  public clearRecentSearches(): void {
+    this.removeItem(StorageKeys.RECENT_SEARCHES);
+  }
+
   /**
    * Clear all application data
    */
   public clearApplicationData(): void {
     this.clearBuybackList();
-    this.removeItem(StorageKeys.SELECTED_STORE);
+    this.clearSelectedStore();
     this.removeItem(StorageKeys.LAST_QUOTATION);
+    this.clearRecentSearches();
     this.clearSessionAll();
   }
 }
@@ -150,8 +150,8 @@ export class LocaleService {
     // Remove current market/lang prefix
     const pathWithoutLocale = currentPath.split('/').slice(3).join('/');
 
-    // Construct new URL with new language
-    const newUrl = `/${currentMarket}/${newLanguage}/${pathWithoutLocale}`;
+    // Construct new URL with new language, keeping the step, search and filters
+    const newUrl = `/${currentMarket}/${newLanguage}/${pathWithoutLocale}${window.location.search}`;
 
     // Reload page with new URL
     window.location.href = newUrl;
@@ -172,8 +172,8 @@ export class LocaleService {
     // Remove current market/lang prefix
     const pathWithoutLocale = currentPath.split('/').slice(3).join('/');
 
-    // Construct new URL with new market
-    const newUrl = `/${newMarket}/${currentLanguage}/${pathWithoutLocale}`;
+    // Construct new URL with new market, keeping the step, search and filters
+    const newUrl = `/${newMarket}/${currentLanguage}/${pathWithoutLocale}${window.location.search}`;
 
     // Reload page with new URL
     window.location.href = newUrl;
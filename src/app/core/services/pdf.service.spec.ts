@@ -0,0 +1,82 @@
+import { TestBed } from '@angular/core/testing';
+import { PdfPage, PdfService } from './pdf.service';
+
+// Starts like a JPEG, with bytes above 0x7f so offsets must count bytes, not characters
+const jpeg = Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x80, 0xff, 0xd9]);
+
+function createPage(width: number, height: number): PdfPage {
+  const canvas = {
+    width: width * 2,
+    height: height * 2,
+    toDataURL: () => `data:image/jpeg;base64,${btoa(String.fromCharCode(...jpeg))}`
+  } as unknown as HTMLCanvasElement;
+  return { canvas, width, height };
+}
+
+/**
+ * The PDF as a string with one character per byte
+ * (read with FileReader, as jsdom's Blob has no arrayBuffer())
+ */
+function readPdf(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const bytes = new Uint8Array(reader.result as ArrayBuffer);
+      resolve(Array.from(bytes, byte => String.fromCharCode(byte)).join(''));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe('PdfService', () => {
+  let service: PdfService;
+  let pdf: string;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(PdfService);
+    pdf = await readPdf(service.create([createPage(595.28, 841.89), createPage(595.28, 841.89)]));
+  });
+
+  it('should write a PDF header and end of file marker', () => {
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+  });
+
+  it('should point startxref at the cross-reference table', () => {
+    const startxref = Number(/startxref\n(\d+)\n%%EOF\n$/.exec(pdf)![1]);
+    expect(pdf.startsWith('xref\n', startxref)).toBe(true);
+  });
+
+  it('should point every cross-reference entry at its object', () => {
+    const xref = pdf.substring(pdf.lastIndexOf('\nxref\n') + 1);
+    const [, first, count] = /^xref\n(\d+) (\d+)\n/.exec(xref)!.map(Number);
+    const entries = [...xref.matchAll(/^(\d{10}) (\d{5}) ([fn]) \n/gm)];
+
+    expect(first).toBe(0);
+    expect(entries.length).toBe(count);
+    expect(entries[0][3]).toBe('f');
+    // Catalog, page tree and three objects per page
+    expect(count).toBe(1 + 2 + 2 * 3);
+    entries.slice(1).forEach((entry, index) => {
+      expect(entry[3]).toBe('n');
+      expect(pdf.startsWith(`${index + 1} 0 obj\n`, Number(entry[1]))).toBe(true);
+    });
+    expect(pdf).toContain(`/Size ${count} `);
+  });
+
+  it('should give every stream its length in bytes', () => {
+    const streams = [...pdf.matchAll(/\/Length (\d+) >>\nstream\n/g)];
+    expect(streams.length).toBe(4);
+    streams.forEach(stream => {
+      const start = stream.index! + stream[0].length;
+      expect(pdf.startsWith('\nendstream\n', start + Number(stream[1]))).toBe(true);
+    });
+  });
+
+  it('should embed the canvas JPEG once per page', () => {
+    expect(pdf).toContain('/Type /Pages /Kids [3 0 R 6 0 R] /Count 2');
+    expect(pdf.split(String.fromCharCode(...jpeg)).length - 1).toBe(2);
+  });
+});
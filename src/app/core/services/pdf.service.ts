@@ -0,0 +1,113 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Page of a PDF document, drawn on a canvas
+ */
+export interface PdfPage {
+  canvas: HTMLCanvasElement;
+  // Page size in points (1/72 inch)
+  width: number;
+  height: number;
+}
+
+/**
+ * PDF Service
+ * Builds PDF documents in the browser from canvas pages, without a
+ * third-party library. Each page is embedded as a JPEG image, so anything
+ * the canvas can draw - including Arabic script, shaped and laid out right
+ * to left by the browser - shows up exactly as drawn.
+ *
+ * Usage:
+ * ```typescript
+ * const blob = this.pdfService.create([{ canvas, width: 595.28, height: 841.89 }]); // A4
+ * this.pdfService.download(blob, 'quotation.pdf');
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PdfService {
+  private readonly jpegQuality = 0.92;
+
+  /**
+   * Create a PDF with one page per canvas
+   */
+  create(pages: PdfPage[]): Blob {
+    const encoder = new TextEncoder();
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (chunk: string | Uint8Array) => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+    // Objects are numbered from 1 in the order they are written
+    const writeObject = (body: string, stream?: Uint8Array) => {
+      offsets.push(length);
+      write(`${offsets.length} 0 obj\n${body}\n`);
+      if (stream) {
+        write('stream\n');
+        write(stream);
+        write('\nendstream\n');
+      }
+      write('endobj\n');
+    };
+
+    // Objects 1 and 2 are the catalog and page tree, then three per page
+    // (page, content stream, image)
+    const pageIds = pages.map((_, index) => 3 + index * 3);
+
+    write('%PDF-1.4\n');
+    writeObject('<< /Type /Catalog /Pages 2 0 R >>');
+    writeObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+    pages.forEach((page, index) => {
+      const pageId = pageIds[index];
+      const image = this.toJpeg(page.canvas);
+      const content = encoder.encode(`q ${page.width} 0 0 ${page.height} 0 0 cm /Im0 Do Q`);
+
+      writeObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      );
+      writeObject(`<< /Length ${content.length} >>`, content);
+      writeObject(
+        `<< /Type /XObject /Subtype /Image /Width ${page.canvas.width} /Height ${page.canvas.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.length} >>`,
+        image
+      );
+    });
+
+    // Cross-reference table: 20-byte entries with each object's byte offset
+    const xrefOffset = length;
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+    offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+  }
+
+  /**
+   * Save a PDF through the browser's download
+   */
+  download(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoked later, as some browsers start the download asynchronously
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  /**
+   * JPEG bytes of a canvas
+   */
+  private toJpeg(canvas: HTMLCanvasElement): Uint8Array {
+    const dataUrl = canvas.toDataURL('image/jpeg', this.jpegQuality);
+    const binary = atob(dataUrl.substring(dataUrl.indexOf(',') + 1));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+  }
+}
@@ -0,0 +1,60 @@
+import { TestBed } from '@angular/core/testing';
+import jsQR from 'jsqr';
+import { QrCode, QrCodeService } from './qr-code.service';
+
+// Bytes that fit each version at error correction level M (index 0 unused)
+const capacities = [-1, 14, 26, 42, 62, 84, 106, 122, 152, 180, 213];
+
+/**
+ * Decode a code with an independent reader, drawn 4 pixels per module
+ */
+function decode(qrCode: QrCode, quietZone: number): string | null {
+  const scale = 4;
+  const width = (qrCode.size + quietZone * 2) * scale;
+  const pixels = new Uint8ClampedArray(width * width * 4).fill(255);
+
+  for (let y = 0; y < width; y++) {
+    for (let x = 0; x < width; x++) {
+      const row = Math.floor(y / scale) - quietZone;
+      const column = Math.floor(x / scale) - quietZone;
+      if (qrCode.modules[row]?.[column]) {
+        pixels.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+      }
+    }
+  }
+
+  return jsQR(pixels, width, width, { inversionAttempts: 'dontInvert' })?.data ?? null;
+}
+
+describe('QrCodeService', () => {
+  let service: QrCodeService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(QrCodeService);
+  });
+
+  for (let version = 1; version < capacities.length; version++) {
+    it(`should round-trip a full version ${version} code`, () => {
+      const text = Array.from({ length: capacities[version] }, (_, i) => 'BYB1:SA-0123456789'[i % 18]).join('');
+      const qrCode = service.encode(text)!;
+
+      expect(qrCode.size).toBe(version * 4 + 17);
+      expect(decode(qrCode, service.quietZone)).toBe(text);
+    });
+  }
+
+  it('should use the next version once a version is full', () => {
+    expect(service.encode('x'.repeat(capacities[1] + 1))!.size).toBe(25);
+  });
+
+  it('should encode text as UTF-8', () => {
+    const text = 'https://www.ikea.com/sa/ar/?q=ساتسوماس';
+    expect(decode(service.encode(text)!, service.quietZone)).toBe(text);
+  });
+
+  it('should reject text longer than version 10 holds', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(service.encode('x'.repeat(capacities[10] + 1))).toBeNull();
+  });
+});
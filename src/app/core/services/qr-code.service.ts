@@ -0,0 +1,429 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * QR code symbol - modules[y][x] is true for a dark module
+ */
+export interface QrCode {
+  size: number;
+  modules: boolean[][];
+}
+
+/**
+ * QR Code Service
+ *
+ * Encodes text (UTF-8, byte mode) as a QR code with error correction level M,
+ * versions 1 to 10 (up to 213 bytes) - enough for links and short codes.
+ * Runs entirely in the browser, so codes render offline.
+ *
+ * Usage:
+ * ```typescript
+ * const qrCode = this.qrCodeService.encode('https://www.ikea.com/sa/en/');
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class QrCodeService {
+  private readonly maxVersion = 10;
+
+  // Error correction level M, indexed by version (index 0 unused)
+  private readonly eccCodewordsPerBlock = [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26];
+  private readonly eccBlockCount = [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5];
+  private readonly formatLevelBits = 0;
+
+  // Quiet zone around the symbol, in modules
+  readonly quietZone = 4;
+
+  /**
+   * Encode text as the smallest QR code that fits it
+   * Returns null when the text is too long
+   */
+  encode(text: string): QrCode | null {
+    const bytes = Array.from(new TextEncoder().encode(text));
+
+    const version = this.findVersion(bytes.length);
+    if (version === null) {
+      console.error(`Text too long for a QR code (${bytes.length} bytes)`);
+      return null;
+    }
+
+    const size = version * 4 + 17;
+    const modules = this.createGrid(size);
+    const isFunction = this.createGrid(size);
+    this.drawFunctionPatterns(version, modules, isFunction);
+
+    const codewords = this.addErrorCorrection(version, this.getDataCodewords(version, bytes));
+    this.drawCodewords(codewords, modules, isFunction);
+
+    // Keep the mask that is easiest to read
+    let bestMask = 0;
+    let bestPenalty = Infinity;
+    for (let mask = 0; mask < 8; mask++) {
+      this.applyMask(mask, modules, isFunction);
+      this.drawFormatBits(mask, modules, isFunction);
+      const penalty = this.getPenalty(modules);
+      if (penalty < bestPenalty) {
+        bestMask = mask;
+        bestPenalty = penalty;
+      }
+      this.applyMask(mask, modules, isFunction); // masking twice undoes it
+    }
+    this.applyMask(bestMask, modules, isFunction);
+    this.drawFormatBits(bestMask, modules, isFunction);
+
+    return { size, modules };
+  }
+
+  /**
+   * SVG path drawing the dark modules of a code, offset by the quiet zone
+   * (one unit per module)
+   */
+  toSvgPath(qrCode: QrCode): string {
+    const parts: string[] = [];
+    qrCode.modules.forEach((row, y) =>
+      row.forEach((isDark, x) => {
+        if (isDark) {
+          parts.push(`M${x + this.quietZone},${y + this.quietZone}h1v1h-1z`);
+        }
+      })
+    );
+    return parts.join('');
+  }
+
+  private findVersion(byteCount: number): number | null {
+    for (let version = 1; version <= this.maxVersion; version++) {
+      const capacityBits = this.getDataCodewordCount(version) * 8;
+      if (4 + this.getCountBits(version) + byteCount * 8 <= capacityBits) {
+        return version;
+      }
+    }
+    return null;
+  }
+
+  // Length field size of byte mode segments
+  private getCountBits(version: number): number {
+    return version < 10 ? 8 : 16;
+  }
+
+  private getRawCodewordCount(version: number): number {
+    let modules = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+      const alignmentCount = Math.floor(version / 7) + 2;
+      modules -= (25 * alignmentCount - 10) * alignmentCount - 55;
+      if (version >= 7) {
+        modules -= 36;
+      }
+    }
+    return Math.floor(modules / 8);
+  }
+
+  private getDataCodewordCount(version: number): number {
+    return this.getRawCodewordCount(version) - this.eccCodewordsPerBlock[version] * this.eccBlockCount[version];
+  }
+
+  private createGrid(size: number): boolean[][] {
+    return Array.from({ length: size }, () => Array<boolean>(size).fill(false));
+  }
+
+  /**
+   * Finder, timing and alignment patterns, reserved format and version areas
+   */
+  private drawFunctionPatterns(version: number, modules: boolean[][], isFunction: boolean[][]): void {
+    const size = modules.length;
+    const set = (x: number, y: number, isDark: boolean) => {
+      modules[y][x] = isDark;
+      isFunction[y][x] = true;
+    };
+
+    for (let i = 0; i < size; i++) {
+      set(6, i, i % 2 === 0);
+      set(i, 6, i % 2 === 0);
+    }
+
+    [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+      for (let dy = -4; dy <= 4; dy++) {
+        for (let dx = -4; dx <= 4; dx++) {
+          const x = cx + dx;
+          const y = cy + dy;
+          if (x >= 0 && x < size && y >= 0 && y < size) {
+            const distance = Math.max(Math.abs(dx), Math.abs(dy));
+            set(x, y, distance !== 2 && distance !== 4);
+          }
+        }
+      }
+    });
+
+    const positions = this.getAlignmentPositions(version);
+    const last = positions.length - 1;
+    positions.forEach((cx, i) =>
+      positions.forEach((cy, j) => {
+        // Skip the three finder corners
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      })
+    );
+
+    // Reserve the format areas, drawn for real once the mask is chosen
+    this.drawFormatBits(0, modules, isFunction);
+
+    if (version >= 7) {
+      let remainder = version;
+      for (let i = 0; i < 12; i++) {
+        remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+      }
+      const bits = (version << 12) | remainder;
+      for (let i = 0; i < 18; i++) {
+        const isDark = ((bits >>> i) & 1) !== 0;
+        const a = size - 11 + (i % 3);
+        const b = Math.floor(i / 3);
+        set(a, b, isDark);
+        set(b, a, isDark);
+      }
+    }
+  }
+
+  private getAlignmentPositions(version: number): number[] {
+    if (version === 1) {
+      return [];
+    }
+    const size = version * 4 + 17;
+    const count = Math.floor(version / 7) + 2;
+    const step = Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+    const positions = [6];
+    for (let position = size - 7; positions.length < count; position -= step) {
+      positions.splice(1, 0, position);
+    }
+    return positions;
+  }
+
+  private drawFormatBits(mask: number, modules: boolean[][], isFunction: boolean[][]): void {
+    const size = modules.length;
+    const data = (this.formatLevelBits << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+    const set = (x: number, y: number, isDark: boolean) => {
+      modules[y][x] = isDark;
+      isFunction[y][x] = true;
+    };
+
+    // Around the top left finder
+    for (let i = 0; i <= 5; i++) {
+      set(8, i, bit(i));
+    }
+    set(8, 7, bit(6));
+    set(8, 8, bit(7));
+    set(7, 8, bit(8));
+    for (let i = 9; i < 15; i++) {
+      set(14 - i, 8, bit(i));
+    }
+
+    // Split between the other two finders
+    for (let i = 0; i < 8; i++) {
+      set(size - 1 - i, 8, bit(i));
+    }
+    for (let i = 8; i < 15; i++) {
+      set(8, size - 15 + i, bit(i));
+    }
+    set(8, size - 8, true);
+  }
+
+  /**
+   * Byte mode segment, terminator and padding
+   */
+  private getDataCodewords(version: number, bytes: number[]): number[] {
+    const bits: number[] = [];
+    const append = (value: number, length: number) => {
+      for (let i = length - 1; i >= 0; i--) {
+        bits.push((value >>> i) & 1);
+      }
+    };
+
+    append(0b0100, 4);
+    append(bytes.length, this.getCountBits(version));
+    bytes.forEach(byte => append(byte, 8));
+
+    const capacityBits = this.getDataCodewordCount(version) * 8;
+    append(0, Math.min(4, capacityBits - bits.length));
+    append(0, (8 - (bits.length % 8)) % 8);
+
+    const codewords: number[] = [];
+    for (let i = 0; i < bits.length; i += 8) {
+      codewords.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b, 0));
+    }
+    for (let pad = 0xec; codewords.length < capacityBits / 8; pad ^= 0xec ^ 0x11) {
+      codewords.push(pad);
+    }
+    return codewords;
+  }
+
+  /**
+   * Split data into blocks, add Reed-Solomon codewords and interleave
+   */
+  private addErrorCorrection(version: number, data: number[]): number[] {
+    const blockCount = this.eccBlockCount[version];
+    const eccLength = this.eccCodewordsPerBlock[version];
+    const rawCodewords = this.getRawCodewordCount(version);
+    const shortBlockCount = blockCount - (rawCodewords % blockCount);
+    const shortBlockLength = Math.floor(rawCodewords / blockCount);
+    const divisor = this.getReedSolomonDivisor(eccLength);
+
+    const blocks: number[][] = [];
+    for (let i = 0, offset = 0; i < blockCount; i++) {
+      const blockData = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1));
+      offset += blockData.length;
+      const ecc = this.getReedSolomonRemainder(blockData, divisor);
+      if (i < shortBlockCount) {
+        blockData.push(0);
+      }
+      blocks.push([...blockData, ...ecc]);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < blocks[0].length; i++) {
+      blocks.forEach((block, j) => {
+        // Skip the padding of short blocks
+        if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+          result.push(block[i]);
+        }
+      });
+    }
+    return result;
+  }
+
+  private getReedSolomonDivisor(degree: number): number[] {
+    const result = Array<number>(degree).fill(0);
+    result[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+      for (let j = 0; j < result.length; j++) {
+        result[j] = this.multiply(result[j], root);
+        if (j + 1 < result.length) {
+          result[j] ^= result[j + 1];
+        }
+      }
+      root = this.multiply(root, 0x02);
+    }
+    return result;
+  }
+
+  private getReedSolomonRemainder(data: number[], divisor: number[]): number[] {
+    const result = divisor.map(() => 0);
+    data.forEach(byte => {
+      const factor = byte ^ (result.shift() as number);
+      result.push(0);
+      divisor.forEach((coefficient, i) => (result[i] ^= this.multiply(coefficient, factor)));
+    });
+    return result;
+  }
+
+  // Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+  private multiply(x: number, y: number): number {
+    let z = 0;
+    for (let i = 7; i >= 0; i--) {
+      z = (z << 1) ^ ((z >>> 7) * 0x11d);
+      z ^= ((y >>> i) & 1) * x;
+    }
+    return z;
+  }
+
+  /**
+   * Place codewords in the zigzag order, two columns at a time from the right
+   */
+  private drawCodewords(codewords: number[], modules: boolean[][], isFunction: boolean[][]): void {
+    const size = modules.length;
+    let i = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5; // skip the vertical timing pattern
+      }
+      for (let vertical = 0; vertical < size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const isUpward = ((right + 1) & 2) === 0;
+          const y = isUpward ? size - 1 - vertical : vertical;
+          if (!isFunction[y][x] && i < codewords.length * 8) {
+            modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  private applyMask(mask: number, modules: boolean[][], isFunction: boolean[][]): void {
+    const conditions: ((x: number, y: number) => boolean)[] = [
+      (x, y) => (x + y) % 2 === 0,
+      (x, y) => y % 2 === 0,
+      (x, y) => x % 3 === 0,
+      (x, y) => (x + y) % 3 === 0,
+      (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+      (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+      (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+      (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+    ];
+    modules.forEach((row, y) =>
+      row.forEach((_, x) => {
+        if (!isFunction[y][x] && conditions[mask](x, y)) {
+          row[x] = !row[x];
+        }
+      })
+    );
+  }
+
+  /**
+   * Readability penalty: long runs, 2x2 blocks, finder-like patterns and
+   * dark/light imbalance
+   */
+  private getPenalty(modules: boolean[][]): number {
+    const size = modules.length;
+    const columns = modules.map((_, x) => modules.map(row => row[x]));
+    const finderLike = ['10111010000', '00001011101'];
+    let penalty = 0;
+
+    [...modules, ...columns].forEach(line => {
+      let runLength = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          runLength++;
+          continue;
+        }
+        if (runLength >= 5) {
+          penalty += runLength - 2;
+        }
+        runLength = 1;
+      }
+
+      const text = line.map(isDark => (isDark ? '1' : '0')).join('');
+      finderLike.forEach(pattern => {
+        for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + 1)) {
+          penalty += 40;
+        }
+      });
+    });
+
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const isDark = modules[y][x];
+        if (isDark === modules[y][x + 1] && isDark === modules[y + 1][x] && isDark === modules[y + 1][x + 1]) {
+          penalty += 3;
+        }
+      }
+    }
+
+    const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+    const total = size * size;
+    penalty += Math.max(0, Math.ceil(Math.abs(darkCount * 20 - total * 10) / total) - 1) * 10;
+
+    return penalty;
+  }
+}
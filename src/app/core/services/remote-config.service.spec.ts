@@ -0,0 +1,67 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { RemoteConfigService } from './remote-config.service';
+import { APIService } from './api.service';
+import { RemoteConfigResponse } from '../../shared/interfaces/remote-config.interface';
+import { Validation } from '../../shared/constants/app.constants';
+import { environment } from '../../../environments/environment';
+
+describe('RemoteConfigService', () => {
+  const useMock = environment.features.mockApiResponses;
+
+  let service: RemoteConfigService;
+  let http: HttpTestingController;
+
+  beforeEach(() => {
+    // Fetch the config, as in production
+    environment.features.mockApiResponses = false;
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(RemoteConfigService);
+    http = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    http.verify();
+    environment.features.mockApiResponses = useMock;
+    vi.restoreAllMocks();
+  });
+
+  const load = (remote: unknown) => {
+    service.load().subscribe();
+    const url = TestBed.inject(APIService).config;
+    http.expectOne(request => request.url === url).flush(remote as RemoteConfigResponse);
+  };
+
+  it('should merge remote feature flags over the build-time ones', () => {
+    load({ features: { enableAnalytics: !environment.features.enableAnalytics } });
+
+    expect(service.enableAnalytics()).toBe(!environment.features.enableAnalytics);
+    expect(service.enableErrorTracking()).toBe(environment.features.enableErrorTracking);
+    expect(service.enableDevTools()).toBe(environment.features.enableDevTools);
+  });
+
+  it('should keep the build-time value of a flag that is not a boolean', () => {
+    load({ features: { enableDevTools: 'yes' } });
+
+    expect(service.enableDevTools()).toBe(environment.features.enableDevTools);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('should not switch mock mode remotely', () => {
+    load({ features: { mockApiResponses: true } });
+
+    expect(service.features().mockApiResponses).toBe(false);
+  });
+
+  it('should keep the defaults for values out of range', () => {
+    load({ validation: { maxItemsInBuybackList: 0, maxQuantityPerItem: 2.5, categoryLimits: { chairs: 3, sofas: -1 } } });
+
+    expect(service.maxItemsInBuybackList()).toBe(Validation.MAX_ITEMS_IN_BUYBACK_LIST);
+    expect(service.maxQuantityPerItem()).toBe(Validation.MAX_QUANTITY_PER_ITEM);
+    expect(service.categoryLimits()).toEqual({ chairs: 3 });
+  });
+});
@@ -0,0 +1,243 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, map, timeout } from 'rxjs/operators';
+import { APIService } from './api.service';
+import { LocaleService } from './locale.service';
+import { RemoteConfig, RemoteConfigResponse } from '../../shared/interfaces/remote-config.interface';
+import { API, RemoteConfigRanges, Timings, Validation } from '../../shared/constants/app.constants';
+import { environment } from '../../../environments/environment';
+import { FeatureFlags } from '../../../environments/environment.model';
+
+/**
+ * Remote Config Service
+ *
+ * Loads market configuration from the config endpoint at boot (via the app
+ * initializer in app.config.ts) and merges it over the compile-time defaults
+ * from the environment file and app.constants.ts.
+ *
+ * A failed or slow config request never blocks the app - the defaults are kept.
+ * Values of the wrong type or outside RemoteConfigRanges are ignored as well.
+ * Feature flags fall back to environment.features; mockApiResponses stays
+ * build-time only, as services choose their data source before the config loads.
+ *
+ * Usage:
+ * ```typescript
+ * constructor(private remoteConfig: RemoteConfigService) {
+ *   const maxItems = this.remoteConfig.maxItemsInBuybackList();
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class RemoteConfigService {
+  // Injected before the config signal, whose defaults depend on the market
+  private locale = inject(LocaleService);
+
+  private _config = signal<RemoteConfig>(this.getDefaults());
+
+  // Public readonly signals
+  readonly config = this._config.asReadonly();
+
+  // Computed signals
+  readonly buybackEnabled = computed(() => this._config().buybackEnabled);
+  readonly features = computed(() => this._config().features);
+  readonly enableAnalytics = computed(() => this._config().features.enableAnalytics);
+  readonly enableErrorTracking = computed(() => this._config().features.enableErrorTracking);
+  readonly enableDevTools = computed(() => this._config().features.enableDevTools);
+  readonly maxItemsInBuybackList = computed(() => this._config().validation.maxItemsInBuybackList);
+  readonly maxQuantityPerItem = computed(() => this._config().validation.maxQuantityPerItem);
+  readonly maxBuybackListValue = computed(() => this._config().validation.maxBuybackListValue);
+  readonly categoryLimits = computed(() => this._config().validation.categoryLimits);
+  readonly minSearchLength = computed(() => this._config().validation.minSearchLength);
+  readonly searchDebounce = computed(() => this._config().timings.searchDebounce);
+  readonly toastDuration = computed(() => this._config().timings.toastDuration);
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService
+  ) {}
+
+  /**
+   * Fetch market configuration and merge it over the defaults
+   * Called once by the app initializer
+   */
+  load(): Observable<RemoteConfig> {
+    const source$: Observable<RemoteConfigResponse> = environment.features.mockApiResponses
+      ? of({})
+      : this.http.get<RemoteConfigResponse>(this.api.config, {
+          params: new HttpParams().set('market', this.locale.currentMarket())
+        });
+
+    return source$.pipe(
+      timeout(API.REQUEST_TIMEOUT),
+      catchError(error => {
+        console.error('Remote config error, using defaults:', error);
+        return of({} as RemoteConfigResponse);
+      }),
+      map(remote => {
+        const merged = this.merge(this.getDefaults(), remote || {});
+        this._config.set(merged);
+        return merged;
+      })
+    );
+  }
+
+  /**
+   * Compile-time defaults
+   */
+  private getDefaults(): RemoteConfig {
+    return {
+      buybackEnabled: true,
+      features: { ...environment.features },
+      validation: {
+        minSearchLength: Validation.MIN_SEARCH_LENGTH,
+        maxItemsInBuybackList: Validation.MAX_ITEMS_IN_BUYBACK_LIST,
+        maxQuantityPerItem: Validation.MAX_QUANTITY_PER_ITEM,
+        maxBuybackListValue: Validation.MAX_BUYBACK_LIST_VALUE[this.locale.currentMarket()],
+        categoryLimits: {}
+      },
+      timings: {
+        searchDebounce: Timings.SEARCH_DEBOUNCE,
+        toastDuration: Timings.TOAST_DURATION
+      }
+    };
+  }
+
+  /**
+   * Merge remote values key by key over the defaults
+   */
+  private merge(defaults: RemoteConfig, remote: RemoteConfigResponse): RemoteConfig {
+    const validation = remote.validation ?? {};
+    const timings = remote.timings ?? {};
+
+    return {
+      buybackEnabled: this.toBoolean('buybackEnabled', remote.buybackEnabled, defaults.buybackEnabled),
+      features: this.toFeatures(remote.features, defaults.features),
+      validation: {
+        minSearchLength: this.toNumber(
+          'validation.minSearchLength', validation.minSearchLength,
+          RemoteConfigRanges.MIN_SEARCH_LENGTH, defaults.validation.minSearchLength, true
+        ),
+        maxItemsInBuybackList: this.toNumber(
+          'validation.maxItemsInBuybackList', validation.maxItemsInBuybackList,
+          RemoteConfigRanges.MAX_ITEMS_IN_BUYBACK_LIST, defaults.validation.maxItemsInBuybackList, true
+        ),
+        maxQuantityPerItem: this.toNumber(
+          'validation.maxQuantityPerItem', validation.maxQuantityPerItem,
+          RemoteConfigRanges.MAX_QUANTITY_PER_ITEM, defaults.validation.maxQuantityPerItem, true
+        ),
+        maxBuybackListValue: this.toNumber(
+          'validation.maxBuybackListValue', validation.maxBuybackListValue,
+          RemoteConfigRanges.MAX_BUYBACK_LIST_VALUE, defaults.validation.maxBuybackListValue, false
+        ),
+        categoryLimits: this.toCategoryLimits(validation.categoryLimits, defaults.validation.categoryLimits)
+      },
+      timings: {
+        searchDebounce: this.toNumber(
+          'timings.searchDebounce', timings.searchDebounce,
+          RemoteConfigRanges.SEARCH_DEBOUNCE, defaults.timings.searchDebounce, true
+        ),
+        toastDuration: this.toNumber(
+          'timings.toastDuration', timings.toastDuration,
+          RemoteConfigRanges.TOAST_DURATION, defaults.timings.toastDuration, true
+        )
+      }
+    };
+  }
+
+  /**
+   * Remote feature flags over the build-time ones, flag by flag
+   */
+  private toFeatures(value: unknown, fallback: FeatureFlags): FeatureFlags {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      console.warn('Invalid remote config features, using defaults:', value);
+      return fallback;
+    }
+
+    const flags = value as Partial<Record<keyof FeatureFlags, unknown>>;
+    if (flags.mockApiResponses !== undefined) {
+      console.warn('Remote config features.mockApiResponses is build-time only, ignoring:', flags.mockApiResponses);
+    }
+    return {
+      enableAnalytics: this.toBoolean('features.enableAnalytics', flags.enableAnalytics, fallback.enableAnalytics),
+      enableErrorTracking: this.toBoolean(
+        'features.enableErrorTracking', flags.enableErrorTracking, fallback.enableErrorTracking
+      ),
+      enableDevTools: this.toBoolean('features.enableDevTools', flags.enableDevTools, fallback.enableDevTools),
+      mockApiResponses: fallback.mockApiResponses
+    };
+  }
+
+  /**
+   * A remote boolean, otherwise the default
+   */
+  private toBoolean(key: string, value: unknown, fallback: boolean): boolean {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'boolean') {
+      console.warn(`Invalid remote config ${key}, using default:`, value);
+      return fallback;
+    }
+    return value;
+  }
+
+  /**
+   * A remote number within range, otherwise the default
+   */
+  private toNumber(
+    key: string,
+    value: unknown,
+    range: { min: number; max: number },
+    fallback: number,
+    integer: boolean
+  ): number {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (!this.isInRange(value, range, integer)) {
+      console.warn(`Invalid remote config ${key}, using default:`, value);
+      return fallback;
+    }
+    return value;
+  }
+
+  /**
+   * Remote category limits, dropping entries that are not a valid quantity
+   */
+  private toCategoryLimits(value: unknown, fallback: Record<string, number>): Record<string, number> {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      console.warn('Invalid remote config validation.categoryLimits, using default:', value);
+      return fallback;
+    }
+
+    const limits: Record<string, number> = {};
+    for (const [categoryId, limit] of Object.entries(value)) {
+      if (this.isInRange(limit, RemoteConfigRanges.CATEGORY_LIMIT, true)) {
+        limits[categoryId] = limit;
+      } else {
+        console.warn(`Invalid remote config validation.categoryLimits.${categoryId}, ignoring:`, limit);
+      }
+    }
+    return limits;
+  }
+
+  /**
+   * Check that a remote value is a finite number (whole when required) within range
+   */
+  private isInRange(value: unknown, range: { min: number; max: number }, integer: boolean): value is number {
+    return typeof value === 'number' &&
+      Number.isFinite(value) &&
+      (!integer || Number.isInteger(value)) &&
+      value >= range.min &&
+      value <= range.max;
+  }
+}
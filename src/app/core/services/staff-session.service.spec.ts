@@ -0,0 +1,71 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { StaffSession, StaffSessionService } from './staff-session.service';
+import { APIService } from './api.service';
+import { StaffRole } from '../../shared/constants/app.constants';
+import { environment } from '../../../environments/environment';
+
+describe('StaffSessionService', () => {
+  const coworker: StaffSession = { name: 'Co-worker', roles: [StaffRole.COWORKER] };
+  const useMock = environment.features.mockApiResponses;
+
+  let service: StaffSessionService;
+  let http: HttpTestingController;
+  let url: string;
+  let loaded: (StaffSession | null)[];
+
+  beforeEach(() => {
+    // Load from the backend, as in production
+    environment.features.mockApiResponses = false;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(StaffSessionService);
+    http = TestBed.inject(HttpTestingController);
+    url = TestBed.inject(APIService).staffSession;
+    loaded = [];
+  });
+
+  afterEach(() => {
+    http.verify();
+    environment.features.mockApiResponses = useMock;
+    vi.restoreAllMocks();
+  });
+
+  const load = () => service.load().subscribe(session => loaded.push(session));
+
+  it('should load the signed-in co-worker with their credentials, once', () => {
+    load();
+    const request = http.expectOne(url);
+    expect(request.request.withCredentials).toBe(true);
+    request.flush(coworker);
+
+    load();
+    expect(loaded).toEqual([coworker, coworker]);
+    expect(service.isSignedIn()).toBe(true);
+    expect(service.hasRole(StaffRole.COWORKER)).toBe(true);
+  });
+
+  it('should grant no role to a customer without a staff session', () => {
+    load();
+    http.expectOne(url).flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(loaded).toEqual([null]);
+    expect(service.isSignedIn()).toBe(false);
+    expect(service.hasRole(StaffRole.COWORKER)).toBe(false);
+  });
+
+  it('should load again after finding nobody signed in', () => {
+    load();
+    http.expectOne(url).flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    // Signed in since, e.g. in another tab
+    load();
+    http.expectOne(url).flush(coworker);
+
+    expect(loaded).toEqual([null, coworker]);
+    expect(service.hasRole(StaffRole.COWORKER)).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, delay, map, tap } from 'rxjs/operators';
+import { APIService } from './api.service';
+import { StaffRole } from '../../shared/constants/app.constants';
+import { environment } from '../../../environments/environment';
+
+/**
+ * Signed-in store co-worker
+ */
+export interface StaffSession {
+  name: string;
+  roles: StaffRole.Role[];
+}
+
+/**
+ * Staff Session Service
+ * Loads the store co-worker signed in through the store network's single
+ * sign-on. Customers have no staff session, so the endpoint answers 401 and
+ * no role is granted. Guards the staff-only routes (see staffRoleGuard).
+ *
+ * Usage:
+ * ```typescript
+ * this.staffSession.load().subscribe(() => {
+ *   const canCheckIn = this.staffSession.hasRole(StaffRole.COWORKER);
+ * });
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StaffSessionService {
+  // Private state
+  private _session = signal<StaffSession | null>(null);
+
+  // Public readonly signals
+  readonly session = this._session.asReadonly();
+
+  // Computed signals
+  readonly isSignedIn = computed(() => this._session() !== null);
+
+  private useMock = environment.features.mockApiResponses;
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService
+  ) {}
+
+  /**
+   * Load the staff session; null when nobody is signed in
+   * Only a signed-in session is kept, so a co-worker who signs in later is
+   * picked up the next time a guarded route opens, without a reload
+   */
+  load(): Observable<StaffSession | null> {
+    const session = this._session();
+    if (session) {
+      return of(session);
+    }
+
+    // Mock mode signs in a co-worker, so the check-in page can be tried locally
+    const source$: Observable<StaffSession> = this.useMock
+      ? of({ name: 'Co-worker', roles: [StaffRole.COWORKER] as StaffRole.Role[] }).pipe(delay(200))
+      : this.http.get<StaffSession>(this.api.staffSession, { withCredentials: true });
+
+    return source$.pipe(
+      map(session => session ?? null),
+      catchError(error => {
+        console.error('Staff session error:', error);
+        return of(null);
+      }),
+      tap(session => this._session.set(session))
+    );
+  }
+
+  /**
+   * Check if the signed-in co-worker has a role
+   */
+  hasRole(role: StaffRole.Role): boolean {
+    return this._session()?.roles.includes(role) ?? false;
+  }
+}
@@ -1,9 +1,17 @@
-import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, EventEmitter, Output } from '@angular/core';
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, EventEmitter, Output, ViewChild } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { BaseComponent } from '../../../../shared/base-classes/base.component';
-import { BuybackListService } from '../../services/buyback-list.service';
+import { BuybackConditionOption, BuybackListService } from '../../services/buyback-list.service';
+import { OfferService } from '../../services/offer.service';
+import { FamilyMembershipService } from '../../services/family-membership.service';
 import { LocaleService } from '../../../../core/services/locale.service';
+import { RemoteConfigService } from '../../../../core/services/remote-config.service';
 import { UtilityService } from '../../../../core/services/utility.service';
+import { CountdownComponent } from '../../../../shared/components/countdown/countdown.component';
+import { ShareListComponent } from '../share-list/share-list.component';
+import { ToasterService } from '../../../../shared/components/toaster/toaster.service';
+import { ProductCondition, toasterCases } from '../../../../shared/constants/app.constants';
+import { BuybackItem } from '../../../../shared/interfaces/product.interface';
 
 /**
  * Buyback Sidebar Component
@@ -12,35 +20,53 @@ import { UtilityService } from '../../../../core/services/utility.service';
 @Component({
   selector: 'app-buyback-sidebar',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, CountdownComponent, ShareListComponent],
   schemas: [CUSTOM_ELEMENTS_SCHEMA],
   templateUrl: './buyback-sidebar.component.html',
   styleUrls: ['./buyback-sidebar.component.scss']
 })
 export class BuybackSidebarComponent extends BaseComponent {
   @Output() continueToOfferClick = new EventEmitter<void>();
+  @ViewChild(ShareListComponent) shareListSheet!: ShareListComponent;
 
   // Computed
   translations = computed(() => this.locale.translations());
   items = computed(() => this.buybackService.items());
   itemCount = computed(() => this.buybackService.itemCount());
-  totalValue = computed(() => this.buybackService.totalValue());
-  totalFamilyValue = computed(() => this.buybackService.totalFamilyValue());
+  totalValue = computed(() => this.offerService.totalValue());
+  totalFamilyValue = computed(() => this.offerService.totalFamilyValue());
+  isFamilyMember = computed(() => this.familyMembership.isFamilyMember());
+  hasPriceDifferences = computed(() => this.offerService.hasPriceDifferences());
+  isCalculating = computed(() => this.offerService.isCalculating());
   isEmpty = computed(() => this.buybackService.isEmpty());
+  validUntil = computed(() => this.buybackService.validUntil());
+  priceChanges = computed(() => this.buybackService.priceChanges());
+  maxQuantityPerItem = computed(() => this.remoteConfig.maxQuantityPerItem());
+  canUndo = computed(() => this.buybackService.canUndo());
+  canRedo = computed(() => this.buybackService.canRedo());
 
   constructor(
     private buybackService: BuybackListService,
+    private offerService: OfferService,
+    private familyMembership: FamilyMembershipService,
     private locale: LocaleService,
-    private utility: UtilityService
+    private utility: UtilityService,
+    private remoteConfig: RemoteConfigService,
+    private toasterService: ToasterService
   ) {
     super();
   }
 
   /**
    * Handle SKAPA quantity stepper change event
+   * A quantity below 1 removes the item, with the toaster's undo
    */
   onQuantityChange(itemId: string, event: any): void {
-    const quantity = event.detail?.value || event.detail;
+    const quantity = Number(event.detail?.value ?? event.detail);
+    if (quantity < 1) {
+      this.removeItem(itemId);
+      return;
+    }
     this.updateQuantity(itemId, quantity);
   }
 
@@ -52,10 +78,82 @@ export class BuybackSidebarComponent extends BaseComponent {
   }
 
   /**
-   * Remove item
+   * Remove item, offering to undo it in the toaster
    */
   removeItem(itemId: string): void {
-    this.buybackService.removeItem(itemId);
+    const change = this.buybackService.removeItem(itemId);
+    this.toasterService.openToaster({
+      ...toasterCases.ITEM_REMOVED,
+      viewLink: { ...toasterCases.ITEM_REMOVED.viewLink, action: () => this.buybackService.revert(change) }
+    });
+  }
+
+  /**
+   * Change an item's condition, re-pricing it
+   */
+  onConditionChange(itemId: string, event: Event): void {
+    const condition = (event.target as HTMLSelectElement).value as ProductCondition.Condition;
+    if (!this.buybackService.updateCondition(itemId, condition)) {
+      // Keep showing the current condition
+      const item = this.items().find(i => i.id === itemId);
+      (event.target as HTMLSelectElement).value = item?.condition ?? condition;
+    }
+  }
+
+  /**
+   * Conditions an item can be changed to
+   */
+  getConditionOptions(item: BuybackItem): BuybackConditionOption[] {
+    return this.buybackService.getConditionOptions(item);
+  }
+
+  /**
+   * Undo the last change to the list
+   */
+  undo(): void {
+    this.buybackService.undo();
+  }
+
+  /**
+   * Redo the last undone change
+   */
+  redo(): void {
+    this.buybackService.redo();
+  }
+
+  /**
+   * Save the list and show its link and QR code
+   */
+  shareList(): void {
+    this.shareListSheet.open();
+  }
+
+  /**
+   * Clear the whole list, once confirmed in the modal
+   */
+  clearList(): void {
+    this.buybackService.confirmClearList();
+  }
+
+  /**
+   * Re-price the list once the price lock runs out
+   */
+  onPriceLockExpired(): void {
+    this.offerService.refresh();
+  }
+
+  /**
+   * Hide the price change summary
+   */
+  dismissPriceChanges(): void {
+    this.buybackService.dismissPriceChanges();
+  }
+
+  /**
+   * Format a price for inline text
+   */
+  formatPrice(price: number): string {
+    return this.utility.formatCurrency(price);
   }
 
   /**
@@ -66,6 +164,20 @@ export class BuybackSidebarComponent extends BaseComponent {
     this.continueToOfferClick.emit();
   }
 
+  /**
+   * Get line total, using the server offer price when available
+   */
+  getLineTotal(item: BuybackItem): number {
+    return this.offerService.getLineTotal(item);
+  }
+
+  /**
+   * Check if the server offer differs from the cached price
+   */
+  isPriceChanged(itemId: string): boolean {
+    return !!this.offerService.getPriceDifference(itemId);
+  }
+
   /**
    * Get price parts for SKAPA price component
    */
@@ -1,24 +1,61 @@
-import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, EventEmitter, Input, Output } from '@angular/core';
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, EventEmitter, Input, OnInit, Output, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import { BaseComponent } from '../../../../shared/base-classes/base.component';
 import { LocaleService } from '../../../../core/services/locale.service';
+import { QuotationService } from '../../../quotations/services/quotation.service';
+import { QuotationDocumentService } from '../../../quotations/services/quotation-document.service';
+import { QuotationDocumentComponent } from '../../../quotations/components/quotation-document/quotation-document.component';
+import { StoreService } from '../../services/store.service';
+import { CountdownComponent } from '../../../../shared/components/countdown/countdown.component';
+import { QrCodeComponent } from '../../../../shared/components/qr-code/qr-code.component';
+import { Routes as RouteConstants } from '../../../../shared/constants/routes.constants';
+import { Quotation } from '../../../../shared/interfaces/quotation.interface';
 
 @Component({
   selector: 'app-confirmation',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, RouterLink, CountdownComponent, QrCodeComponent, QuotationDocumentComponent],
   schemas: [CUSTOM_ELEMENTS_SCHEMA],
   templateUrl: './confirmation.html',
   styleUrl: './confirmation.scss'
 })
-export class ConfirmationComponent extends BaseComponent {
+export class ConfirmationComponent extends BaseComponent implements OnInit {
   @Input() confirmationNumber: string = '';
   @Output() estimateAnotherClick = new EventEmitter<void>();
 
   translations = computed(() => this.locale.translations());
+  myQuotationsLink = `/${RouteConstants.MY_QUOTATIONS}`;
+  expiresAt = signal<Date | null>(null);
+  quotation = signal<Quotation | null>(null);
+  hasPdfError = signal<boolean>(false);
+  // Scanned at the buy back desk: the issued check-in code, or just the
+  // confirmation number (which the desk can look up too) when there is none
+  checkInCode = computed(() => this.quotation()?.checkInCode ?? this.confirmationNumber);
 
-  constructor(private locale: LocaleService) {
+  // Printable quotation, only for the quotation submitted from this browser
+  quotationDocument = computed(() => {
+    const quotation = this.quotation();
+    return quotation ? this.quotationDocumentService.build(quotation) : null;
+  });
+
+  constructor(
+    private locale: LocaleService,
+    private quotationService: QuotationService,
+    private quotationDocumentService: QuotationDocumentService,
+    private storeService: StoreService
+  ) {
     super();
+    this.storeService.loadStores();
+  }
+
+  ngOnInit(): void {
+    // Validity deadline of the quotation just submitted
+    const quotation = this.quotationService.getLastQuotation();
+    if (quotation?.confirmationNumber === this.confirmationNumber) {
+      this.expiresAt.set(quotation.expiresAt);
+      this.quotation.set(quotation);
+    }
   }
 
   copyQuotationNumber(): void {
@@ -26,6 +63,23 @@ export class ConfirmationComponent extends BaseComponent {
     // TODO: Show toast notification
   }
 
+  /**
+   * Print the quotation document (see the print styles in styles.scss)
+   */
+  printQuotation(): void {
+    window.print();
+  }
+
+  /**
+   * Download the quotation document as a PDF
+   */
+  downloadQuotation(): void {
+    const quotationDocument = this.quotationDocument();
+    if (quotationDocument) {
+      this.hasPdfError.set(!this.quotationDocumentService.downloadPdf(quotationDocument));
+    }
+  }
+
   estimateAnother(): void {
     this.estimateAnotherClick.emit();
   }
@@ -1,25 +1,27 @@
 import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, EventEmitter, Output, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { BaseComponent } from '../../../../shared/base-classes/base.component';
-import { BuybackListService } from '../../services/buyback-list.service';
+import { BuybackConditionOption, BuybackListService } from '../../services/buyback-list.service';
 import { SubmissionService } from '../../services/submission.service';
+import { OfferService } from '../../services/offer.service';
+import { StoreService } from '../../services/store.service';
 import { LocaleService } from '../../../../core/services/locale.service';
+import { RemoteConfigService } from '../../../../core/services/remote-config.service';
 import { UtilityService } from '../../../../core/services/utility.service';
 import { ExternalUrls } from '../../../../shared/constants/routes.constants';
+import { ProductCondition, toasterCases } from '../../../../shared/constants/app.constants';
+import { ToasterService } from '../../../../shared/components/toaster/toaster.service';
+import { PhotoUploadComponent } from '../photo-upload/photo-upload.component';
+import { FamilyMembershipComponent } from '../family-membership/family-membership.component';
+import { FamilyMembershipService } from '../../services/family-membership.service';
+import { BuybackItem, BuybackPhoto } from '../../../../shared/interfaces/product.interface';
+import { Store } from '../../../../shared/interfaces/store.interface';
 import { takeUntil } from 'rxjs/operators';
 
-const STORES = [
-  { id: 'atlanta', name: 'Atlanta' },
-  { id: 'dallas', name: 'Dallas' },
-  { id: 'chicago', name: 'Chicago' },
-  { id: 'new-york', name: 'New York' },
-  { id: 'los-angeles', name: 'Los Angeles' }
-];
-
 @Component({
   selector: 'app-estimation',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, PhotoUploadComponent, FamilyMembershipComponent],
   schemas: [CUSTOM_ELEMENTS_SCHEMA],
   templateUrl: './estimation.component.html',
   styleUrl: './estimation.component.scss'
@@ -30,7 +32,6 @@ export class EstimationComponent extends BaseComponent {
 
   // State
   email = signal<string>('');
-  selectedStore = signal<string>('');
   privacyAccepted = signal<boolean>(false);
   submissionError = signal<string>('');
   showSuccessMessage = signal<boolean>(false);
@@ -38,8 +39,16 @@ export class EstimationComponent extends BaseComponent {
   // Computed
   translations = computed(() => this.locale.translations());
   items = computed(() => this.buybackService.items());
-  totalValue = computed(() => this.buybackService.totalValue());
+  totalValue = computed(() => this.offerService.appliedTotal());
+  isFamilyMember = computed(() => this.familyMembership.isFamilyMember());
+  hasPriceDifferences = computed(() => this.offerService.hasPriceDifferences());
   isSubmitting = computed(() => this.submissionService.isSubmitting());
+  stores = computed(() => this.storeService.stores());
+  selectedStore = computed(() => this.storeService.selectedStoreId() || '');
+  selectedStoreDetails = computed(() => this.storeService.selectedStore());
+  maxQuantityPerItem = computed(() => this.remoteConfig.maxQuantityPerItem());
+  canUndo = computed(() => this.buybackService.canUndo());
+  canRedo = computed(() => this.buybackService.canRedo());
 
   // Form validation
   isEmailValid = computed(() => {
@@ -56,43 +65,121 @@ export class EstimationComponent extends BaseComponent {
            this.items().length > 0;
   });
 
-  stores = STORES;
   privacyPolicyUrl = ExternalUrls.PRIVACY_POLICY;
 
   constructor(
     private buybackService: BuybackListService,
     private submissionService: SubmissionService,
+    private offerService: OfferService,
+    private storeService: StoreService,
+    private familyMembership: FamilyMembershipService,
     private locale: LocaleService,
-    private utility: UtilityService
+    private utility: UtilityService,
+    private remoteConfig: RemoteConfigService,
+    private toasterService: ToasterService
   ) {
     super();
+    this.storeService.loadStores();
   }
 
   onBack(): void {
     this.back.emit();
   }
 
+  /**
+   * A quantity below 1 removes the item, with the toaster's undo
+   */
   onQuantityChange(itemId: string, event: any): void {
-    const quantity = event.detail?.value || event.detail;
+    const quantity = Number(event.detail?.value ?? event.detail);
+    if (quantity < 1) {
+      this.removeItem(itemId);
+      return;
+    }
     this.buybackService.updateQuantity(itemId, quantity);
   }
 
+  /**
+   * Change an item's condition, re-pricing it
+   */
+  onConditionChange(itemId: string, event: Event): void {
+    const condition = (event.target as HTMLSelectElement).value as ProductCondition.Condition;
+    if (!this.buybackService.updateCondition(itemId, condition)) {
+      // Keep showing the current condition
+      const item = this.items().find(i => i.id === itemId);
+      (event.target as HTMLSelectElement).value = item?.condition ?? condition;
+    }
+  }
+
+  getConditionOptions(item: BuybackItem): BuybackConditionOption[] {
+    return this.buybackService.getConditionOptions(item);
+  }
+
+  undo(): void {
+    this.buybackService.undo();
+  }
+
+  redo(): void {
+    this.buybackService.redo();
+  }
+
+  /**
+   * Remove item, offering to undo it in the toaster
+   */
   removeItem(itemId: string): void {
-    this.buybackService.removeItem(itemId);
+    const change = this.buybackService.removeItem(itemId);
+    this.toasterService.openToaster({
+      ...toasterCases.ITEM_REMOVED,
+      viewLink: { ...toasterCases.ITEM_REMOVED.viewLink, action: () => this.buybackService.revert(change) }
+    });
+  }
+
+  onPhotosAdded(itemId: string, photos: BuybackPhoto[]): void {
+    this.buybackService.addPhotos(itemId, photos);
+  }
+
+  onPhotoRemoved(itemId: string, photoId: string): void {
+    this.buybackService.removePhoto(itemId, photoId);
   }
 
   onEmailInput(event: Event): void {
     this.email.set((event.target as HTMLInputElement).value);
   }
 
-  onStoreSelected(storeId: string | null): void {
-    this.selectedStore.set(storeId || '');
+  onStoreSelected(store: Store | null): void {
+    if (store && !store.hasBuybackDesk) {
+      return;
+    }
+    this.storeService.selectStore(store?.id || null);
+  }
+
+  getStoreName(store: Store): string {
+    return this.storeService.getStoreName(store);
+  }
+
+  getStoreAddress(store: Store): string {
+    return this.storeService.getStoreAddress(store);
+  }
+
+  getTodayOpeningHours(store: Store): string {
+    const hours = this.storeService.getTodayOpeningHours(store);
+    if (!hours || hours.isClosed) {
+      return this.translations().submission.closedToday;
+    }
+    return `${this.translations().submission.openToday} ${hours.opens} - ${hours.closes}`;
   }
 
   onPrivacyChange(event: Event): void {
     this.privacyAccepted.set((event.target as HTMLInputElement).checked);
   }
 
+  getLineTotal(item: BuybackItem): number {
+    return this.offerService.getLineTotal(item);
+  }
+
+  isPriceChanged(itemId: string): boolean {
+    return !!this.offerService.getPriceDifference(itemId);
+  }
+
   getPriceParts(price: number) {
     return this.utility.splitPriceForSkapa(price);
   }
@@ -117,12 +204,20 @@ export class EstimationComponent extends BaseComponent {
       return;
     }
 
+    // List rules may have changed since the items were added
+    if (!this.buybackService.validateList()) {
+      return;
+    }
+
     // Create submission request
+    // Lines carry the offered unit prices so they add up to the offered total
     const request = this.submissionService.createSubmissionRequest(
       this.email(),
       this.selectedStore(),
-      this.items(),
-      this.totalValue()
+      this.offerService.pricedItems(),
+      this.totalValue(),
+      this.familyMembership.userType(),
+      this.familyMembership.memberId()
     );
 
     // Submit
@@ -132,7 +227,9 @@ export class EstimationComponent extends BaseComponent {
         next: (response) => {
           console.log('Submission successful:', response);
           // Clear buyback list after successful submission
+          // A submitted list cannot be brought back
           this.buybackService.clearList();
+          this.buybackService.clearHistory();
           // Emit the confirmation number to parent component
           this.submitted.emit(response.confirmationNumber);
         },
@@ -147,7 +244,7 @@ export class EstimationComponent extends BaseComponent {
   private showErrorToast(): void {
     const toast = document.createElement('skapa-toast');
     toast.setAttribute('type', 'error');
-    toast.setAttribute('duration', '3000');
+    toast.setAttribute('duration', String(this.remoteConfig.toastDuration()));
     toast.textContent = this.submissionError();
     document.body.appendChild(toast);
   }
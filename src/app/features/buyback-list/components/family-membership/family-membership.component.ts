@@ -0,0 +1,72 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import { FamilyMembershipService } from '../../services/family-membership.service';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { ExternalUrls } from '../../../../shared/constants/routes.constants';
+
+/**
+ * Family Membership Component
+ * Membership step where customers verify their IKEA Family card or phone number
+ */
+@Component({
+  selector: 'app-family-membership',
+  standalone: true,
+  imports: [CommonModule],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './family-membership.component.html',
+  styleUrl: './family-membership.component.scss'
+})
+export class FamilyMembershipComponent extends BaseComponent {
+  // State
+  identifierType = signal<'CARD' | 'PHONE'>('CARD');
+  identifier = signal<string>('');
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+  isFamilyMember = computed(() => this.familyMembership.isFamilyMember());
+  isVerifying = computed(() => this.familyMembership.isVerifying());
+
+  errorMessage = computed(() => {
+    const t = this.translations().family;
+    switch (this.familyMembership.verificationError()) {
+      case 'INVALID_FORMAT':
+        return this.identifierType() === 'CARD' ? t.invalidCardNumber : t.invalidPhoneNumber;
+      case 'NOT_FOUND': return t.notFound;
+      case 'GENERAL': return this.translations().errors.general;
+      default: return '';
+    }
+  });
+
+  joinUrl = computed(() =>
+    this.locale.currentMarket() === 'bh' ? ExternalUrls.IKEA_FAMILY_BH : ExternalUrls.IKEA_FAMILY_SA
+  );
+
+  constructor(
+    private familyMembership: FamilyMembershipService,
+    private locale: LocaleService
+  ) {
+    super();
+  }
+
+  setIdentifierType(type: 'CARD' | 'PHONE'): void {
+    this.identifierType.set(type);
+    this.identifier.set('');
+  }
+
+  onIdentifierInput(event: Event): void {
+    this.identifier.set((event.target as HTMLInputElement).value);
+  }
+
+  verify(): void {
+    if (!this.identifier().trim() || this.isVerifying()) {
+      return;
+    }
+    this.familyMembership.verify(this.identifierType(), this.identifier());
+  }
+
+  removeMembership(): void {
+    this.identifier.set('');
+    this.familyMembership.clearMembership();
+  }
+}
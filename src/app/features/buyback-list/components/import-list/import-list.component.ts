@@ -0,0 +1,131 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import { ToasterService } from '../../../../shared/components/toaster/toaster.service';
+import { BuybackItem } from '../../../../shared/interfaces/product.interface';
+import { ListConflictResolution, ListImportMode, toasterCases } from '../../../../shared/constants/app.constants';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { BuybackListService } from '../../services/buyback-list.service';
+
+/**
+ * Import List Component
+ * Side sheet for a shared list opened from its link: adds it to an empty
+ * list, or merges it into / replaces the current list, with a choice per
+ * item that is in both lists
+ */
+@Component({
+  selector: 'app-import-list',
+  standalone: true,
+  imports: [CommonModule],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './import-list.component.html',
+  styleUrl: './import-list.component.scss'
+})
+export class ImportListComponent extends BaseComponent {
+  closed = output<void>();
+
+  // State
+  isOpen = signal<boolean>(false);
+  sharedItems = signal<BuybackItem[]>([]);
+  // Chosen resolution per local item id
+  resolutions = signal<Record<string, ListConflictResolution.Resolution>>({});
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+  isListEmpty = computed(() => this.buybackService.isEmpty());
+  conflicts = computed(() => this.buybackService.findConflicts(this.sharedItems()));
+
+  summary = computed(() => {
+    const t = this.translations();
+    return `${t.shareList.importSummary} ${this.sharedItems().length} ${t.buybackList.itemCount}`;
+  });
+
+  resolutionOptions = computed(() => {
+    const t = this.translations().shareList;
+    return [
+      { value: ListConflictResolution.KEEP_MINE, label: t.keepMine },
+      { value: ListConflictResolution.USE_SHARED, label: t.useShared },
+      { value: ListConflictResolution.COMBINE, label: t.combine }
+    ];
+  });
+
+  constructor(
+    private locale: LocaleService,
+    private buybackService: BuybackListService,
+    private toasterService: ToasterService
+  ) {
+    super();
+  }
+
+  /**
+   * Open sheet with the items of a shared list
+   */
+  open(items: BuybackItem[]): void {
+    this.sharedItems.set(items);
+    this.resolutions.set({});
+    this.isOpen.set(true);
+  }
+
+  /**
+   * Close sheet without importing
+   */
+  close(): void {
+    if (!this.isOpen()) {
+      return;
+    }
+    this.isOpen.set(false);
+    this.sharedItems.set([]);
+    this.closed.emit();
+  }
+
+  getResolution(localItemId: string): ListConflictResolution.Resolution {
+    return this.resolutions()[localItemId] ?? ListConflictResolution.KEEP_MINE;
+  }
+
+  onResolutionChange(localItemId: string, event: Event): void {
+    const value = (event.target as HTMLSelectElement).value as ListConflictResolution.Resolution;
+    this.resolutions.update(resolutions => ({ ...resolutions, [localItemId]: value }));
+  }
+
+  merge(): void {
+    this.importList(ListImportMode.MERGE);
+  }
+
+  replace(): void {
+    this.importList(ListImportMode.REPLACE);
+  }
+
+  /**
+   * Get condition label
+   */
+  getConditionLabel(condition: string): string {
+    const translations = this.translations();
+    switch (condition) {
+      case 'LIKE_NEW':
+        return translations.conditionAssessment.likeNew;
+      case 'VERY_GOOD':
+        return translations.conditionAssessment.veryGood;
+      case 'WELL_USED':
+        return translations.conditionAssessment.wellUsed;
+      default:
+        return condition;
+    }
+  }
+
+  /**
+   * Add the shared list, offering to undo it in the toaster
+   * The sheet stays open when the result breaks a list rule
+   */
+  private importList(mode: ListImportMode.Mode): void {
+    const change = this.buybackService.importItems(this.sharedItems(), mode, this.resolutions());
+    if (!change) {
+      return;
+    }
+
+    this.toasterService.openToaster({
+      ...toasterCases.LIST_IMPORTED,
+      viewLink: { ...toasterCases.LIST_IMPORTED.viewLink, action: () => this.buybackService.revert(change) }
+    });
+    this.close();
+  }
+}
@@ -0,0 +1,112 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, EventEmitter, Input, Output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { forkJoin } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { PhotoService, PhotoValidationError } from '../../services/photo.service';
+import { BuybackPhoto } from '../../../../shared/interfaces/product.interface';
+import { Files } from '../../../../shared/constants/app.constants';
+
+/**
+ * Photo Upload Component
+ * Lets customers attach condition photos to a buyback item
+ */
+@Component({
+  selector: 'app-photo-upload',
+  standalone: true,
+  imports: [CommonModule],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './photo-upload.component.html',
+  styleUrl: './photo-upload.component.scss'
+})
+export class PhotoUploadComponent extends BaseComponent {
+  @Input() set photos(value: BuybackPhoto[] | undefined) {
+    this._photos.set(value || []);
+  }
+  @Output() photosAdded = new EventEmitter<BuybackPhoto[]>();
+  @Output() photoRemoved = new EventEmitter<string>();
+
+  private _photos = signal<BuybackPhoto[]>([]);
+
+  // State
+  isProcessing = signal<boolean>(false);
+  error = signal<PhotoValidationError | 'LIMIT_REACHED' | 'PROCESSING_FAILED' | null>(null);
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+  currentPhotos = this._photos.asReadonly();
+  canAddMore = computed(() => this._photos().length < Files.MAX_PHOTOS_PER_ITEM);
+
+  errorMessage = computed(() => {
+    const t = this.translations().photos;
+    switch (this.error()) {
+      case 'UNSUPPORTED_TYPE': return t.unsupportedType;
+      case 'TOO_LARGE': return `${t.tooLarge} ${Files.MAX_FILE_SIZE / (1024 * 1024)} MB`;
+      case 'LIMIT_REACHED': return t.limitReached;
+      case 'PROCESSING_FAILED': return t.processingFailed;
+      default: return '';
+    }
+  });
+
+  maxPhotos = Files.MAX_PHOTOS_PER_ITEM;
+  acceptedTypes = Files.ALLOWED_IMAGE_TYPES.join(',');
+
+  constructor(
+    private locale: LocaleService,
+    private photoService: PhotoService
+  ) {
+    super();
+  }
+
+  /**
+   * Validate, compress and emit the selected files
+   */
+  onFilesSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const files = Array.from(input.files || []);
+    input.value = '';
+    this.error.set(null);
+
+    if (files.length === 0) {
+      return;
+    }
+
+    const freeSlots = Files.MAX_PHOTOS_PER_ITEM - this._photos().length;
+    if (files.length > freeSlots) {
+      this.error.set('LIMIT_REACHED');
+    }
+
+    const accepted = files.slice(0, Math.max(0, freeSlots)).filter(file => {
+      const validationError = this.photoService.validate(file);
+      if (validationError) {
+        this.error.set(validationError);
+      }
+      return !validationError;
+    });
+
+    if (accepted.length === 0) {
+      return;
+    }
+
+    this.isProcessing.set(true);
+    forkJoin(accepted.map(file => this.photoService.compress(file)))
+      .pipe(takeUntil(this.ngUnSubscribe))
+      .subscribe({
+        next: photos => {
+          this.isProcessing.set(false);
+          this.photosAdded.emit(photos);
+        },
+        error: error => {
+          console.error('Photo processing error:', error);
+          this.isProcessing.set(false);
+          this.error.set('PROCESSING_FAILED');
+        }
+      });
+  }
+
+  removePhoto(photoId: string): void {
+    this.error.set(null);
+    this.photoRemoved.emit(photoId);
+  }
+}
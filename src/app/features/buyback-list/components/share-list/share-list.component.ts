@@ -0,0 +1,73 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import { QrCodeComponent } from '../../../../shared/components/qr-code/qr-code.component';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { UtilityService } from '../../../../core/services/utility.service';
+import { SharedListService } from '../../services/shared-list.service';
+
+/**
+ * Share List Component
+ * Side sheet that saves the buyback list and shows its link and QR code,
+ * so the customer can continue on another device
+ */
+@Component({
+  selector: 'app-share-list',
+  standalone: true,
+  imports: [CommonModule, QrCodeComponent],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './share-list.component.html',
+  styleUrl: './share-list.component.scss'
+})
+export class ShareListComponent extends BaseComponent {
+  // State
+  isOpen = signal<boolean>(false);
+  isLinkCopied = signal<boolean>(false);
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+  sharedList = computed(() => this.sharedListService.sharedList());
+  isSharing = computed(() => this.sharedListService.isSharing());
+  hasShareError = computed(() => this.sharedListService.hasShareError());
+
+  validUntil = computed(() => {
+    const sharedList = this.sharedList();
+    return sharedList ? this.utility.formatDate(sharedList.expiresAt, 'long') : '';
+  });
+
+  constructor(
+    private locale: LocaleService,
+    private utility: UtilityService,
+    private sharedListService: SharedListService
+  ) {
+    super();
+  }
+
+  /**
+   * Open sheet and save the current list
+   */
+  open(): void {
+    this.isOpen.set(true);
+    this.share();
+  }
+
+  close(): void {
+    this.isOpen.set(false);
+  }
+
+  share(): void {
+    this.isLinkCopied.set(false);
+    this.sharedListService.share();
+  }
+
+  copyLink(): void {
+    const sharedList = this.sharedList();
+    if (!sharedList) {
+      return;
+    }
+
+    navigator.clipboard.writeText(sharedList.url)
+      .then(() => this.isLinkCopied.set(true))
+      .catch(error => console.error('Copying the list link failed:', error));
+  }
+}
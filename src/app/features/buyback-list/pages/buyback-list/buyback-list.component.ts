@@ -1,16 +1,39 @@
-import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, signal, ViewChild } from '@angular/core';
-import { CommonModule } from '@angular/common';
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, OnInit, signal, ViewChild } from '@angular/core';
+import { CommonModule, Location } from '@angular/common';
+import { ActivatedRoute, NavigationEnd, Params, Router } from '@angular/router';
+import { of, Subject, timer } from 'rxjs';
+import { catchError, debounce, filter, startWith, switchMap, takeUntil } from 'rxjs/operators';
 import { BaseComponent } from '../../../../shared/base-classes/base.component';
 import { CategoryTreeComponent } from '../../../product-discovery/components/category-tree/category-tree.component';
 import { ProductGridComponent } from '../../../product-discovery/components/product-grid/product-grid.component';
 import { BuybackSidebarComponent } from '../../components/buyback-sidebar/buyback-sidebar.component';
 import { EstimationComponent } from '../../components/estimation/estimation.component';
 import { ConfirmationComponent } from '../../components/confirmation/confirmation';
+import { ImportListComponent } from '../../components/import-list/import-list.component';
 import { ConditionSelectorComponent } from '../../../product-discovery/components/condition-selector/condition-selector.component';
+import { ArticleScannerComponent } from '../../../product-discovery/components/article-scanner/article-scanner.component';
+import { SearchSuggestionsComponent } from '../../../product-discovery/components/search-suggestions/search-suggestions.component';
+import { ProductFacetsComponent } from '../../../product-discovery/components/product-facets/product-facets.component';
 import { CategoryService } from '../../../product-discovery/services/category.service';
 import { ProductService } from '../../../product-discovery/services/product.service';
+import { SearchHistoryService } from '../../../product-discovery/services/search-history.service';
+import { BuybackListService } from '../../services/buyback-list.service';
+import { SharedListService } from '../../services/shared-list.service';
 import { LocaleService } from '../../../../core/services/locale.service';
-import { Category, Product } from '../../../../shared/interfaces/product.interface';
+import { RemoteConfigService } from '../../../../core/services/remote-config.service';
+import { CommonErrorModalService } from '../../../../shared/components/common-error-modal/common-error-modal.service';
+import { Category, Product, ProductFacetSelection } from '../../../../shared/interfaces/product.interface';
+import { BuybackStep, errorCase } from '../../../../shared/constants/app.constants';
+import { QueryParams, RouteParams, Routes as RouteConstants } from '../../../../shared/constants/routes.constants';
+
+/**
+ * Buyback List Page
+ * Browse, estimation and confirmation views of the buyback flow
+ *
+ * The current step comes from the child route (see app.routes.ts) and the
+ * search and facets from the query string, so the back button moves between
+ * steps and a refresh or shared link restores the same view.
+ */
 
 @Component({
   selector: 'app-buyback-list',
@@ -19,60 +42,209 @@ import { Category, Product } from '../../../../shared/interfaces/product.interfa
     CommonModule,
     CategoryTreeComponent,
     ProductGridComponent,
+    ProductFacetsComponent,
     BuybackSidebarComponent,
     EstimationComponent,
     ConditionSelectorComponent,
-    ConfirmationComponent
+    ArticleScannerComponent,
+    SearchSuggestionsComponent,
+    ConfirmationComponent,
+    ImportListComponent
   ],
   schemas: [CUSTOM_ELEMENTS_SCHEMA],
   templateUrl: './buyback-list.component.html',
   styleUrl: './buyback-list.component.scss'
 })
-export class BuybackListComponent extends BaseComponent {
+export class BuybackListComponent extends BaseComponent implements OnInit {
   @ViewChild(ConditionSelectorComponent) conditionSelector!: ConditionSelectorComponent;
+  @ViewChild(ArticleScannerComponent) articleScanner!: ArticleScannerComponent;
+  @ViewChild(ImportListComponent) importList!: ImportListComponent;
 
   // State
-  showEstimation = signal<boolean>(false);
-  showConfirmation = signal<boolean>(false);
+  currentStep = signal<BuybackStep.Step>(BuybackStep.DISCOVER);
   confirmationNumber = signal<string>('');
   searchQuery = signal<string>('');
+  showSuggestions = signal<boolean>(false);
 
   // Computed
   translations = computed(() => this.locale.translations());
+  showEstimation = computed(() => this.currentStep() === BuybackStep.ESTIMATION);
+  showConfirmation = computed(() => this.currentStep() === BuybackStep.CONFIRMATION);
   selectedCategory = computed(() => this.categoryService.selectedCategory());
   filteredProducts = computed(() => this.productService.filteredProducts());
   isLoading = computed(() => this.productService.isLoading());
+  hasMoreProducts = computed(() => this.productService.hasMoreProducts());
+  hasNextPageError = computed(() => this.productService.hasNextPageError());
+  facets = computed(() => this.productService.facets());
+  facetSelection = computed(() => this.productService.facetSelection());
+  buybackEnabled = computed(() => this.remoteConfig.buybackEnabled());
+  // Query the results are filtered by (debounced, empty below the minimum length)
+  activeSearchQuery = computed(() => this.productService.searchQuery());
+  showProducts = computed(() => !!this.selectedCategory() || !!this.activeSearchQuery());
+
+  private searchInput$ = new Subject<void>();
 
   constructor(
     private categoryService: CategoryService,
     private productService: ProductService,
-    private locale: LocaleService
+    private searchHistory: SearchHistoryService,
+    private buybackService: BuybackListService,
+    private sharedListService: SharedListService,
+    private modalService: CommonErrorModalService,
+    private locale: LocaleService,
+    private remoteConfig: RemoteConfigService,
+    private route: ActivatedRoute,
+    private router: Router,
+    private location: Location
   ) {
     super();
+
+    this.searchInput$
+      .pipe(
+        debounce(() => timer(this.remoteConfig.searchDebounce())),
+        takeUntil(this.ngUnSubscribe)
+      )
+      // Latest field value, so a cleared search is not overwritten by a pending keystroke
+      .subscribe(() => this.applySearch(this.searchQuery()));
+  }
+
+  /**
+   * Restore search, facets and sort order from a bookmarked or shared URL,
+   * then follow the step in the URL on every navigation
+   */
+  ngOnInit(): void {
+    const queryParams = this.route.snapshot.queryParamMap;
+    const selection = this.productService.parseFacetQueryParams(queryParams);
+    if (Object.values(selection).some(value => value !== undefined)) {
+      this.productService.setFacetSelection(selection);
+    }
+
+    const query = queryParams.get(QueryParams.SEARCH);
+    if (query) {
+      this.searchQuery.set(query);
+      this.applySearch(query);
+    }
+
+    this.router.events
+      .pipe(
+        filter(event => event instanceof NavigationEnd),
+        startWith(null),
+        takeUntil(this.ngUnSubscribe)
+      )
+      .subscribe(() => this.applyRouteStep());
   }
 
   /**
    * Handle category selection
    */
   onCategorySelected(category: Category): void {
-    this.productService.setCategoryFilter(category.id);
+    this.goToStep([RouteConstants.CATEGORY, category.id]);
   }
 
   /**
    * Handle product selection
    */
   onProductSelected(product: Product): void {
-    this.conditionSelector.open(product);
+    this.goToStep([RouteConstants.PRODUCT, product.id]);
+  }
+
+  /**
+   * Leave the product step once the condition selector is closed
+   * Goes back in history when the product was opened in the app, otherwise
+   * (product link opened directly) up to its category or the start
+   */
+  onConditionSelectorClosed(): void {
+    if (this.currentStep() !== BuybackStep.PRODUCT) {
+      return;
+    }
+
+    if (this.router.lastSuccessfulNavigation()?.previousNavigation) {
+      this.location.back();
+    } else {
+      const category = this.selectedCategory();
+      this.goToStep(category ? [RouteConstants.CATEGORY, category.id] : [], true);
+    }
+  }
+
+  /**
+   * Leave the shared list link once the import sheet is closed
+   */
+  onImportListClosed(): void {
+    if (this.currentStep() === BuybackStep.SHARED_LIST) {
+      this.goToStep([], true);
+    }
+  }
+
+  /**
+   * Open the scanner to find a product by its label or article number
+   */
+  openArticleScanner(): void {
+    this.articleScanner.open();
+  }
+
+  /**
+   * Apply facets and sort order and reflect them in the URL
+   */
+  onFacetSelectionChange(selection: ProductFacetSelection): void {
+    this.productService.setFacetSelection(selection);
+    this.updateQueryParams();
+  }
+
+  /**
+   * Load the next page of products
+   */
+  onLoadMore(): void {
+    this.productService.loadNextPage();
   }
 
   /**
    * Handle search input
+   * Results follow after the debounce delay, once the query is long enough
    */
   onSearchInput(event: Event): void {
     const input = event.target as HTMLInputElement;
     const query = input.value;
     this.searchQuery.set(query);
-    this.productService.setSearchQuery(query);
+    this.showSuggestions.set(true);
+    this.searchInput$.next();
+  }
+
+  /**
+   * Search straight away (Enter key) and remember the query
+   */
+  onSearchSubmit(): void {
+    this.applySearch(this.searchQuery());
+    if (this.activeSearchQuery()) {
+      this.searchHistory.addSearch(this.activeSearchQuery());
+    }
+    this.showSuggestions.set(false);
+  }
+
+  /**
+   * Handle a product picked from the suggestions
+   */
+  onSuggestedProductSelected(product: Product): void {
+    this.searchHistory.addSearch(this.activeSearchQuery());
+    this.showSuggestions.set(false);
+    this.onProductSelected(product);
+  }
+
+  /**
+   * Handle a category picked from the suggestions
+   */
+  onSuggestedCategorySelected(category: Category): void {
+    this.showSuggestions.set(false);
+    this.searchQuery.set('');
+    this.productService.setSearchQuery('');
+    this.onCategorySelected(category);
+  }
+
+  /**
+   * Handle a recent search picked from the suggestions
+   */
+  onRecentSearchSelected(query: string): void {
+    this.searchQuery.set(query);
+    this.onSearchSubmit();
   }
 
   /**
@@ -81,41 +253,205 @@ export class BuybackListComponent extends BaseComponent {
   clearSearch(): void {
     this.searchQuery.set('');
     this.productService.setSearchQuery('');
+    this.updateQueryParams();
   }
 
   /**
    * Clear category selection and go back to categories
    */
   clearCategorySelection(): void {
-    this.categoryService.selectCategory(null);
-    this.productService.setCategoryFilter(undefined);
+    this.goToStep([]);
   }
 
   /**
    * Show estimation view
    */
   onContinueToOffer(): void {
-    this.showEstimation.set(true);
+    this.goToStep([RouteConstants.ESTIMATION]);
+  }
+
+  /**
+   * Go back from the estimation to browsing
+   */
+  onBackFromEstimation(): void {
+    this.goToStep([]);
   }
 
   /**
    * Handle submission success
+   * Replaces the estimation in history, as the list has been submitted
    */
   onSubmissionSuccess(confirmationNum: string): void {
-    this.confirmationNumber.set(confirmationNum);
-    this.showEstimation.set(false);
-    this.showConfirmation.set(true);
+    this.goToStep([RouteConstants.CONFIRMATION, confirmationNum], true);
   }
 
   /**
    * Reset to initial view (called from confirmation page)
    */
   onEstimateAnother(): void {
-    this.showConfirmation.set(false);
-    this.showEstimation.set(false);
-    this.confirmationNumber.set('');
-    // Optionally reset other state
-    this.clearCategorySelection();
-    this.clearSearch();
+    this.searchQuery.set('');
+    this.productService.setSearchQuery('');
+    this.goToStep([]);
+  }
+
+  /**
+   * Apply a query to the results unless it is shorter than the minimum length
+   */
+  private applySearch(query: string): void {
+    const trimmed = query.trim();
+    const searchQuery = trimmed.length >= this.remoteConfig.minSearchLength() ? trimmed : '';
+    if (searchQuery !== this.productService.searchQuery()) {
+      this.productService.setSearchQuery(searchQuery);
+      this.updateQueryParams();
+    }
+  }
+
+  /**
+   * Sync the view with the step and parameters of the current child route
+   */
+  private applyRouteStep(): void {
+    const snapshot = this.route.firstChild?.snapshot;
+    if (!snapshot) {
+      return;
+    }
+
+    const step = snapshot.data['step'] as BuybackStep.Step;
+    this.currentStep.set(step);
+
+    if (step !== BuybackStep.PRODUCT && this.conditionSelector?.isOpen()) {
+      this.conditionSelector.close();
+    }
+
+    if (step !== BuybackStep.SHARED_LIST && this.importList?.isOpen()) {
+      this.importList.close();
+    }
+
+    switch (step) {
+      case BuybackStep.DISCOVER:
+        if (this.selectedCategory()) {
+          this.categoryService.selectCategory(null);
+          this.productService.setCategoryFilter(undefined);
+        }
+        break;
+      case BuybackStep.CATEGORY:
+        this.showCategory(snapshot.paramMap.get(RouteParams.CATEGORY_ID) ?? '');
+        break;
+      case BuybackStep.PRODUCT:
+        this.showProduct(snapshot.paramMap.get(RouteParams.PRODUCT_ID) ?? '');
+        break;
+      case BuybackStep.ESTIMATION:
+        // Nothing to estimate, e.g. an estimation link opened on another device
+        this.buybackService.restored$
+          .pipe(takeUntil(this.ngUnSubscribe))
+          .subscribe(() => {
+            if (this.currentStep() === BuybackStep.ESTIMATION && this.buybackService.items().length === 0) {
+              this.goToStep([], true);
+            }
+          });
+        break;
+      case BuybackStep.SHARED_LIST:
+        this.showSharedList(snapshot.paramMap.get(RouteParams.SHARE_TOKEN) ?? '');
+        break;
+      case BuybackStep.CONFIRMATION:
+        this.confirmationNumber.set(snapshot.paramMap.get(RouteParams.CONFIRMATION_NUMBER) ?? '');
+        break;
+    }
+  }
+
+  /**
+   * Select a category by id, loading it when opened from a link
+   * Unknown categories lead back to the start
+   */
+  private showCategory(categoryId: string): void {
+    if (this.selectedCategory()?.id === categoryId && this.productService.currentFilter().categoryId === categoryId) {
+      return;
+    }
+
+    this.categoryService.findCategory(categoryId)
+      .pipe(takeUntil(this.ngUnSubscribe))
+      .subscribe(category => {
+        if (!category) {
+          this.goToStep([], true);
+          return;
+        }
+        this.categoryService.selectCategory(category);
+        this.productService.setCategoryFilter(category.id);
+      });
+  }
+
+  /**
+   * Open the condition selector for a product by id, loading it when opened
+   * from a link. Unknown products, or ones that cannot be loaded, lead back
+   * to the start
+   */
+  private showProduct(productId: string): void {
+    if (this.conditionSelector?.selectedProduct()?.id === productId) {
+      return;
+    }
+
+    this.productService.getProduct(productId)
+      .pipe(
+        catchError(() => of(null)),
+        takeUntil(this.ngUnSubscribe)
+      )
+      .subscribe(product => {
+        if (!product) {
+          this.goToStep([], true);
+        } else if (this.currentStep() === BuybackStep.PRODUCT) {
+          this.conditionSelector?.open(product);
+        }
+      });
+  }
+
+  /**
+   * Load a shared list from its link and offer to import it, once the saved
+   * list is restored so conflicts are found. Unknown or expired links lead
+   * back to the start
+   */
+  private showSharedList(token: string): void {
+    if (this.importList?.isOpen()) {
+      return;
+    }
+
+    this.buybackService.restored$
+      .pipe(
+        switchMap(() => this.sharedListService.load(token)),
+        takeUntil(this.ngUnSubscribe)
+      )
+      .subscribe(items => {
+        if (this.currentStep() !== BuybackStep.SHARED_LIST) {
+          return;
+        }
+        if (!items?.length) {
+          this.modalService.openErrorDialog(errorCase.SHARED_LIST_NOT_FOUND);
+          this.goToStep([], true);
+          return;
+        }
+        this.importList?.open(items);
+      });
+  }
+
+  /**
+   * Navigate to a step of the buyback flow, keeping search and facets
+   */
+  private goToStep(segments: string[], replaceUrl = false): void {
+    this.router.navigate(['/', RouteConstants.BUYBACK_QUOTE, ...segments], {
+      queryParams: this.getQueryParams(),
+      replaceUrl
+    });
+  }
+
+  /**
+   * Reflect the current search and facets in the URL without a history entry
+   */
+  private updateQueryParams(): void {
+    this.router.navigate([], { queryParams: this.getQueryParams(), replaceUrl: true });
+  }
+
+  private getQueryParams(): Params {
+    return {
+      [QueryParams.SEARCH]: this.productService.searchQuery() || null,
+      ...this.productService.getFacetQueryParams()
+    };
   }
 }
@@ -0,0 +1,116 @@
+import { TestBed } from '@angular/core/testing';
+import { BuybackListMergeService } from './buyback-list-merge.service';
+import { StoredBuybackItem } from './buyback-list.service';
+
+function line(id: string, changes: Partial<StoredBuybackItem> = {}): StoredBuybackItem {
+  return {
+    id,
+    productId: `product-${id}`,
+    condition: 'VERY_GOOD',
+    price: 20,
+    familyMemberPrice: 25,
+    quantity: 1,
+    addedAt: `2026-01-01T00:00:0${id}.000Z`,
+    priceValidUntil: '2026-01-15T00:00:00.000Z',
+    ...changes
+  };
+}
+
+const photo = (id: string) => ({ id, fileName: `${id}.jpg`, size: 1000 });
+
+describe('BuybackListMergeService', () => {
+  let service: BuybackListMergeService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(BuybackListMergeService);
+  });
+
+  /**
+   * Merge both ways round, checking the result does not depend on the side
+   */
+  function merge(base: StoredBuybackItem[], local: StoredBuybackItem[], remote: StoredBuybackItem[]) {
+    const merged = service.merge(base, local, remote);
+    expect(service.isSame(service.merge(base, remote, local), merged)).toBe(true);
+    return merged;
+  }
+
+  it('should keep a change made on one side only', () => {
+    const base = [line('1'), line('2')];
+    const merged = merge(base, [line('1', { quantity: 3 }), line('2')], base);
+
+    expect(merged.map(item => item.quantity)).toEqual([3, 1]);
+  });
+
+  it('should keep lines added on either side, oldest first', () => {
+    const base = [line('1')];
+    const merged = merge(base, [line('1'), line('3')], [line('1'), line('2')]);
+
+    expect(merged.map(item => item.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('should drop a line removed on one side and unchanged on the other', () => {
+    const base = [line('1'), line('2')];
+
+    expect(merge(base, [line('1')], base).map(item => item.id)).toEqual(['1']);
+  });
+
+  it('should keep a line removed on one side and edited on the other, with the edit', () => {
+    const base = [line('1'), line('2')];
+    const merged = merge(base, [line('1')], [line('1'), line('2', { quantity: 4 })]);
+
+    expect(merged.map(item => [item.id, item.quantity])).toEqual([['1', 1], ['2', 4]]);
+  });
+
+  it('should merge edits to different field groups of a line', () => {
+    const base = [line('1')];
+    const merged = merge(
+      base,
+      [line('1', { quantity: 2 })],
+      [line('1', { condition: 'WELL_USED', price: 10, familyMemberPrice: 12 })]
+    );
+
+    expect(merged[0]).toEqual(line('1', { quantity: 2, condition: 'WELL_USED', price: 10, familyMemberPrice: 12 }));
+  });
+
+  it('should resolve conflicting edits to the higher quantity and the lower priced grading', () => {
+    const base = [line('1')];
+    const merged = merge(
+      base,
+      [line('1', { quantity: 2, condition: 'LIKE_NEW', price: 30, familyMemberPrice: 35 })],
+      [line('1', { quantity: 5, condition: 'WELL_USED', price: 10, familyMemberPrice: 12 })]
+    );
+
+    expect(merged[0]).toEqual(line('1', { quantity: 5, condition: 'WELL_USED', price: 10, familyMemberPrice: 12 }));
+  });
+
+  it('should keep the photos of both sides, up to the photo limit', () => {
+    const base = [line('1', { photos: [photo('a')] })];
+    const merged = merge(
+      base,
+      [line('1', { photos: [photo('a'), photo('c'), photo('d')] })],
+      [line('1', { photos: [photo('b')] })]
+    );
+
+    expect(merged[0].photos!.map(p => p.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should combine lines added on both sides for the same product and condition', () => {
+    const merged = merge(
+      [],
+      [line('1', { productId: 'shelf', photos: [photo('a')] })],
+      [line('2', { productId: 'shelf', quantity: 2, photos: [photo('b')] })]
+    );
+
+    expect(merged.length).toBe(1);
+    expect(merged[0]).toEqual(line('1', { productId: 'shelf', quantity: 3, photos: [photo('a'), photo('b')] }));
+  });
+
+  it('should tell lists apart by content, whatever the key order', () => {
+    const item = line('1');
+    const reordered = Object.fromEntries(Object.entries(item).reverse()) as unknown as StoredBuybackItem;
+
+    expect(service.isSame([item], [reordered])).toBe(true);
+    expect(service.isSame([item], [line('1', { quantity: 2 })])).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+import { Injectable } from '@angular/core';
+import { Files } from '../../../shared/constants/app.constants';
+import { StoredBuybackItem } from './buyback-list.service';
+
+// Fields of a line that change together, merged as a unit
+type LineGroup = (keyof StoredBuybackItem)[];
+
+/**
+ * Buyback List Merge Service
+ * Three-way merge of two versions of the saved list (e.g. this tab's and
+ * another tab's) against the version both started from.
+ *
+ * The result does not depend on which version is "local", so tabs that
+ * merge the same changes end up with the same list:
+ * - A change made on one side only is kept.
+ * - A line removed on one side and edited on the other is kept, with the edit.
+ * - A line edited on both sides is merged per field group (grading,
+ *   quantity, photos). When both sides changed the same group, the higher
+ *   quantity, all photos and the grading with the lower price win.
+ * - Lines added on both sides for the same product and condition are
+ *   combined into the oldest one.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BuybackListMergeService {
+  // Condition and the prices that depend on it
+  private readonly gradingFields: LineGroup = [
+    'condition',
+    'price',
+    'familyMemberPrice',
+    'priceValidUntil',
+    'conditionAssessment'
+  ];
+
+  /**
+   * Merge two versions of the list against the version they started from
+   */
+  merge(base: StoredBuybackItem[], local: StoredBuybackItem[], remote: StoredBuybackItem[]): StoredBuybackItem[] {
+    const find = (items: StoredBuybackItem[], id: string) => items.find(item => item.id === id);
+
+    // Lines known before the changes keep their order
+    const merged = base.flatMap(baseItem => {
+      const line = this.mergeLine(baseItem, find(local, baseItem.id), find(remote, baseItem.id));
+      return line ? [line] : [];
+    });
+
+    // Lines added on either side follow, oldest first
+    const addedIds = [...new Set([...local, ...remote].map(item => item.id))]
+      .filter(id => !find(base, id));
+    const added = addedIds
+      .map(id => this.mergeLine(undefined, find(local, id), find(remote, id))!)
+      .sort((a, b) => this.compare(a.addedAt, b.addedAt) || this.compare(a.id, b.id));
+
+    added.forEach(line => {
+      const index = merged.findIndex(item => item.productId === line.productId && item.condition === line.condition);
+      if (index === -1) {
+        merged.push(line);
+      } else {
+        merged[index] = {
+          ...merged[index],
+          quantity: merged[index].quantity + line.quantity,
+          photos: this.mergePhotos(merged[index], line)
+        };
+      }
+    });
+
+    return merged;
+  }
+
+  /**
+   * Check if two versions of the list hold the same lines
+   */
+  isSame(a: StoredBuybackItem[], b: StoredBuybackItem[]): boolean {
+    return this.serialize(a) === this.serialize(b);
+  }
+
+  /**
+   * Merge one line; null when it is removed
+   */
+  private mergeLine(
+    base: StoredBuybackItem | undefined,
+    local: StoredBuybackItem | undefined,
+    remote: StoredBuybackItem | undefined
+  ): StoredBuybackItem | null {
+    if (!local || !remote) {
+      const kept = local ?? remote;
+      // Removed on one side: gone, unless the other side edited it
+      return kept && (!base || !this.isSame([base], [kept])) ? kept : null;
+    }
+
+    const grading = this.mergeGroup(this.gradingFields, base, local, remote, () =>
+      this.compareGrading(local, remote) <= 0 ? local : remote
+    );
+    const quantity = this.mergeGroup(['quantity'], base, local, remote, () =>
+      local.quantity >= remote.quantity ? local : remote
+    );
+    const photos = this.mergeGroup(['photos'], base, local, remote, () =>
+      ({ ...local, photos: this.mergePhotos(local, remote) })
+    );
+
+    return {
+      ...local,
+      ...this.pick(grading, this.gradingFields),
+      quantity: quantity.quantity,
+      photos: photos.photos
+    };
+  }
+
+  /**
+   * Side whose fields of a group win: the changed side, or the conflict
+   * winner when both sides changed them differently
+   */
+  private mergeGroup(
+    fields: LineGroup,
+    base: StoredBuybackItem | undefined,
+    local: StoredBuybackItem,
+    remote: StoredBuybackItem,
+    resolve: () => StoredBuybackItem
+  ): StoredBuybackItem {
+    const [baseFields, localFields, remoteFields] = [base, local, remote]
+      .map(item => (item ? this.serialize(this.pick(item, fields)) : null));
+
+    if (localFields === remoteFields || baseFields === remoteFields) {
+      return local;
+    }
+    if (baseFields === localFields) {
+      return remote;
+    }
+    return resolve();
+  }
+
+  /**
+   * Order gradings so the lower price comes first
+   */
+  private compareGrading(a: StoredBuybackItem, b: StoredBuybackItem): number {
+    return a.price - b.price ||
+      a.familyMemberPrice - b.familyMemberPrice ||
+      this.compare(this.serialize(this.pick(a, this.gradingFields)), this.serialize(this.pick(b, this.gradingFields)));
+  }
+
+  /**
+   * Photos of both lines, oldest first, up to Files.MAX_PHOTOS_PER_ITEM
+   */
+  private mergePhotos(a: StoredBuybackItem, b: StoredBuybackItem): StoredBuybackItem['photos'] {
+    return [...(a.photos || []), ...(b.photos || [])]
+      .filter((photo, index, all) => all.findIndex(p => p.id === photo.id) === index)
+      .sort((x, y) => this.compare(x.id, y.id))
+      .slice(0, Files.MAX_PHOTOS_PER_ITEM);
+  }
+
+  private pick(item: StoredBuybackItem, fields: LineGroup): Partial<StoredBuybackItem> {
+    return Object.fromEntries(fields.map(field => [field, item[field]]));
+  }
+
+  private compare(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  /**
+   * JSON with sorted object keys, so equal values serialize equally
+   */
+  private serialize(value: unknown): string {
+    return JSON.stringify(value, (_, nested) =>
+      nested && typeof nested === 'object' && !Array.isArray(nested)
+        ? Object.fromEntries(Object.keys(nested).sort().map(key => [key, nested[key]]))
+        : nested
+    );
+  }
+}
@@ -0,0 +1,346 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { signal } from '@angular/core';
+import { of, throwError } from 'rxjs';
+import { BuybackListService } from './buyback-list.service';
+import { ProductService } from '../../product-discovery/services/product.service';
+import { PhotoStoreService } from './photo-store.service';
+import { RemoteConfigService } from '../../../core/services/remote-config.service';
+import { CommonErrorModalService } from '../../../shared/components/common-error-modal/common-error-modal.service';
+import { Product } from '../../../shared/interfaces/product.interface';
+import { errorCase, StorageKeys, StorageVersions, Timings } from '../../../shared/constants/app.constants';
+
+function createProduct(id: string, changes: Partial<Product> = {}): Product {
+  return {
+    id,
+    productNumber: '305.292.87',
+    name: `Product ${id}`,
+    description: '',
+    categoryId: 'chairs',
+    categoryName: 'Chairs',
+    imageUrl: '',
+    thumbnailUrl: '',
+    basePrice: 100,
+    conditions: [
+      { condition: 'LIKE_NEW', price: 30, familyMemberPrice: 35, description: '' },
+      { condition: 'VERY_GOOD', price: 20, familyMemberPrice: 25, description: '' },
+      { condition: 'WELL_USED', price: 10, familyMemberPrice: 12, description: '' }
+    ],
+    isEligible: true,
+    ...changes
+  };
+}
+
+function storedItem(id: string, productId: string, changes: Record<string, unknown> = {}) {
+  return {
+    id,
+    productId,
+    condition: 'VERY_GOOD',
+    price: 20,
+    familyMemberPrice: 25,
+    quantity: 1,
+    addedAt: '2026-01-01T10:00:00.000Z',
+    priceValidUntil: '2026-01-15T10:00:00.000Z',
+    ...changes
+  };
+}
+
+describe('BuybackListService', () => {
+  let products: Product[];
+  let isOffline: boolean;
+
+  const productService = {
+    getProduct: (id: string) => isOffline
+      ? throwError(() => new Error('offline'))
+      : of(products.find(p => p.id === id) ?? null)
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    products = [createProduct('p1'), createProduct('p2')];
+    isOffline = false;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: ProductService, useValue: productService }
+      ]
+    });
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  const save = (version: number, data: unknown) =>
+    localStorage.setItem(StorageKeys.BUYBACK_LIST, JSON.stringify({ version, data }));
+  const saved = () => JSON.parse(localStorage.getItem(StorageKeys.BUYBACK_LIST)!);
+
+  describe('restoring the saved list', () => {
+    it('should re-load the products of a current list', () => {
+      save(StorageVersions.BUYBACK_LIST, [storedItem('a', 'p1', { quantity: 2 })]);
+      const service = TestBed.inject(BuybackListService);
+
+      expect(service.isRestored()).toBe(true);
+      expect(service.items().map(item => [item.id, item.product, item.quantity])).toEqual([['a', products[0], 2]]);
+      expect(service.items()[0].addedAt).toEqual(new Date('2026-01-01T10:00:00.000Z'));
+    });
+
+    it('should migrate an unversioned list that embedded products and had no price lock', () => {
+      const { productId, priceValidUntil, ...item } = storedItem('a', 'p1');
+      localStorage.setItem(StorageKeys.BUYBACK_LIST, JSON.stringify([{ ...item, product: products[0] }]));
+      const service = TestBed.inject(BuybackListService);
+
+      expect(service.items()[0].product).toEqual(products[0]);
+      expect(service.items()[0].priceValidUntil.getTime())
+        .toBe(Date.parse('2026-01-01T10:00:00.000Z') + Timings.PRICE_LOCK_DURATION);
+      // Saved back at the current version, without the product
+      expect(saved().version).toBe(StorageVersions.BUYBACK_LIST);
+      expect(saved().data[0].product).toBeUndefined();
+      expect(saved().data[0].productId).toBe('p1');
+    });
+
+    it('should move photo images out of a version 1 list', () => {
+      const photo = { id: 'photo-1', fileName: 'chair.jpg', size: 1000 };
+      const image = 'data:image/jpeg;base64,/9j/4AAQ';
+      save(1, [storedItem('a', 'p1', { photos: [{ ...photo, dataUrl: image }, { ...photo, id: 'photo-2' }] })]);
+      const service = TestBed.inject(BuybackListService);
+
+      // The photo without an image cannot be shown again
+      expect(service.items()[0].photos).toEqual([{ ...photo, dataUrl: image }]);
+      expect(saved().data[0].photos).toEqual([photo]);
+    });
+
+    it('should drop corrupt entries and keep the rest', () => {
+      save(StorageVersions.BUYBACK_LIST, [
+        storedItem('a', 'p1'),
+        storedItem('b', 'p2', { quantity: 0 }),
+        storedItem('c', 'p2', { condition: 'BROKEN' }),
+        storedItem('d', 'p2', { price: -5 }),
+        storedItem('e', 'p2', { addedAt: 'yesterday' }),
+        null
+      ]);
+      const service = TestBed.inject(BuybackListService);
+
+      expect(service.items().map(item => item.id)).toEqual(['a']);
+    });
+
+    it('should drop items whose product is gone, ineligible or no longer offered in the condition', () => {
+      products = [
+        createProduct('p1', { isEligible: false }),
+        createProduct('p2', { conditions: [{ condition: 'LIKE_NEW', price: 30, familyMemberPrice: 35, description: '' }] }),
+        createProduct('p3')
+      ];
+      save(StorageVersions.BUYBACK_LIST, [
+        storedItem('a', 'p1'),
+        storedItem('b', 'p2'),
+        storedItem('c', 'p3'),
+        storedItem('d', 'gone')
+      ]);
+      const service = TestBed.inject(BuybackListService);
+
+      expect(service.items().map(item => item.id)).toEqual(['c']);
+    });
+
+    it('should keep the saved list and its photos when the products cannot be loaded', () => {
+      isOffline = true;
+      const list = [storedItem('a', 'p1', { photos: [{ id: 'photo-1', fileName: 'chair.jpg', size: 1000 }] })];
+      save(StorageVersions.BUYBACK_LIST, list);
+      const prune = vi.spyOn(TestBed.inject(PhotoStoreService), 'prune');
+      const service = TestBed.inject(BuybackListService);
+
+      expect(service.isRestored()).toBe(true);
+      expect(service.items()).toEqual([]);
+      expect(saved().data).toEqual(list);
+      expect(prune).not.toHaveBeenCalled();
+    });
+
+    it('should save items added while offline along with the unrestored ones', () => {
+      isOffline = true;
+      save(StorageVersions.BUYBACK_LIST, [storedItem('a', 'p1')]);
+      const service = TestBed.inject(BuybackListService);
+      service.addItem(products[1], 'WELL_USED');
+
+      expect(saved().data.map((item: { productId: string }) => item.productId)).toEqual(['p2', 'p1']);
+
+      // Clearing the list clears them too
+      service.clearList();
+      expect(saved().data).toEqual([]);
+    });
+
+    it('should discard a list that is not a list', () => {
+      save(StorageVersions.BUYBACK_LIST, { items: [] });
+      const service = TestBed.inject(BuybackListService);
+
+      expect(service.items()).toEqual([]);
+      expect(localStorage.getItem(StorageKeys.BUYBACK_LIST)).toBeNull();
+    });
+
+    it('should leave a list saved by a newer version alone', () => {
+      save(StorageVersions.BUYBACK_LIST + 1, { lists: [] });
+      const service = TestBed.inject(BuybackListService);
+
+      expect(service.items()).toEqual([]);
+      expect(saved().version).toBe(StorageVersions.BUYBACK_LIST + 1);
+    });
+  });
+
+  describe('list rules', () => {
+    let service: BuybackListService;
+    let modal: CommonErrorModalService;
+
+    const limitShown = () => modal.modalData()?.errType === errorCase.BUYBACK_LIST_LIMIT.errType;
+
+    beforeEach(() => {
+      products = [createProduct('p1'), createProduct('p2'), createProduct('p3'), createProduct('p4', { categoryId: 'tables' })];
+      TestBed.overrideProvider(RemoteConfigService, {
+        useValue: {
+          maxItemsInBuybackList: signal(3),
+          maxQuantityPerItem: signal(4),
+          maxBuybackListValue: signal(150),
+          categoryLimits: signal({ chairs: 5 })
+        }
+      });
+      service = TestBed.inject(BuybackListService);
+      modal = TestBed.inject(CommonErrorModalService);
+    });
+
+    it('should add items within the limits', () => {
+      expect(service.addItem(products[0], 'VERY_GOOD')).toBe(true);
+      expect(service.addItem(products[0], 'VERY_GOOD')).toBe(true);
+      expect(service.items().map(item => item.quantity)).toEqual([2]);
+      expect(limitShown()).toBe(false);
+    });
+
+    it('should never add an ineligible product', () => {
+      expect(service.addItem(createProduct('p5', { isEligible: false }), 'VERY_GOOD')).toBe(false);
+      expect(service.items()).toEqual([]);
+    });
+
+    it('should limit the number of lines', () => {
+      service.addItem(products[0], 'WELL_USED');
+      service.addItem(products[1], 'WELL_USED');
+      service.addItem(products[3], 'WELL_USED');
+
+      expect(service.addItem(products[2], 'WELL_USED')).toBe(false);
+      expect(service.itemCount()).toBe(3);
+      expect(limitShown()).toBe(true);
+      expect(modal.modalData()!.disc).toContain('3');
+    });
+
+    it('should limit the quantity per product, across conditions', () => {
+      service.addItem(products[0], 'WELL_USED');
+      service.addItem(products[0], 'VERY_GOOD');
+      const [wellUsed] = service.items();
+
+      expect(service.updateQuantity(wellUsed.id, 3)).toBe(true);
+      expect(service.updateQuantity(wellUsed.id, 4)).toBe(false);
+      expect(service.items()[0].quantity).toBe(3);
+      expect(limitShown()).toBe(true);
+    });
+
+    it('should limit the list value', () => {
+      service.addItem(products[0], 'LIKE_NEW');
+      service.addItem(products[1], 'LIKE_NEW');
+      const [first, second] = service.items();
+      service.updateQuantity(first.id, 3);
+
+      // 3 x 30 + 2 x 30 = 150 is the limit, one more goes over it
+      expect(service.updateQuantity(second.id, 2)).toBe(true);
+      expect(service.addItem(products[3], 'WELL_USED')).toBe(false);
+      expect(service.totalValue()).toBe(150);
+    });
+
+    it('should limit the quantity per category', () => {
+      service.addItem(products[0], 'WELL_USED');
+      service.addItem(products[1], 'WELL_USED');
+      const [first, second] = service.items();
+      service.updateQuantity(first.id, 3);
+
+      expect(service.updateQuantity(second.id, 3)).toBe(false);
+      expect(service.updateQuantity(second.id, 2)).toBe(true);
+      // Other categories do not count
+      expect(service.addItem(products[3], 'WELL_USED')).toBe(true);
+    });
+
+    it('should let a list over a lowered limit be reduced, but not submitted', () => {
+      localStorage.clear();
+      TestBed.resetTestingModule();
+      save(StorageVersions.BUYBACK_LIST, [
+        storedItem('a', 'p1', { quantity: 6 }),
+        storedItem('b', 'p2'),
+        storedItem('c', 'p3'),
+        storedItem('d', 'p4')
+      ]);
+      TestBed.configureTestingModule({
+        providers: [
+          provideHttpClient(),
+          provideHttpClientTesting(),
+          { provide: ProductService, useValue: productService },
+          {
+            provide: RemoteConfigService,
+            useValue: {
+              maxItemsInBuybackList: signal(3),
+              maxQuantityPerItem: signal(4),
+              maxBuybackListValue: signal(1000),
+              categoryLimits: signal({})
+            }
+          }
+        ]
+      });
+      service = TestBed.inject(BuybackListService);
+
+      expect(service.validateList()).toBe(false);
+      expect(service.updateQuantity('a', 5)).toBe(true);
+      expect(service.updateQuantity('a', 6)).toBe(false);
+      service.removeItem('d');
+      expect(service.updateQuantity('a', 4)).toBe(true);
+      expect(service.validateList()).toBe(true);
+    });
+  });
+
+  describe('editing items', () => {
+    let service: BuybackListService;
+
+    beforeEach(() => {
+      service = TestBed.inject(BuybackListService);
+      service.addItem(products[0], 'VERY_GOOD');
+      service.addItem(products[0], 'WELL_USED');
+    });
+
+    it('should change the condition at the product price for it, undoably', () => {
+      const [item] = service.items();
+
+      expect(service.updateCondition(item.id, 'LIKE_NEW')).toBe(true);
+      expect(service.items()[0]).toEqual(expect.objectContaining({ condition: 'LIKE_NEW', price: 30, familyMemberPrice: 35 }));
+
+      service.undo();
+      expect(service.items()[0]).toEqual(expect.objectContaining({ condition: 'VERY_GOOD', price: 20 }));
+      service.redo();
+      expect(service.items()[0].condition).toBe('LIKE_NEW');
+    });
+
+    it('should not change to a condition another line has for the product', () => {
+      const [item] = service.items();
+
+      expect(service.getConditionOptions(item)).toEqual([
+        { condition: 'LIKE_NEW', isTaken: false },
+        { condition: 'VERY_GOOD', isTaken: false },
+        { condition: 'WELL_USED', isTaken: true }
+      ]);
+      expect(service.updateCondition(item.id, 'WELL_USED')).toBe(false);
+      expect(service.items().map(i => i.condition)).toEqual(['VERY_GOOD', 'WELL_USED']);
+    });
+
+    it('should not change to a condition the product is not offered in', () => {
+      products[1] = createProduct('p2', { conditions: [{ condition: 'LIKE_NEW', price: 30, familyMemberPrice: 35, description: '' }] });
+      service.addItem(products[1], 'LIKE_NEW');
+      const item = service.items()[2];
+
+      expect(service.updateCondition(item.id, 'WELL_USED')).toBe(false);
+      expect(service.items()[2].condition).toBe('LIKE_NEW');
+    });
+  });
+});
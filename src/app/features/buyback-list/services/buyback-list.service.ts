@@ -1,11 +1,122 @@
-import { Injectable, signal, computed } from '@angular/core';
-import { BuybackItem, Product } from '../../../shared/interfaces/product.interface';
-import { DatastoreService } from '../../../core/services/datastore.service';
-import { StorageKeys } from '../../../shared/constants/app.constants';
+import { Injectable, signal, computed, effect, untracked } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { EMPTY, forkJoin, Observable, of } from 'rxjs';
+import { catchError, filter, map, switchMap, take } from 'rxjs/operators';
+import {
+  BuybackItem,
+  BuybackPhoto,
+  BuybackPriceChange,
+  ConditionAssessment,
+  Product
+} from '../../../shared/interfaces/product.interface';
+import { DatastoreService, VersionedStore } from '../../../core/services/datastore.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { RemoteConfigService } from '../../../core/services/remote-config.service';
+import { ProductService } from '../../product-discovery/services/product.service';
+import { BuybackListMergeService } from './buyback-list-merge.service';
+import { PhotoStoreService } from './photo-store.service';
+import { CommonErrorModalService } from '../../../shared/components/common-error-modal/common-error-modal.service';
+import { ToasterService } from '../../../shared/components/toaster/toaster.service';
+import {
+  BuybackListHistory,
+  BuybackListRule,
+  errorCase,
+  Files,
+  ListConflictResolution,
+  ListImportMode,
+  ProductCondition,
+  StorageKeys,
+  StorageVersions,
+  Timings,
+  toasterCases
+} from '../../../shared/constants/app.constants';
+
+/**
+ * Fresh price for a buyback item
+ */
+export interface BuybackItemPrice {
+  itemId: string;
+  price: number;
+  familyMemberPrice: number;
+}
+
+/**
+ * Condition photo as referred to by a saved item
+ * The image itself is kept in PhotoStoreService
+ */
+export type StoredBuybackPhoto = Omit<BuybackPhoto, 'dataUrl'>;
+
+/**
+ * Buyback item as saved in localStorage
+ * The product is saved by id and re-loaded on restore, dates as ISO strings
+ */
+export interface StoredBuybackItem extends Omit<BuybackItem, 'product' | 'addedAt' | 'priceValidUntil' | 'photos'> {
+  productId: string;
+  addedAt: string;
+  priceValidUntil: string;
+  photos?: StoredBuybackPhoto[];
+}
+
+/**
+ * Shared item that is already in the local list (same product and condition)
+ */
+export interface BuybackItemConflict {
+  local: BuybackItem;
+  shared: BuybackItem;
+}
+
+/**
+ * One change to the list, kept so it can be reverted on its own later
+ * (e.g. from the toaster's "Undo"), whatever changed since
+ */
+export interface BuybackListChange {
+  before: BuybackItem[];
+  after: BuybackItem[];
+}
+
+/**
+ * Condition an item can be changed to
+ */
+export interface BuybackConditionOption {
+  condition: ProductCondition.Condition;
+  isTaken: boolean; // another line has the product in this condition
+}
+
+/**
+ * Buyback list rule broken by a change, with the limit that applies
+ */
+export interface BuybackRuleViolation {
+  rule: BuybackListRule.Rule;
+  limit: number;
+}
 
 /**
  * Buyback List Service
  * Manages the user's buyback list state and persistence
+ *
+ * Changes are checked against the market's list rules (distinct lines,
+ * quantity per article, total value, per-category caps from remote config);
+ * a change that breaks one is rejected and explained in the error modal.
+ *
+ * Every change (adding, removing, quantity, condition and photo changes,
+ * clearing and importing) is kept in an undo history (the list before each
+ * change). Removing, clearing and importing also return the change, which
+ * the toaster's "Undo" reverts on its own with revert(), keeping later
+ * changes. Clearing the whole list is confirmed first.
+ *
+ * The list is saved with a schema version, its photos separately in
+ * PhotoStoreService. On restore, older versions are
+ * migrated, corrupt entries are dropped and products are re-loaded from
+ * ProductService by id; entries whose product is gone, no longer eligible
+ * or no longer offered in the saved condition are dropped too. When the
+ * products cannot be loaded (e.g. offline), the saved entries are kept for
+ * a later visit rather than taken for removed ones. The same
+ * restore turns a shared list (see SharedListService) into items, which are
+ * merged into the list or replace it.
+ *
+ * Changes saved by other tabs are merged into the list (see
+ * BuybackListMergeService) against the list this tab last saved or synced,
+ * so neither tab overwrites the other's changes.
  */
 @Injectable({
   providedIn: 'root'
@@ -13,13 +124,44 @@ import { StorageKeys } from '../../../shared/constants/app.constants';
 export class BuybackListService {
   // Private state
   private _items = signal<BuybackItem[]>([]);
+  private _priceChanges = signal<BuybackPriceChange[]>([]);
+  private _undoStack = signal<BuybackItem[][]>([]);
+  private _redoStack = signal<BuybackItem[][]>([]);
+  private _isRestored = signal<boolean>(false);
 
   // Public readonly signals
   readonly items = this._items.asReadonly();
+  readonly priceChanges = this._priceChanges.asReadonly();
+  readonly isRestored = this._isRestored.asReadonly();
+
+  // List as last saved by this tab or synced from another tab
+  private syncedItems: StoredBuybackItem[] = [];
+
+  // Saved entries whose products could not be loaded (e.g. offline), kept
+  // in storage until a later visit or another tab restores them
+  private unrestoredItems: StoredBuybackItem[] = [];
+
+  // Emits once the saved list is restored (products re-loaded)
+  readonly restored$ = toObservable(this._isRestored).pipe(filter(Boolean), take(1));
+
+  // Saved list schema (see StoredBuybackItem)
+  private readonly listStore: VersionedStore<StoredBuybackItem[]> = {
+    key: StorageKeys.BUYBACK_LIST,
+    version: StorageVersions.BUYBACK_LIST,
+    migrations: {
+      0: data => this.migrateUnversionedList(data),
+      1: data => this.migratePhotosToPhotoStore(data)
+    },
+    validate: data => this.validateStoredList(data)
+  };
 
   // Computed signals
   readonly itemCount = computed(() => this._items().length);
 
+  readonly canUndo = computed(() => this._undoStack().length > 0);
+
+  readonly canRedo = computed(() => this._redoStack().length > 0);
+
   readonly totalValue = computed(() => {
     return this._items().reduce((sum, item) => sum + (item.price * item.quantity), 0);
   });
@@ -30,19 +172,55 @@ export class BuybackListService {
 
   readonly isEmpty = computed(() => this._items().length === 0);
 
-  constructor(private datastore: DatastoreService) {
+  // List deadline - the earliest item price lock
+  readonly validUntil = computed(() => {
+    const deadlines = this._items().map(item => item.priceValidUntil.getTime());
+    return deadlines.length ? new Date(Math.min(...deadlines)) : null;
+  });
+
+  constructor(
+    private datastore: DatastoreService,
+    private productService: ProductService,
+    private listMerge: BuybackListMergeService,
+    private photoStore: PhotoStoreService,
+    private remoteConfig: RemoteConfigService,
+    private locale: LocaleService,
+    private modalService: CommonErrorModalService,
+    private toasterService: ToasterService
+  ) {
     this.loadFromStorage();
+    this.syncWithOtherTabs();
+
+    // Clear the list once the customer confirms it in the modal
+    effect(() => {
+      const event = this.modalService.confirmButtonEmitter();
+      if (event?.type === errorCase.CLEAR_LIST_CONFIRMATION.errType) {
+        untracked(() => this.onClearListConfirmed());
+      }
+    });
   }
 
   /**
    * Add item to buyback list
    * User selects any condition - we don't validate against product conditions
+   * Returns false when the item was not added (ineligible product or a
+   * broken list rule)
    */
-  addItem(product: Product, condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED'): void {
+  addItem(
+    product: Product,
+    condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED',
+    photos: BuybackPhoto[] = [],
+    conditionAssessment?: ConditionAssessment
+  ): boolean {
+    // Ineligible products (recalled, hygiene, ...) are never bought back
+    if (!product.isEligible) {
+      return false;
+    }
+
     const conditionPrice = product.conditions.find(c => c.condition === condition);
     if (!conditionPrice) {
       console.error('Invalid condition for product');
-      return;
+      return false;
     }
 
     // Check if item already exists with same product and condition
@@ -51,8 +229,24 @@ export class BuybackListService {
     );
 
     if (existingItem) {
-      // Update quantity
-      this.updateQuantity(existingItem.id, existingItem.quantity + 1);
+      // Update quantity, photos and assessment as one change
+      const items = this._items().map(item =>
+        item.id === existingItem.id
+          ? {
+              ...item,
+              quantity: item.quantity + 1,
+              photos: [...(item.photos || []), ...photos].slice(0, Files.MAX_PHOTOS_PER_ITEM),
+              conditionAssessment: conditionAssessment ?? item.conditionAssessment
+            }
+          : item
+      );
+      if (!this.checkRules(items)) {
+        return false;
+      }
+
+      this.record();
+      this._items.set(items);
+      this.saveToStorage();
     } else {
       // Add new item
       const newItem: BuybackItem = {
@@ -62,35 +256,123 @@ export class BuybackListService {
         price: conditionPrice.price,
         familyMemberPrice: conditionPrice.familyMemberPrice,
         quantity: 1,
-        addedAt: new Date()
+        addedAt: new Date(),
+        priceValidUntil: this.getPriceLockDeadline(),
+        photos: photos.slice(0, Files.MAX_PHOTOS_PER_ITEM),
+        conditionAssessment
       };
 
+      if (!this.checkRules([...this._items(), newItem])) {
+        return false;
+      }
+
+      this.record();
       this._items.update(items => [...items, newItem]);
       this.saveToStorage();
     }
+    return true;
   }
 
   /**
    * Remove item from list
+   * Returns the change, so it can be reverted
    */
-  removeItem(itemId: string): void {
+  removeItem(itemId: string): BuybackListChange {
+    const before = this._items();
+    this.record();
     this._items.update(items => items.filter(item => item.id !== itemId));
     this.saveToStorage();
+    return { before, after: this._items() };
   }
 
   /**
    * Update item quantity
+   * Returns false when the new quantity breaks a list rule
    */
-  updateQuantity(itemId: string, quantity: number): void {
+  updateQuantity(itemId: string, quantity: number): boolean {
     if (quantity < 1) {
       this.removeItem(itemId);
+      return true;
+    }
+
+    const items = this._items().map(item =>
+      item.id === itemId
+        ? { ...item, quantity }
+        : item
+    );
+    if (!this.checkRules(items)) {
+      return false;
+    }
+
+    this.record();
+    this._items.set(items);
+    this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Update item condition, at the product's price for it
+   * Returns false when the product is not offered in the condition, is
+   * already listed in it on another line, or the change breaks a list rule
+   */
+  updateCondition(itemId: string, condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED'): boolean {
+    const current = this._items().find(item => item.id === itemId);
+    const option = current && this.getConditionOptions(current).find(o => o.condition === condition);
+    if (!option || option.isTaken) {
+      return false;
+    }
+
+    const items = this._items().map(item => {
+      if (item.id === itemId) {
+        const conditionPrice = item.product.conditions.find(c => c.condition === condition);
+        if (conditionPrice) {
+          return {
+            ...item,
+            condition,
+            price: conditionPrice.price,
+            familyMemberPrice: conditionPrice.familyMemberPrice
+          };
+        }
+      }
+      return item;
+    });
+    // A better condition raises the value
+    if (!this.checkRules(items)) {
+      return false;
+    }
+
+    this.record();
+    this._items.set(items);
+    this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Conditions an item can be changed to: those its product is offered in,
+   * flagged when another line already has the product in that condition
+   */
+  getConditionOptions(item: BuybackItem): BuybackConditionOption[] {
+    return item.product.conditions.map(({ condition }) => ({
+      condition,
+      isTaken: this._items().some(other =>
+        other.id !== item.id && other.product.id === item.product.id && other.condition === condition
+      )
+    }));
+  }
+
+  /**
+   * Attach condition photos to an item, up to Files.MAX_PHOTOS_PER_ITEM
+   */
+  addPhotos(itemId: string, photos: BuybackPhoto[]): void {
+    if (photos.length === 0) {
       return;
     }
 
+    this.record();
     this._items.update(items =>
       items.map(item =>
         item.id === itemId
-          ? { ...item, quantity }
+          ? { ...item, photos: [...(item.photos || []), ...photos].slice(0, Files.MAX_PHOTOS_PER_ITEM) }
           : item
       )
     );
@@ -98,34 +380,253 @@ export class BuybackListService {
   }
 
   /**
-   * Update item condition
+   * Remove a condition photo from an item
    */
-  updateCondition(itemId: string, condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED'): void {
+  removePhoto(itemId: string, photoId: string): void {
+    this.record();
     this._items.update(items =>
-      items.map(item => {
-        if (item.id === itemId) {
-          const conditionPrice = item.product.conditions.find(c => c.condition === condition);
-          if (conditionPrice) {
-            return {
-              ...item,
-              condition,
-              price: conditionPrice.price,
-              familyMemberPrice: conditionPrice.familyMemberPrice
-            };
-          }
-        }
-        return item;
-      })
+      items.map(item =>
+        item.id === itemId
+          ? { ...item, photos: (item.photos || []).filter(photo => photo.id !== photoId) }
+          : item
+      )
     );
     this.saveToStorage();
   }
 
+  /**
+   * Ask the customer to confirm clearing the list
+   * The list is cleared when the modal is confirmed
+   */
+  confirmClearList(): void {
+    this.modalService.openErrorDialog(errorCase.CLEAR_LIST_CONFIRMATION);
+  }
+
   /**
    * Clear all items
+   * Returns the change, so it can be reverted
    */
-  clearList(): void {
+  clearList(): BuybackListChange {
+    const before = this._items();
+    this.record();
     this._items.set([]);
+    this._priceChanges.set([]);
+    this.unrestoredItems = [];
     this.saveToStorage();
+    return { before, after: [] };
+  }
+
+  /**
+   * Current list in its saved form, e.g. to share it
+   */
+  getStoredItems(): StoredBuybackItem[] {
+    return this._items().map(item => this.toStoredItem(item));
+  }
+
+  /**
+   * Turn saved entries (from storage or a shared list) back into items
+   * Corrupt entries are dropped and products re-loaded by id; entries whose
+   * product is gone, no longer eligible or no longer offered in the saved
+   * condition are dropped too. Products already at hand can be passed in,
+   * so they are not loaded again. Errors when a product cannot be loaded,
+   * so the entries are not taken for removed ones
+   */
+  restoreItems(data: unknown, knownProducts: Product[] = []): Observable<BuybackItem[]> {
+    const saved = this.validateStoredList(data) ?? [];
+    const productIds = [...new Set(saved.map(item => item.productId))]
+      .filter(productId => !knownProducts.some(product => product.id === productId));
+    const loaded$ = productIds.length
+      ? forkJoin(productIds.map(productId => this.productService.getProduct(productId)))
+      : of([]);
+    const photos$ = this.photoStore.load(saved.flatMap(item => (item.photos || []).map(photo => photo.id)));
+
+    return forkJoin([loaded$, photos$]).pipe(
+      map(([loaded, photos]) => {
+        const products = [...knownProducts, ...loaded];
+        return saved.flatMap(item => {
+          const product = products.find(p => p?.id === item.productId);
+          const isOffered = product?.conditions.some(c => c.condition === item.condition);
+          return product && product.isEligible && isOffered ? [this.fromStoredItem(item, product, photos)] : [];
+        });
+      })
+    );
+  }
+
+  /**
+   * Shared items that are already in the list, to be resolved one by one
+   */
+  findConflicts(shared: BuybackItem[]): BuybackItemConflict[] {
+    return shared.flatMap(sharedItem => {
+      const local = this.getItem(sharedItem.product.id, sharedItem.condition);
+      return local ? [{ local, shared: sharedItem }] : [];
+    });
+  }
+
+  /**
+   * Add a shared list to the list, replacing it or merging into it
+   * When merging, conflicts are resolved per local item id (keeping the local
+   * item when unresolved). Returns the change, or null when the result breaks
+   * a list rule
+   */
+  importItems(
+    shared: BuybackItem[],
+    mode: ListImportMode.Mode,
+    resolutions: Record<string, ListConflictResolution.Resolution> = {}
+  ): BuybackListChange | null {
+    // Shared items get new ids, so they never clash with local ones
+    const incoming = shared.map(item => ({ ...item, id: this.generateId() }));
+    let items = incoming;
+
+    if (mode === ListImportMode.MERGE) {
+      const conflicts = this.findConflicts(incoming);
+      const merged = this._items().map(local => {
+        const conflict = conflicts.find(c => c.local.id === local.id);
+        return conflict ? this.resolveConflict(conflict, resolutions[local.id]) : local;
+      });
+      items = [...merged, ...incoming.filter(item => !conflicts.some(c => c.shared.id === item.id))];
+    }
+
+    if (!this.checkRules(items)) {
+      return null;
+    }
+
+    const before = this._items();
+    this.record();
+    this._items.set(items);
+    this.saveToStorage();
+    return { before, after: items };
+  }
+
+  /**
+   * Revert one change, keeping the changes made since (by this tab or
+   * merged from others): the change is undone with a three-way merge of the
+   * current list and the list before the change, against the list after it.
+   * Returns false when the result breaks a list rule
+   */
+  revert(change: BuybackListChange): boolean {
+    const known = [...this._items(), ...change.before];
+    const reverted = this.listMerge.merge(
+      change.after.map(item => this.toStoredItem(item)),
+      this.getStoredItems(),
+      change.before.map(item => this.toStoredItem(item))
+    );
+    const items = reverted.flatMap(item => {
+      const product = known.find(k => k.product.id === item.productId)?.product;
+      return product ? [this.fromStoredItem(item, product, known.flatMap(k => k.photos || []))] : [];
+    });
+
+    if (!this.checkRules(items)) {
+      return false;
+    }
+
+    this.record();
+    this._items.set(items);
+    this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Restore the list as it was before the last change
+   */
+  undo(): void {
+    const undoStack = this._undoStack();
+    if (undoStack.length === 0) {
+      return;
+    }
+
+    this._redoStack.update(stack => [...stack, this._items()]);
+    this._undoStack.set(undoStack.slice(0, -1));
+    this._items.set(undoStack[undoStack.length - 1]);
+    this.saveToStorage();
+  }
+
+  /**
+   * Re-apply the last undone change
+   */
+  redo(): void {
+    const redoStack = this._redoStack();
+    if (redoStack.length === 0) {
+      return;
+    }
+
+    this._undoStack.update(stack => [...stack, this._items()]);
+    this._redoStack.set(redoStack.slice(0, -1));
+    this._items.set(redoStack[redoStack.length - 1]);
+    this.saveToStorage();
+  }
+
+  /**
+   * Forget the undo history, e.g. once the list is submitted
+   * Changes returned for the toaster can still be reverted
+   */
+  clearHistory(): void {
+    this._undoStack.set([]);
+    this._redoStack.set([]);
+  }
+
+  /**
+   * Get items whose price lock has expired
+   */
+  getStaleItems(now: Date = new Date()): BuybackItem[] {
+    return this._items().filter(item => item.priceValidUntil.getTime() <= now.getTime());
+  }
+
+  /**
+   * Apply fresh prices to items and restart their price lock
+   * Records the items whose price actually changed for the summary
+   */
+  repriceItems(prices: BuybackItemPrice[]): void {
+    if (prices.length === 0) {
+      return;
+    }
+
+    const changes: BuybackPriceChange[] = [];
+    const priceValidUntil = this.getPriceLockDeadline();
+
+    this._items.update(items =>
+      items.map(item => {
+        const fresh = prices.find(p => p.itemId === item.id);
+        if (!fresh) {
+          return item;
+        }
+
+        if (fresh.price !== item.price || fresh.familyMemberPrice !== item.familyMemberPrice) {
+          changes.push({
+            itemId: item.id,
+            productName: item.product.name,
+            condition: item.condition,
+            previousPrice: item.price,
+            newPrice: fresh.price,
+            previousFamilyPrice: item.familyMemberPrice,
+            newFamilyPrice: fresh.familyMemberPrice
+          });
+        }
+
+        return {
+          ...item,
+          price: fresh.price,
+          familyMemberPrice: fresh.familyMemberPrice,
+          priceValidUntil
+        };
+      })
+    );
+    // Undoing must not bring back the old prices
+    this.clearHistory();
+
+    if (changes.length > 0) {
+      this._priceChanges.update(existing => [
+        ...existing.filter(change => !changes.some(c => c.itemId === change.itemId)),
+        ...changes
+      ]);
+    }
+    this.saveToStorage();
+  }
+
+  /**
+   * Dismiss the price change summary
+   */
+  dismissPriceChanges(): void {
+    this._priceChanges.set([]);
   }
 
   /**
@@ -150,25 +651,363 @@ export class BuybackListService {
   }
 
   /**
-   * Save list to localStorage
+   * Check the whole list against the list rules before submitting
+   * (the rules may have changed since the items were added)
+   */
+  validateList(): boolean {
+    const violation = this.findViolation(this._items(), []);
+    if (violation) {
+      this.showViolation(violation);
+    }
+    return !violation;
+  }
+
+  /**
+   * Check a proposed list against the list rules, explaining a broken rule
+   * Only limits the change makes worse count, so a list that is already over
+   * a lowered limit can still be reduced
+   */
+  private checkRules(proposed: BuybackItem[]): boolean {
+    const violation = this.findViolation(proposed, this._items());
+    if (violation) {
+      this.showViolation(violation);
+    }
+    return !violation;
+  }
+
+  /**
+   * First rule the proposed list exceeds (by more than the current list does)
+   */
+  private findViolation(proposed: BuybackItem[], current: BuybackItem[]): BuybackRuleViolation | null {
+    const exceeds = (limit: number, measure: (items: BuybackItem[]) => number) => {
+      const value = measure(proposed);
+      return value > limit && value > measure(current);
+    };
+
+    const maxItems = this.remoteConfig.maxItemsInBuybackList();
+    if (exceeds(maxItems, items => items.length)) {
+      return { rule: BuybackListRule.MAX_ITEMS, limit: maxItems };
+    }
+
+    const maxQuantity = this.remoteConfig.maxQuantityPerItem();
+    const productIds = new Set(proposed.map(item => item.product.id));
+    for (const productId of productIds) {
+      if (exceeds(maxQuantity, items => this.sumQuantity(items, item => item.product.id === productId))) {
+        return { rule: BuybackListRule.MAX_QUANTITY, limit: maxQuantity };
+      }
+    }
+
+    const maxValue = this.remoteConfig.maxBuybackListValue();
+    if (exceeds(maxValue, items => items.reduce((sum, item) => sum + item.price * item.quantity, 0))) {
+      return { rule: BuybackListRule.MAX_VALUE, limit: maxValue };
+    }
+
+    for (const [categoryId, limit] of Object.entries(this.remoteConfig.categoryLimits())) {
+      if (exceeds(limit, items => this.sumQuantity(items, item => item.product.categoryId === categoryId))) {
+        return { rule: BuybackListRule.CATEGORY_LIMIT, limit };
+      }
+    }
+
+    return null;
+  }
+
+  private sumQuantity(items: BuybackItem[], predicate: (item: BuybackItem) => boolean): number {
+    return items.filter(predicate).reduce((sum, item) => sum + item.quantity, 0);
+  }
+
+  /**
+   * Item that replaces a local item the shared list also contains
+   * Combined items keep the local price lock
+   */
+  private resolveConflict(
+    { local, shared }: BuybackItemConflict,
+    resolution: ListConflictResolution.Resolution = ListConflictResolution.KEEP_MINE
+  ): BuybackItem {
+    switch (resolution) {
+      case ListConflictResolution.USE_SHARED:
+        return { ...shared, id: local.id };
+      case ListConflictResolution.COMBINE:
+        return {
+          ...local,
+          quantity: local.quantity + shared.quantity,
+          photos: [...(local.photos || []), ...(shared.photos || [])].slice(0, Files.MAX_PHOTOS_PER_ITEM)
+        };
+      default:
+        return local;
+    }
+  }
+
+  /**
+   * Keep the list as it is before a change, so the change can be undone
+   * A new change drops the undone changes
+   */
+  private record(): void {
+    this._undoStack.update(stack => [...stack, this._items()].slice(-BuybackListHistory.MAX_ENTRIES));
+    this._redoStack.set([]);
+  }
+
+  /**
+   * Clear the list, offering to undo it in the toaster
+   */
+  private onClearListConfirmed(): void {
+    if (this.isEmpty()) {
+      return;
+    }
+
+    const change = this.clearList();
+    this.toasterService.openToaster({
+      ...toasterCases.LIST_CLEARED,
+      viewLink: { ...toasterCases.LIST_CLEARED.viewLink, action: () => this.revert(change) }
+    });
+  }
+
+  /**
+   * Explain a broken rule in the error modal, with the limit that applies
+   */
+  private showViolation(violation: BuybackRuleViolation): void {
+    const t = this.locale.translations().modal;
+    const messages: Record<BuybackListRule.Rule, string> = {
+      [BuybackListRule.MAX_ITEMS]: t.MAX_ITEMS_LIMIT_MESSAGE,
+      [BuybackListRule.MAX_QUANTITY]: t.MAX_QUANTITY_LIMIT_MESSAGE,
+      [BuybackListRule.MAX_VALUE]: t.MAX_VALUE_LIMIT_MESSAGE,
+      [BuybackListRule.CATEGORY_LIMIT]: t.CATEGORY_LIMIT_MESSAGE
+    };
+    const limit = violation.rule === BuybackListRule.MAX_VALUE
+      ? this.locale.formatCurrency(violation.limit)
+      : String(violation.limit);
+
+    this.modalService.openErrorDialog({
+      ...errorCase.BUYBACK_LIST_LIMIT,
+      disc: `${messages[violation.rule]} ${t.LIMIT} ${limit}`
+    });
+  }
+
+  /**
+   * Save list to localStorage, its photos to the photo store
+   * Other tabs load the photos as soon as they see the list, so the list is
+   * written once its photos are stored (right away when there are no new ones)
    */
   private saveToStorage(): void {
-    this.datastore.setItem(StorageKeys.BUYBACK_LIST, this._items());
+    this.photoStore.save(this._items().flatMap(item => item.photos || [])).subscribe(() => {
+      this.syncedItems = this.getSavedItems();
+      this.datastore.setVersionedItem(this.listStore, this.syncedItems);
+    });
+  }
+
+  /**
+   * List as saved: the items plus the entries not restored yet
+   */
+  private getSavedItems(): StoredBuybackItem[] {
+    const unrestored = this.unrestoredItems.filter(entry => !this._items().some(item => item.id === entry.id));
+    return [...this.getStoredItems(), ...unrestored];
+  }
+
+  /**
+   * Merge the list saved by another tab into this tab's list, once this
+   * tab's own list is restored
+   * Only a removed list is empty; one this tab cannot read is not reported.
+   * A change whose products cannot be loaded is skipped, the next one
+   * carries it
+   */
+  private syncWithOtherTabs(): void {
+    this.datastore.watchVersionedItem(this.listStore)
+      .pipe(
+        switchMap(saved =>
+          this.restored$.pipe(
+            switchMap(() => this.restoreItems(saved ?? [], this._items().map(item => item.product))),
+            catchError(() => EMPTY)
+          )
+        )
+      )
+      .subscribe(remote => this.mergeRemoteItems(remote));
   }
 
   /**
-   * Load list from localStorage
+   * Merge another tab's list with this tab's changes since the last sync
+   * The merged list is saved back when it differs from the other tab's, so
+   * both tabs end up with it
+   */
+  private mergeRemoteItems(remote: BuybackItem[]): void {
+    const remoteStored = remote.map(item => this.toStoredItem(item));
+    const merged = this.listMerge.merge(this.syncedItems, this.getSavedItems(), remoteStored);
+    const products = [...this._items(), ...remote].map(item => item.product);
+    const photos = [...this._items(), ...remote].flatMap(item => item.photos || []);
+
+    // Undoing would revert the other tab's changes
+    this.clearHistory();
+    this._items.set(
+      merged.flatMap(item => {
+        const product = products.find(p => p.id === item.productId);
+        return product ? [this.fromStoredItem(item, product, photos)] : [];
+      })
+    );
+    this.unrestoredItems = merged.filter(item => !products.some(p => p.id === item.productId));
+
+    if (this.listMerge.isSame(merged, remoteStored)) {
+      this.syncedItems = remoteStored;
+    } else {
+      this.saveToStorage();
+    }
+  }
+
+  /**
+   * Load list from localStorage, re-loading each product by id
+   * Products follow the current language, which may have changed since saving.
+   * When they cannot be loaded the saved list is kept as it is, photos
+   * included, for the next visit
    */
   private loadFromStorage(): void {
-    const saved = this.datastore.getItem<BuybackItem[]>(StorageKeys.BUYBACK_LIST);
-    if (saved && Array.isArray(saved)) {
-      // Convert date strings back to Date objects
-      const items = saved.map(item => ({
-        ...item,
-        addedAt: new Date(item.addedAt)
-      }));
-      this._items.set(items);
+    const saved = this.datastore.getVersionedItem(this.listStore);
+    if (!saved?.length) {
+      this._isRestored.set(true);
+      return;
     }
+
+    // Saved along with items added while the products are loading
+    this.unrestoredItems = saved;
+    this.syncedItems = saved;
+
+    this.restoreItems(saved)
+      .subscribe({
+        next: restored => {
+          this.unrestoredItems = [];
+          // Keep items added while the products were loading
+          this._items.update(items => [...restored, ...items.filter(item => !restored.some(r => r.id === item.id))]);
+          this.saveToStorage();
+          // Photos of items removed in earlier visits are no longer needed
+          this.photoStore.prune(this._items().flatMap(item => (item.photos || []).map(photo => photo.id)));
+          this._isRestored.set(true);
+        },
+        error: () => this._isRestored.set(true)
+      });
+  }
+
+  private toStoredItem(item: BuybackItem): StoredBuybackItem {
+    const { product, addedAt, priceValidUntil, photos, ...rest } = item;
+    return {
+      ...rest,
+      productId: product.id,
+      addedAt: addedAt.toISOString(),
+      priceValidUntil: priceValidUntil.toISOString(),
+      photos: photos?.map(({ dataUrl, ...photo }) => photo)
+    };
+  }
+
+  /**
+   * Item from a saved entry, with its photos looked up among the given ones
+   * Photos that cannot be found are dropped
+   */
+  private fromStoredItem(item: StoredBuybackItem, product: Product, photos: BuybackPhoto[]): BuybackItem {
+    const { productId, addedAt, priceValidUntil, photos: photoRefs, ...rest } = item;
+    return {
+      ...rest,
+      product,
+      addedAt: new Date(addedAt),
+      priceValidUntil: new Date(priceValidUntil),
+      photos: photoRefs?.flatMap(ref => photos.find(photo => photo.id === ref.id) ?? [])
+    };
+  }
+
+  /**
+   * Version 0 to 1: unversioned lists embedded the whole product
+   * Lists saved before price locks existed are locked from addedAt
+   */
+  private migrateUnversionedList(data: unknown): unknown {
+    if (!Array.isArray(data)) {
+      return data;
+    }
+
+    return data.map(item => {
+      if (!item || typeof item !== 'object') {
+        return item;
+      }
+      const { product, ...rest } = item;
+      return {
+        ...rest,
+        productId: product?.id,
+        priceValidUntil: item.priceValidUntil ??
+          new Date(new Date(item.addedAt).getTime() + Timings.PRICE_LOCK_DURATION).toISOString()
+      };
+    });
+  }
+
+  /**
+   * Version 1 to 2: photos were saved in the list with their image data
+   * The images move to the photo store, the list keeps the rest
+   */
+  private migratePhotosToPhotoStore(data: unknown): unknown {
+    if (!Array.isArray(data)) {
+      return data;
+    }
+
+    return data.map(item => {
+      if (!item || typeof item !== 'object' || !Array.isArray(item.photos)) {
+        return item;
+      }
+      const photos = (item.photos as unknown[]).filter((photo): photo is BuybackPhoto => {
+        const dataUrl = (photo as Partial<BuybackPhoto> | null)?.dataUrl;
+        return typeof dataUrl === 'string' && dataUrl.startsWith('data:image/') && this.isStoredPhoto(photo);
+      });
+      this.photoStore.save(photos).subscribe();
+      return { ...item, photos: photos.map(({ dataUrl, ...photo }) => photo) };
+    });
+  }
+
+  /**
+   * Keep the saved entries that are well formed, and their well-formed photos
+   */
+  private validateStoredList(data: unknown): StoredBuybackItem[] | null {
+    if (!Array.isArray(data)) {
+      return null;
+    }
+
+    const items: StoredBuybackItem[] = (data as unknown[])
+      .filter(item => this.isStoredItem(item))
+      .map(item => ({ ...item, photos: item.photos?.filter(photo => this.isStoredPhoto(photo)) }));
+    if (items.length < data.length) {
+      console.warn(`Discarded ${data.length - items.length} corrupt buyback list entries`);
+    }
+    return items;
+  }
+
+  /**
+   * Check a saved entry, except its photos (checked one by one)
+   */
+  private isStoredItem(item: unknown): item is Omit<StoredBuybackItem, 'photos'> & { photos?: unknown[] } {
+    if (!item || typeof item !== 'object') {
+      return false;
+    }
+
+    const entry = item as Partial<Record<keyof StoredBuybackItem, unknown>>;
+    const isDate = (value: unknown) => typeof value === 'string' && !isNaN(Date.parse(value));
+    const isAmount = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+    return typeof entry.id === 'string' &&
+      typeof entry.productId === 'string' &&
+      (ProductCondition.ALL as readonly unknown[]).includes(entry.condition) &&
+      isAmount(entry.price) &&
+      isAmount(entry.familyMemberPrice) &&
+      Number.isInteger(entry.quantity) && (entry.quantity as number) >= 1 &&
+      isDate(entry.addedAt) &&
+      isDate(entry.priceValidUntil) &&
+      (entry.photos === undefined || Array.isArray(entry.photos));
+  }
+
+  private isStoredPhoto(photo: unknown): photo is StoredBuybackPhoto {
+    if (!photo || typeof photo !== 'object') {
+      return false;
+    }
+
+    const stored = photo as Partial<Record<keyof StoredBuybackPhoto, unknown>>;
+    return typeof stored.id === 'string' &&
+      typeof stored.fileName === 'string' &&
+      typeof stored.size === 'number';
+  }
+
+  /**
+   * Deadline for a price locked now
+   */
+  private getPriceLockDeadline(): Date {
+    return new Date(Date.now() + Timings.PRICE_LOCK_DURATION);
   }
 
   /**
@@ -0,0 +1,33 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay } from 'rxjs';
+import { FamilyMembershipRequest, FamilyMembershipResponse } from './family-membership.service';
+
+/**
+ * Family Membership Mock Service
+ * Local stand-in for the familyMembership endpoint, used when
+ * environment.features.mockApiResponses is enabled
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FamilyMembershipMockService {
+  // Test identifiers that verify as IKEA Family members
+  private members = [
+    { memberId: 'FAM-0001', cardNumber: '6275980000000001', phoneNumber: '+966500000001' },
+    { memberId: 'FAM-0002', cardNumber: '6275980000000002', phoneNumber: '+97330000002' }
+  ];
+
+  /**
+   * Look up a membership by card or phone number
+   */
+  verify(request: FamilyMembershipRequest): Observable<FamilyMembershipResponse> {
+    const member = this.members.find(m =>
+      request.type === 'CARD' ? m.cardNumber === request.value : m.phoneNumber === request.value
+    );
+
+    return of({
+      isMember: !!member,
+      memberId: member?.memberId
+    }).pipe(delay(500));
+  }
+}
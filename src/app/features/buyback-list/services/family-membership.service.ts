@@ -0,0 +1,122 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { of } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { APIService } from '../../../core/services/api.service';
+import { DatastoreService } from '../../../core/services/datastore.service';
+import { UserType, Validation } from '../../../shared/constants/app.constants';
+import { environment } from '../../../../environments/environment';
+import { FamilyMembershipMockService } from './family-membership-mock.service';
+
+/**
+ * Membership verification request payload
+ */
+export interface FamilyMembershipRequest {
+  type: 'CARD' | 'PHONE';
+  value: string;
+}
+
+/**
+ * Membership verification response
+ */
+export interface FamilyMembershipResponse {
+  isMember: boolean;
+  memberId?: string;
+}
+
+/**
+ * Membership verification error types
+ */
+export type FamilyMembershipError = 'INVALID_FORMAT' | 'NOT_FOUND' | 'GENERAL';
+
+/**
+ * Family Membership Service
+ * Verifies IKEA Family membership and remembers the result
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FamilyMembershipService {
+  // Private state
+  private _isFamilyMember = signal<boolean>(false);
+  private _memberId = signal<string | null>(null);
+  private _isVerifying = signal<boolean>(false);
+  private _verificationError = signal<FamilyMembershipError | null>(null);
+
+  // Public readonly signals
+  readonly isFamilyMember = this._isFamilyMember.asReadonly();
+  readonly memberId = this._memberId.asReadonly();
+  readonly isVerifying = this._isVerifying.asReadonly();
+  readonly verificationError = this._verificationError.asReadonly();
+
+  // Computed signals
+  readonly userType = computed<UserType.Type>(() =>
+    this._isFamilyMember() ? UserType.FAMILY_MEMBER : UserType.NON_MEMBER
+  );
+
+  private useMock = environment.features.mockApiResponses;
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService,
+    private datastore: DatastoreService,
+    private mockService: FamilyMembershipMockService
+  ) {
+    this._isFamilyMember.set(this.datastore.isFamilyMember());
+  }
+
+  /**
+   * Verify a Family card number or phone number against the membership endpoint
+   */
+  verify(type: 'CARD' | 'PHONE', value: string): void {
+    const normalized = value.replace(/[\s-]/g, '');
+    const pattern = type === 'CARD' ? Validation.FAMILY_CARD_PATTERN : Validation.PHONE_PATTERN;
+
+    if (!pattern.test(normalized)) {
+      this._verificationError.set('INVALID_FORMAT');
+      return;
+    }
+
+    const request: FamilyMembershipRequest = { type, value: normalized };
+    this._isVerifying.set(true);
+    this._verificationError.set(null);
+
+    const source$ = this.useMock
+      ? this.mockService.verify(request)
+      : this.http.post<FamilyMembershipResponse>(this.api.familyMembership, request);
+
+    source$
+      .pipe(
+        catchError(error => {
+          console.error('Family membership verification error:', error);
+          this._verificationError.set('GENERAL');
+          return of(null);
+        })
+      )
+      .subscribe(response => {
+        this._isVerifying.set(false);
+        if (!response) {
+          return;
+        }
+
+        if (!response.isMember) {
+          this._verificationError.set('NOT_FOUND');
+          return;
+        }
+
+        this._isFamilyMember.set(true);
+        this._memberId.set(response.memberId || null);
+        this.datastore.setFamilyMemberStatus(true);
+      });
+  }
+
+  /**
+   * Forget the verified membership
+   */
+  clearMembership(): void {
+    this._isFamilyMember.set(false);
+    this._memberId.set(null);
+    this._verificationError.set(null);
+    this.datastore.setFamilyMemberStatus(false);
+  }
+}
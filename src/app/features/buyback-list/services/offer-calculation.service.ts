@@ -0,0 +1,99 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { APIService } from '../../../core/services/api.service';
+import { BuybackItem } from '../../../shared/interfaces/product.interface';
+import { environment } from '../../../../environments/environment';
+import { OfferMockService } from './offer-mock.service';
+
+/**
+ * Offer calculation request payload
+ */
+export interface OfferCalculationRequest {
+  items: OfferLineRequest[];
+}
+
+/**
+ * Individual line in an offer calculation request
+ */
+export interface OfferLineRequest {
+  itemId: string;
+  productId: string;
+  condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED';
+  quantity: number;
+}
+
+/**
+ * Server-priced line of an offer
+ */
+export interface OfferLine {
+  itemId: string;
+  productId: string;
+  condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED';
+  quantity: number;
+  unitPrice: number;
+  unitFamilyPrice: number;
+  lineTotal: number;
+  lineFamilyTotal: number;
+}
+
+/**
+ * Offer calculation response
+ */
+export interface OfferCalculation {
+  lines: OfferLine[];
+  totalValue: number;
+  totalFamilyValue: number;
+  calculatedAt: Date;
+}
+
+/**
+ * Offer Calculation Service
+ * Prices buyback items with the offerCalculation endpoint
+ *
+ * Keeps no state, so any feature can price its own items: OfferService for
+ * the customer's list, CheckInService for lines re-graded at the store.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfferCalculationService {
+  private useMock = environment.features.mockApiResponses;
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService,
+    private mockService: OfferMockService
+  ) {}
+
+  /**
+   * Request an offer for the given items
+   * Emits null for an empty list or when the calculation fails
+   */
+  calculate(items: BuybackItem[]): Observable<OfferCalculation | null> {
+    if (items.length === 0) {
+      return of(null);
+    }
+
+    const request: OfferCalculationRequest = {
+      items: items.map(item => ({
+        itemId: item.id,
+        productId: item.product.id,
+        condition: item.condition,
+        quantity: item.quantity
+      }))
+    };
+
+    const source$ = this.useMock
+      ? this.mockService.calculate(request)
+      : this.http.post<OfferCalculation>(this.api.offerCalculation, request);
+
+    return source$.pipe(
+      catchError(error => {
+        console.error('Offer calculation error:', error);
+        return of(null);
+      })
+    );
+  }
+}
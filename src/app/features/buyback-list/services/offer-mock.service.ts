@@ -0,0 +1,52 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay } from 'rxjs';
+import { OfferCalculation, OfferCalculationRequest, OfferLine } from './offer-calculation.service';
+import { ProductMockService } from '../../product-discovery/services/product-mock.service';
+
+/**
+ * Offer Mock Service
+ * Local stand-in for the offerCalculation endpoint, used when
+ * environment.features.mockApiResponses is enabled.
+ * Prices come from the mock catalogue, not from the client's cached items.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfferMockService {
+  constructor(private productMock: ProductMockService) {}
+
+  /**
+   * Price each line against the mock catalogue
+   */
+  calculate(request: OfferCalculationRequest): Observable<OfferCalculation> {
+    const lines: OfferLine[] = [];
+
+    for (const item of request.items) {
+      const conditionPrice = this.productMock
+        .findProduct(item.productId)
+        ?.conditions.find(c => c.condition === item.condition);
+
+      if (!conditionPrice) {
+        continue;
+      }
+
+      lines.push({
+        itemId: item.itemId,
+        productId: item.productId,
+        condition: item.condition,
+        quantity: item.quantity,
+        unitPrice: conditionPrice.price,
+        unitFamilyPrice: conditionPrice.familyMemberPrice,
+        lineTotal: conditionPrice.price * item.quantity,
+        lineFamilyTotal: conditionPrice.familyMemberPrice * item.quantity
+      });
+    }
+
+    return of({
+      lines,
+      totalValue: lines.reduce((sum, line) => sum + line.lineTotal, 0),
+      totalFamilyValue: lines.reduce((sum, line) => sum + line.lineFamilyTotal, 0),
+      calculatedAt: new Date()
+    }).pipe(delay(300));
+  }
+}
@@ -0,0 +1,188 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { defer, merge, Observable, Subject } from 'rxjs';
+import { debounceTime, finalize, map, switchMap } from 'rxjs/operators';
+import { BuybackItem } from '../../../shared/interfaces/product.interface';
+import { Timings } from '../../../shared/constants/app.constants';
+import { BuybackListService } from './buyback-list.service';
+import { FamilyMembershipService } from './family-membership.service';
+import { OfferCalculation, OfferCalculationService, OfferLine } from './offer-calculation.service';
+
+/**
+ * Difference between a locally cached price and the server offer
+ */
+export interface OfferPriceDifference {
+  itemId: string;
+  cachedPrice: number;
+  offeredPrice: number;
+  cachedFamilyPrice: number;
+  offeredFamilyPrice: number;
+}
+
+/**
+ * Offer Service
+ * Requests the authoritative offer for the buyback list from the
+ * offerCalculation endpoint (see OfferCalculationService) whenever the
+ * list changes
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfferService {
+  // Private state
+  private _offer = signal<OfferCalculation | null>(null);
+  private _isCalculating = signal<boolean>(false);
+
+  // Public readonly signals
+  readonly offer = this._offer.asReadonly();
+  readonly isCalculating = this._isCalculating.asReadonly();
+
+  // Offer matches the current list (same lines, conditions and quantities)
+  readonly isOfferCurrent = computed(() => {
+    const offer = this._offer();
+    const items = this.buybackService.items();
+    if (!offer || offer.lines.length !== items.length) {
+      return false;
+    }
+    return items.every(item => {
+      const line = offer.lines.find(l => l.itemId === item.id);
+      return !!line && line.condition === item.condition && line.quantity === item.quantity;
+    });
+  });
+
+  // List items carrying the server unit prices of their current condition, where offered
+  readonly pricedItems = computed<BuybackItem[]>(() =>
+    this.buybackService.items().map(item => {
+      const line = this.getLine(item);
+      return line
+        ? { ...item, price: line.unitPrice, familyMemberPrice: line.unitFamilyPrice }
+        : item;
+    })
+  );
+
+  // Server totals when current, otherwise server unit prices applied to current quantities
+  readonly totalValue = computed(() => {
+    const offer = this._offer();
+    if (offer && this.isOfferCurrent()) {
+      return offer.totalValue;
+    }
+    return this.pricedItems().reduce((sum, item) => sum + item.price * item.quantity, 0);
+  });
+
+  readonly totalFamilyValue = computed(() => {
+    const offer = this._offer();
+    if (offer && this.isOfferCurrent()) {
+      return offer.totalFamilyValue;
+    }
+    return this.pricedItems().reduce((sum, item) => sum + item.familyMemberPrice * item.quantity, 0);
+  });
+
+  // Total the customer gets - family total for verified IKEA Family members
+  readonly appliedTotal = computed(() =>
+    this.familyMembership.isFamilyMember() ? this.totalFamilyValue() : this.totalValue()
+  );
+
+  readonly priceDifferences = computed<OfferPriceDifference[]>(() => {
+    const offer = this._offer();
+    if (!offer) {
+      return [];
+    }
+
+    return this.buybackService.items().flatMap(item => {
+      const line = this.getLine(item);
+      if (!line || (line.unitPrice === item.price && line.unitFamilyPrice === item.familyMemberPrice)) {
+        return [];
+      }
+      return [{
+        itemId: item.id,
+        cachedPrice: item.price,
+        offeredPrice: line.unitPrice,
+        cachedFamilyPrice: item.familyMemberPrice,
+        offeredFamilyPrice: line.unitFamilyPrice
+      }];
+    });
+  });
+
+  readonly hasPriceDifferences = computed(() => this.priceDifferences().length > 0);
+
+  private refreshRequests = new Subject<void>();
+
+  constructor(
+    private buybackService: BuybackListService,
+    private familyMembership: FamilyMembershipService,
+    private offerCalculation: OfferCalculationService
+  ) {
+    merge(
+      toObservable(this.buybackService.items),
+      this.refreshRequests.pipe(map(() => this.buybackService.items()))
+    )
+      .pipe(
+        debounceTime(Timings.SEARCH_DEBOUNCE),
+        switchMap(items => this.calculate(items))
+      )
+      .subscribe(offer => {
+        this._offer.set(offer);
+        if (offer) {
+          this.repriceStaleItems(offer);
+        }
+      });
+  }
+
+  /**
+   * Request a fresh offer for the current list (e.g. when a price lock runs out)
+   */
+  refresh(): void {
+    this.refreshRequests.next();
+  }
+
+  /**
+   * Get the server-priced line for a buyback item
+   * A line priced for another condition no longer applies to the item
+   */
+  getLine(item: BuybackItem): OfferLine | undefined {
+    return this._offer()?.lines.find(line => line.itemId === item.id && line.condition === item.condition);
+  }
+
+  /**
+   * Get the line total the customer gets, using the server offer price when available
+   */
+  getLineTotal(item: BuybackItem): number {
+    const line = this.getLine(item);
+    const unitPrice = this.familyMembership.isFamilyMember()
+      ? line?.unitFamilyPrice ?? item.familyMemberPrice
+      : line?.unitPrice ?? item.price;
+    return unitPrice * item.quantity;
+  }
+
+  /**
+   * Get the price difference for a buyback item, if any
+   */
+  getPriceDifference(itemId: string): OfferPriceDifference | undefined {
+    return this.priceDifferences().find(diff => diff.itemId === itemId);
+  }
+
+  /**
+   * Move items with an expired price lock onto the offered prices
+   */
+  private repriceStaleItems(offer: OfferCalculation): void {
+    const prices = this.buybackService.getStaleItems().flatMap(item => {
+      const line = offer.lines.find(l => l.itemId === item.id && l.condition === item.condition);
+      return line
+        ? [{ itemId: item.id, price: line.unitPrice, familyMemberPrice: line.unitFamilyPrice }]
+        : [];
+    });
+    this.buybackService.repriceItems(prices);
+  }
+
+  /**
+   * Request an offer for the list
+   * isCalculating is only set while the request is subscribed, so a request
+   * cancelled by switchMap resets it too
+   */
+  private calculate(items: BuybackItem[]): Observable<OfferCalculation | null> {
+    return defer(() => {
+      this._isCalculating.set(true);
+      return this.offerCalculation.calculate(items);
+    }).pipe(finalize(() => this._isCalculating.set(false)));
+  }
+}
@@ -0,0 +1,177 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, Subject } from 'rxjs';
+import { catchError, finalize, map, shareReplay, switchMap, take } from 'rxjs/operators';
+import { BuybackPhoto } from '../../../shared/interfaces/product.interface';
+import { PhotoStorage } from '../../../shared/constants/app.constants';
+
+/**
+ * Photo Store Service
+ * Keeps condition photos in IndexedDB, by photo id
+ *
+ * Compressed photos are far too large for localStorage, so the saved list
+ * only refers to them by id (see BuybackListService). Photos saved or read
+ * this session are also kept in memory. Without IndexedDB (e.g. some private
+ * browsing modes) photos are kept in memory only and are lost on reload.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PhotoStoreService {
+  // Photos saved or read this session, by id
+  private cache = new Map<string, BuybackPhoto>();
+
+  // Photo writes not committed yet
+  private pendingWrites = 0;
+  private writesSettled = new Subject<void>();
+
+  // Opened once, null when IndexedDB is not available
+  private database$: Observable<IDBDatabase | null> = this.openDatabase().pipe(
+    catchError(error => {
+      console.error('Photo storage is not available, photos will not be kept:', error);
+      return of(null);
+    }),
+    shareReplay(1)
+  );
+
+  /**
+   * Save photos not saved yet
+   * Emits once these and earlier photos are stored, so a list referring to
+   * them is only written when other tabs can load them
+   */
+  save(photos: BuybackPhoto[]): Observable<void> {
+    const added = photos.filter(photo => !this.cache.has(photo.id));
+    if (added.length > 0) {
+      added.forEach(photo => this.cache.set(photo.id, photo));
+      this.pendingWrites++;
+      this.database$
+        .pipe(
+          switchMap(database =>
+            database ? this.write(database, store => added.forEach(photo => store.put(photo))) : of(null)
+          ),
+          finalize(() => {
+            this.pendingWrites--;
+            if (this.pendingWrites === 0) {
+              this.writesSettled.next();
+            }
+          })
+        )
+        .subscribe({ error: error => console.error('Error saving photos:', error) });
+    }
+
+    return this.pendingWrites === 0 ? of(undefined) : this.writesSettled.pipe(take(1));
+  }
+
+  /**
+   * Get saved photos by id
+   * Photos that are not found are left out
+   */
+  load(ids: string[]): Observable<BuybackPhoto[]> {
+    const missing = ids.filter(id => !this.cache.has(id));
+    const loaded$ = missing.length
+      ? this.database$.pipe(
+          switchMap(database => (database ? this.read(database, missing) : of([]))),
+          catchError(error => {
+            console.error('Error loading photos:', error);
+            return of([]);
+          })
+        )
+      : of([]);
+
+    return loaded$.pipe(
+      map(loaded => {
+        loaded.forEach(photo => this.cache.set(photo.id, photo));
+        return ids.flatMap(id => this.cache.get(id) ?? []);
+      })
+    );
+  }
+
+  /**
+   * Delete saved photos other than the given ones, e.g. photos of removed items
+   */
+  prune(keepIds: string[]): void {
+    const keep = new Set(keepIds);
+    [...this.cache.keys()].filter(id => !keep.has(id)).forEach(id => this.cache.delete(id));
+
+    this.database$
+      .pipe(
+        switchMap(database =>
+          database
+            ? this.write(database, store => {
+                const request = store.openCursor();
+                request.onsuccess = () => {
+                  const cursor = request.result;
+                  if (cursor) {
+                    if (!keep.has(String(cursor.key))) {
+                      cursor.delete();
+                    }
+                    cursor.continue();
+                  }
+                };
+              })
+            : of(null)
+        )
+      )
+      .subscribe({ error: error => console.error('Error pruning photos:', error) });
+  }
+
+  private openDatabase(): Observable<IDBDatabase | null> {
+    return new Observable<IDBDatabase | null>(subscriber => {
+      if (typeof indexedDB === 'undefined') {
+        console.error('Photo storage is not available, photos will not be kept');
+        subscriber.next(null);
+        subscriber.complete();
+        return;
+      }
+
+      const request = indexedDB.open(PhotoStorage.DATABASE, PhotoStorage.VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(PhotoStorage.STORE)) {
+          request.result.createObjectStore(PhotoStorage.STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => {
+        subscriber.next(request.result);
+        subscriber.complete();
+      };
+      request.onerror = () => subscriber.error(request.error);
+    });
+  }
+
+  /**
+   * Run writes in one transaction, completing when it is committed
+   */
+  private write(database: IDBDatabase, writes: (store: IDBObjectStore) => void): Observable<null> {
+    return new Observable<null>(subscriber => {
+      const transaction = database.transaction(PhotoStorage.STORE, 'readwrite');
+      transaction.oncomplete = () => {
+        subscriber.next(null);
+        subscriber.complete();
+      };
+      transaction.onerror = () => subscriber.error(transaction.error);
+      transaction.onabort = () => subscriber.error(transaction.error);
+      writes(transaction.objectStore(PhotoStorage.STORE));
+    });
+  }
+
+  private read(database: IDBDatabase, ids: string[]): Observable<BuybackPhoto[]> {
+    return new Observable<BuybackPhoto[]>(subscriber => {
+      const transaction = database.transaction(PhotoStorage.STORE, 'readonly');
+      const store = transaction.objectStore(PhotoStorage.STORE);
+      const photos: BuybackPhoto[] = [];
+
+      ids.forEach(id => {
+        const request = store.get(id);
+        request.onsuccess = () => {
+          if (request.result) {
+            photos.push(request.result);
+          }
+        };
+      });
+      transaction.oncomplete = () => {
+        subscriber.next(photos);
+        subscriber.complete();
+      };
+      transaction.onerror = () => subscriber.error(transaction.error);
+    });
+  }
+}
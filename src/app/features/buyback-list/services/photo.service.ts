@@ -0,0 +1,95 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { BuybackPhoto } from '../../../shared/interfaces/product.interface';
+import { Files } from '../../../shared/constants/app.constants';
+
+/**
+ * Photo validation error types
+ */
+export type PhotoValidationError = 'UNSUPPORTED_TYPE' | 'TOO_LARGE';
+
+/**
+ * Photo Service
+ * Validates and compresses condition photos on the client before upload
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PhotoService {
+  /**
+   * Validate a selected file against the Files constants
+   */
+  validate(file: File): PhotoValidationError | null {
+    if (!Files.ALLOWED_IMAGE_TYPES.includes(file.type)) {
+      return 'UNSUPPORTED_TYPE';
+    }
+    if (file.size > Files.MAX_FILE_SIZE) {
+      return 'TOO_LARGE';
+    }
+    return null;
+  }
+
+  /**
+   * Downscale a photo and re-encode it as JPEG
+   */
+  compress(file: File): Observable<BuybackPhoto> {
+    return new Observable<BuybackPhoto>(subscriber => {
+      const reader = new FileReader();
+      const image = new Image();
+
+      image.onload = () => {
+        const scale = Math.min(1, Files.PHOTO_MAX_DIMENSION / Math.max(image.width, image.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+
+        const context = canvas.getContext('2d');
+        if (!context) {
+          subscriber.error(new Error('Canvas is not supported'));
+          return;
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+        const dataUrl = canvas.toDataURL('image/jpeg', Files.PHOTO_QUALITY);
+        subscriber.next({
+          id: this.generateId(),
+          fileName: `${file.name.replace(/\.[^.]+$/, '')}.jpg`,
+          dataUrl,
+          size: this.toBlob(dataUrl).size
+        });
+        subscriber.complete();
+      };
+      image.onerror = () => subscriber.error(new Error(`Unable to read image ${file.name}`));
+      reader.onload = () => (image.src = reader.result as string);
+      reader.onerror = () => subscriber.error(reader.error);
+
+      reader.readAsDataURL(file);
+
+      return () => {
+        reader.onload = null;
+        image.onload = null;
+      };
+    });
+  }
+
+  /**
+   * Convert a compressed photo back to a Blob for multipart upload
+   */
+  toBlob(dataUrl: string): Blob {
+    const [header, data] = dataUrl.split(',');
+    const mimeType = header.match(/data:(.*?);/)?.[1] || 'image/jpeg';
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+  }
+
+  /**
+   * Generate unique ID
+   */
+  private generateId(): string {
+    return `photo_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay } from 'rxjs';
+import { DatastoreService } from '../../../core/services/datastore.service';
+import { ListSharing, StorageKeys, Timings } from '../../../shared/constants/app.constants';
+import { SharedListContent, SharedListRequest, SharedListResponse } from './shared-list.service';
+
+/**
+ * Shared List Mock Service
+ * Local stand-in for the sharedLists endpoint, used when
+ * environment.features.mockApiResponses is enabled.
+ * Lists are kept in this browser's localStorage, so links only open in the
+ * same browser (e.g. another tab).
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SharedListMockService {
+  constructor(private datastore: DatastoreService) {}
+
+  /**
+   * Save a list under a new token
+   */
+  save(request: SharedListRequest): Observable<SharedListResponse> {
+    const expiresAt = new Date(Date.now() + Timings.SHARED_LIST_VALIDITY).toISOString();
+    const token = this.generateToken();
+
+    this.datastore.setItem(StorageKeys.MOCK_SHARED_LISTS, {
+      ...this.getActiveLists(),
+      [token]: { items: request.items, expiresAt }
+    });
+
+    return of({ token, expiresAt }).pipe(delay(500));
+  }
+
+  /**
+   * Get a saved list, null when the token is unknown or expired
+   */
+  get(token: string): Observable<SharedListContent | null> {
+    return of(this.getActiveLists()[token] ?? null).pipe(delay(500));
+  }
+
+  private getActiveLists(): Record<string, SharedListContent> {
+    const lists = this.datastore.getItem<Record<string, SharedListContent>>(StorageKeys.MOCK_SHARED_LISTS, {})!;
+    return Object.fromEntries(
+      Object.entries(lists).filter(([, list]) => new Date(list.expiresAt).getTime() > Date.now())
+    );
+  }
+
+  private generateToken(): string {
+    return Array.from(
+      { length: ListSharing.TOKEN_LENGTH },
+      () => ListSharing.TOKEN_ALPHABET[Math.floor(Math.random() * ListSharing.TOKEN_ALPHABET.length)]
+    ).join('');
+  }
+}
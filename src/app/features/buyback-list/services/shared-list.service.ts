@@ -0,0 +1,141 @@
+import { Injectable, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Location } from '@angular/common';
+import { Router } from '@angular/router';
+import { Observable, of } from 'rxjs';
+import { catchError, switchMap } from 'rxjs/operators';
+import { APIService } from '../../../core/services/api.service';
+import { BuybackItem } from '../../../shared/interfaces/product.interface';
+import { Routes } from '../../../shared/constants/routes.constants';
+import { environment } from '../../../../environments/environment';
+import { BuybackListService, StoredBuybackItem } from './buyback-list.service';
+import { SharedListMockService } from './shared-list-mock.service';
+
+/**
+ * Shared list save request payload
+ */
+export interface SharedListRequest {
+  items: StoredBuybackItem[];
+}
+
+/**
+ * Shared list save response
+ */
+export interface SharedListResponse {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Saved shared list - items are checked when restored
+ */
+export interface SharedListContent {
+  items: unknown;
+  expiresAt: string;
+}
+
+/**
+ * Link to a saved list
+ */
+export interface SharedList {
+  token: string;
+  url: string;
+  expiresAt: Date;
+}
+
+/**
+ * Shared List Service
+ * Saves the buyback list server-side under a short token, so it can be
+ * opened on another device from a link or QR code
+ * (`/buy-back-quote/list/{token}`), and loads shared lists
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SharedListService {
+  // Private state
+  private _sharedList = signal<SharedList | null>(null);
+  private _isSharing = signal<boolean>(false);
+  private _hasShareError = signal<boolean>(false);
+
+  // Public readonly signals
+  readonly sharedList = this._sharedList.asReadonly();
+  readonly isSharing = this._isSharing.asReadonly();
+  readonly hasShareError = this._hasShareError.asReadonly();
+
+  private useMock = environment.features.mockApiResponses;
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService,
+    private router: Router,
+    private location: Location,
+    private buybackService: BuybackListService,
+    private mockService: SharedListMockService
+  ) {}
+
+  /**
+   * Save the current list and create its link
+   */
+  share(): void {
+    // Photos stay on this device
+    const items = this.buybackService.getStoredItems().map(({ photos, ...item }) => item);
+    const request: SharedListRequest = { items };
+    this._isSharing.set(true);
+    this._hasShareError.set(false);
+    this._sharedList.set(null);
+
+    const source$ = this.useMock
+      ? this.mockService.save(request)
+      : this.http.post<SharedListResponse>(this.api.sharedLists, request);
+
+    source$
+      .pipe(
+        catchError(error => {
+          console.error('List sharing error:', error);
+          return of(null);
+        })
+      )
+      .subscribe(response => {
+        this._isSharing.set(false);
+        if (!response) {
+          this._hasShareError.set(true);
+          return;
+        }
+
+        this._sharedList.set({
+          token: response.token,
+          url: this.getShareUrl(response.token),
+          expiresAt: new Date(response.expiresAt)
+        });
+      });
+  }
+
+  /**
+   * Load a shared list as buyback items
+   * Returns null when the token is unknown or expired
+   */
+  load(token: string): Observable<BuybackItem[] | null> {
+    const source$ = this.useMock
+      ? this.mockService.get(token)
+      : this.http.get<SharedListContent>(`${this.api.sharedLists}/${encodeURIComponent(token)}`);
+
+    return source$.pipe(
+      switchMap(content => (content ? this.buybackService.restoreItems(content.items) : of(null))),
+      catchError(error => {
+        console.error('Shared list loading error:', error);
+        return of(null);
+      })
+    );
+  }
+
+  /**
+   * Absolute link that opens a shared list, including the market and language
+   */
+  getShareUrl(token: string): string {
+    const path = this.router.serializeUrl(
+      this.router.createUrlTree(['/', Routes.BUYBACK_QUOTE, Routes.SHARED_LIST, token])
+    );
+    return `${window.location.origin}${this.location.prepareExternalUrl(path)}`;
+  }
+}
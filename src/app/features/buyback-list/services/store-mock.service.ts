@@ -0,0 +1,63 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay } from 'rxjs';
+import { OpeningHours, Store } from '../../../shared/interfaces/store.interface';
+import { SupportedMarket } from '../../../shared/interfaces/locale-config.interface';
+
+/**
+ * Store Mock Service
+ * Local stand-in for the stores endpoint, used when
+ * environment.features.mockApiResponses is enabled
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StoreMockService {
+  private mockStores: Store[] = [
+    {
+      id: 'sa-riyadh',
+      market: 'sa',
+      name: { en: 'IKEA Riyadh', ar: 'ايكيا الرياض' },
+      address: { en: 'Eastern Ring Road, Exit 10, Riyadh', ar: 'الطريق الدائري الشرقي، مخرج 10، الرياض' },
+      openingHours: this.weeklyHours('10:00', '23:00'),
+      hasBuybackDesk: true
+    },
+    {
+      id: 'sa-jeddah',
+      market: 'sa',
+      name: { en: 'IKEA Jeddah', ar: 'ايكيا جدة' },
+      address: { en: 'Madinah Road, Jeddah', ar: 'طريق المدينة، جدة' },
+      openingHours: this.weeklyHours('10:00', '23:00'),
+      hasBuybackDesk: true
+    },
+    {
+      id: 'sa-dammam',
+      market: 'sa',
+      name: { en: 'IKEA Dammam', ar: 'ايكيا الدمام' },
+      address: { en: 'King Saud Road, Dammam', ar: 'طريق الملك سعود، الدمام' },
+      openingHours: this.weeklyHours('10:00', '23:00'),
+      hasBuybackDesk: false
+    },
+    {
+      id: 'bh-salmabad',
+      market: 'bh',
+      name: { en: 'IKEA Bahrain', ar: 'ايكيا البحرين' },
+      address: { en: 'Salmabad, Kingdom of Bahrain', ar: 'سلماباد، مملكة البحرين' },
+      openingHours: this.weeklyHours('10:00', '22:00'),
+      hasBuybackDesk: true
+    }
+  ];
+
+  /**
+   * Get stores for a market
+   */
+  getStores(market: SupportedMarket): Observable<Store[]> {
+    return of(this.mockStores.filter(store => store.market === market)).pipe(delay(200));
+  }
+
+  /**
+   * Same opening hours every day of the week
+   */
+  private weeklyHours(opens: string, closes: string): OpeningHours[] {
+    return [0, 1, 2, 3, 4, 5, 6].map(day => ({ day, opens, closes }));
+  }
+}
@@ -0,0 +1,134 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { of } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { APIService } from '../../../core/services/api.service';
+import { DatastoreService } from '../../../core/services/datastore.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { CommonErrorModalService } from '../../../shared/components/common-error-modal/common-error-modal.service';
+import { Store, OpeningHours } from '../../../shared/interfaces/store.interface';
+import { errorCase } from '../../../shared/constants/app.constants';
+import { environment } from '../../../../environments/environment';
+import { StoreMockService } from './store-mock.service';
+
+/**
+ * Store Service
+ * Loads the stores of the current market and tracks the user's store choice
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StoreService {
+  // Private state
+  private _stores = signal<Store[]>([]);
+  private _selectedStoreId = signal<string | null>(null);
+  private _isLoading = signal<boolean>(false);
+
+  // Public readonly signals
+  readonly stores = this._stores.asReadonly();
+  readonly selectedStoreId = this._selectedStoreId.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+
+  // Computed signals
+  readonly selectedStore = computed(() =>
+    this._stores().find(store => store.id === this._selectedStoreId()) || null
+  );
+
+  private useMock = environment.features.mockApiResponses;
+  private hasLoaded = false;
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService,
+    private datastore: DatastoreService,
+    private locale: LocaleService,
+    private modalService: CommonErrorModalService,
+    private mockService: StoreMockService
+  ) {}
+
+  /**
+   * Load stores for the current market (once per session)
+   * Restores the previously selected store afterwards
+   */
+  loadStores(): void {
+    if (this.hasLoaded || this._isLoading()) {
+      return;
+    }
+
+    const market = this.locale.currentMarket();
+    this._isLoading.set(true);
+
+    const source$ = this.useMock
+      ? this.mockService.getStores(market)
+      : this.http.get<Store[]>(this.api.stores, { params: new HttpParams().set('market', market) });
+
+    source$
+      .pipe(
+        catchError(error => {
+          console.error('Store loading error:', error);
+          return of(null);
+        })
+      )
+      .subscribe(stores => {
+        this._isLoading.set(false);
+        if (!stores) {
+          return;
+        }
+        this.hasLoaded = true;
+        this._stores.set(stores.filter(store => store.market === market));
+        this.restoreSelectedStore();
+      });
+  }
+
+  /**
+   * Select a store and remember it for the next visit
+   */
+  selectStore(storeId: string | null): void {
+    this._selectedStoreId.set(storeId);
+    if (storeId) {
+      this.datastore.setSelectedStore(storeId);
+    } else {
+      this.datastore.clearSelectedStore();
+    }
+  }
+
+  /**
+   * Get store name in the current language
+   */
+  getStoreName(store: Store): string {
+    return store.name[this.locale.currentLanguage()] || store.name.en;
+  }
+
+  /**
+   * Get store address in the current language
+   */
+  getStoreAddress(store: Store): string {
+    return store.address[this.locale.currentLanguage()] || store.address.en;
+  }
+
+  /**
+   * Get today's opening hours for a store
+   */
+  getTodayOpeningHours(store: Store): OpeningHours | undefined {
+    const today = new Date().getDay();
+    return store.openingHours.find(hours => hours.day === today);
+  }
+
+  /**
+   * Pre-select the saved store, or tell the user it is no longer available
+   */
+  private restoreSelectedStore(): void {
+    const savedStoreId = this.datastore.getSelectedStore();
+    if (!savedStoreId) {
+      return;
+    }
+
+    const savedStore = this._stores().find(store => store.id === savedStoreId);
+    if (savedStore && savedStore.hasBuybackDesk) {
+      this._selectedStoreId.set(savedStoreId);
+    } else {
+      this.selectStore(null);
+      this.modalService.openErrorDialog(errorCase.STORE_NOT_FOUND);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay } from 'rxjs';
+import { SubmissionRequest, SubmissionResponse } from './submission.service';
+import { CheckInCodeMockService } from '../../quotations/services/check-in-code-mock.service';
+
+/**
+ * Submission Mock Service
+ * Local stand-in for the submissions endpoint, used when
+ * environment.features.mockApiResponses is enabled
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SubmissionMockService {
+  constructor(private checkInCodeMock: CheckInCodeMockService) {}
+
+  /**
+   * Simulate a successful submission
+   */
+  submit(request: SubmissionRequest): Observable<SubmissionResponse> {
+    const confirmationNumber = `BYB-${Math.floor(100000 + Math.random() * 900000)}`;
+    const mockResponse: SubmissionResponse = {
+      success: true,
+      submissionId: `SUB-${Date.now()}`,
+      confirmationNumber,
+      message: 'Buyback submission successful',
+      checkInCode: this.checkInCodeMock.issue(confirmationNumber)
+    };
+
+    // 1 second delay to simulate network request
+    return of(mockResponse).pipe(delay(1000));
+  }
+}
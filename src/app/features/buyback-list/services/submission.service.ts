@@ -1,9 +1,15 @@
 import { Injectable, signal } from '@angular/core';
 import { HttpClient } from '@angular/common/http';
-import { Observable, throwError, of, delay } from 'rxjs';
-import { catchError, tap } from 'rxjs/operators';
+import { Observable, throwError } from 'rxjs';
+import { catchError, map, tap } from 'rxjs/operators';
 import { APIService } from '../../../core/services/api.service';
-import { BuybackItem } from '../../../shared/interfaces/product.interface';
+import { DatastoreService } from '../../../core/services/datastore.service';
+import { BuybackItem, ConditionAssessment } from '../../../shared/interfaces/product.interface';
+import { Quotation } from '../../../shared/interfaces/quotation.interface';
+import { QuotationStatus, UserType, Validation } from '../../../shared/constants/app.constants';
+import { environment } from '../../../../environments/environment';
+import { SubmissionMockService } from './submission-mock.service';
+import { PhotoService } from './photo.service';
 
 /**
  * Submission request payload
@@ -13,7 +19,10 @@ export interface SubmissionRequest {
   storeId: string;
   items: SubmissionItem[];
   totalValue: number;
+  userType: UserType.Type;
+  familyMemberId?: string;
   submittedAt: Date;
+  photos: SubmissionPhoto[];
 }
 
 /**
@@ -24,8 +33,20 @@ export interface SubmissionItem {
   productNumber: string;
   productName: string;
   condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED';
-  price: number;
+  price: number; // price applied for the user type
   quantity: number;
+  regularPrice: number;
+  familyMemberPrice: number;
+  photos: string[]; // file names of the photo parts for this item
+  conditionAssessment?: ConditionAssessment;
+}
+
+/**
+ * Condition photo uploaded as a multipart file part
+ */
+export interface SubmissionPhoto {
+  fileName: string;
+  dataUrl: string;
 }
 
 /**
@@ -36,6 +57,20 @@ export interface SubmissionResponse {
   submissionId: string;
   confirmationNumber: string;
   message: string;
+  // Check-in code for the quotation, issued with a key only the backend holds
+  checkInCode?: string;
+}
+
+/**
+ * Raw submissions endpoint payload
+ */
+interface SubmissionApiResponse {
+  success?: boolean;
+  id?: string;
+  submissionId?: string;
+  confirmationNumber: string;
+  message?: string;
+  checkInCode?: string;
 }
 
 /**
@@ -53,32 +88,36 @@ export class SubmissionService {
   readonly isSubmitting = this._isSubmitting.asReadonly();
   readonly lastSubmission = this._lastSubmission.asReadonly();
 
+  private useMock = environment.features.mockApiResponses;
+
   constructor(
     private http: HttpClient,
-    private api: APIService
+    private api: APIService,
+    private datastore: DatastoreService,
+    private photoService: PhotoService,
+    private mockService: SubmissionMockService
   ) {}
 
   /**
    * Submit buyback request
-   * NOTE: Currently mocked - no real API call
+   * Sent as multipart (a "submission" JSON part plus one "photos" part per file)
+   * when condition photos are attached, otherwise as plain JSON.
+   * Uses the local mock when environment.features.mockApiResponses is enabled
    */
   submit(request: SubmissionRequest): Observable<SubmissionResponse> {
     this._isSubmitting.set(true);
 
-    // Mock response - replace with real API call when backend is ready
-    const mockResponse: SubmissionResponse = {
-      success: true,
-      submissionId: `SUB-${Date.now()}`,
-      confirmationNumber: `BYB-${Math.floor(100000 + Math.random() * 900000)}`,
-      message: 'Buyback submission successful'
-    };
+    const source$ = this.useMock
+      ? this.mockService.submit(request)
+      : this.http
+          .post<SubmissionApiResponse>(this.api.submissions, this.buildRequestBody(request))
+          .pipe(map(response => this.mapSubmissionResponse(response)));
 
-    // Simulate API delay
-    return of(mockResponse).pipe(
-      delay(1000), // 1 second delay to simulate network request
+    return source$.pipe(
       tap(response => {
         this._lastSubmission.set(response);
         this._isSubmitting.set(false);
+        this.datastore.setLastQuotation(this.createQuotation(request, response));
       }),
       catchError(error => {
         this._isSubmitting.set(false);
@@ -86,35 +125,92 @@ export class SubmissionService {
         return throwError(() => error);
       })
     );
+  }
+
+  /**
+   * Build the request body - multipart only when photos are attached
+   */
+  private buildRequestBody(request: SubmissionRequest): SubmissionRequest | FormData {
+    if (request.photos.length === 0) {
+      return request;
+    }
 
-    // Real API call - uncomment when backend is ready
-    // return this.http.post<SubmissionResponse>(this.api.submissions, request).pipe(
-    //   tap(response => {
-    //     this._lastSubmission.set(response);
-    //     this._isSubmitting.set(false);
-    //   }),
-    //   catchError(error => {
-    //     this._isSubmitting.set(false);
-    //     console.error('Submission error:', error);
-    //     return throwError(() => error);
-    //   })
-    // );
+    const { photos, ...submission } = request;
+    const formData = new FormData();
+    formData.append('submission', new Blob([JSON.stringify(submission)], { type: 'application/json' }));
+    photos.forEach(photo => {
+      formData.append('photos', this.photoService.toBlob(photo.dataUrl), photo.fileName);
+    });
+    return formData;
+  }
+
+  /**
+   * Map the submissions endpoint payload to a SubmissionResponse
+   */
+  private mapSubmissionResponse(response: SubmissionApiResponse): SubmissionResponse {
+    return {
+      success: response.success ?? true,
+      submissionId: response.submissionId ?? response.id,
+      confirmationNumber: response.confirmationNumber,
+      message: response.message ?? '',
+      checkInCode: response.checkInCode
+    };
+  }
+
+  /**
+   * Build the quotation record kept for "My quotations"
+   */
+  private createQuotation(request: SubmissionRequest, response: SubmissionResponse): Quotation {
+    const createdAt = new Date(request.submittedAt);
+    const expiresAt = new Date(createdAt);
+    expiresAt.setDate(expiresAt.getDate() + Validation.QUOTATION_VALIDITY_DAYS);
+
+    return {
+      confirmationNumber: response.confirmationNumber,
+      email: request.email,
+      storeId: request.storeId,
+      status: QuotationStatus.SUBMITTED,
+      items: request.items,
+      totalValue: request.totalValue,
+      createdAt,
+      expiresAt,
+      userType: request.userType,
+      checkInCode: response.checkInCode
+    };
   }
 
   /**
    * Convert buyback items to submission items
+   * Pass items priced from the offer (OfferService.pricedItems) so each line
+   * matches the submitted total
    */
-  mapBuybackItemsToSubmission(items: BuybackItem[]): SubmissionItem[] {
+  mapBuybackItemsToSubmission(items: BuybackItem[], userType: UserType.Type): SubmissionItem[] {
     return items.map(item => ({
       productId: item.product.id,
       productNumber: item.product.productNumber,
       productName: item.product.name,
       condition: item.condition,
-      price: item.price,
-      quantity: item.quantity
+      price: userType === UserType.FAMILY_MEMBER ? item.familyMemberPrice : item.price,
+      quantity: item.quantity,
+      regularPrice: item.price,
+      familyMemberPrice: item.familyMemberPrice,
+      photos: (item.photos || []).map(photo => this.getPhotoFileName(item, photo.id)),
+      conditionAssessment: item.conditionAssessment
     }));
   }
 
+  /**
+   * Collect the condition photos of all items
+   */
+  mapBuybackItemsToPhotos(items: BuybackItem[]): SubmissionPhoto[] {
+    return items.flatMap(item =>
+      (item.photos || []).map(photo => ({
+        fileName: this.getPhotoFileName(item, photo.id),
+        dataUrl: photo.dataUrl
+      }))
+    );
+  }
+
   /**
    * Create submission request from buyback data
    */
@@ -122,17 +218,29 @@ export class SubmissionService {
     email: string,
     storeId: string,
     items: BuybackItem[],
-    totalValue: number
+    totalValue: number,
+    userType: UserType.Type,
+    familyMemberId?: string | null
   ): SubmissionRequest {
     return {
       email,
       storeId,
-      items: this.mapBuybackItemsToSubmission(items),
+      items: this.mapBuybackItemsToSubmission(items, userType),
       totalValue,
-      submittedAt: new Date()
+      userType,
+      familyMemberId: familyMemberId || undefined,
+      submittedAt: new Date(),
+      photos: this.mapBuybackItemsToPhotos(items)
     };
   }
 
+  /**
+   * Unique file name linking a photo part to its submission item
+   */
+  private getPhotoFileName(item: BuybackItem, photoId: string): string {
+    return `${item.product.productNumber}_${photoId}.jpg`;
+  }
+
   /**
    * Clear last submission
    */
@@ -0,0 +1,214 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, ElementRef, signal, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { take, takeUntil } from 'rxjs/operators';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import {
+  ConditionGrading,
+  ConditionSelectorComponent
+} from '../../../product-discovery/components/condition-selector/condition-selector.component';
+import { BarcodeScannerService } from '../../../product-discovery/services/barcode-scanner.service';
+import { StoreService } from '../../../buyback-list/services/store.service';
+import { CheckInLine, CheckInService } from '../../services/check-in.service';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { UtilityService } from '../../../../core/services/utility.service';
+import { QuotationStatus } from '../../../../shared/constants/app.constants';
+
+/**
+ * Check-in Component
+ * Staff page for the buy back desk (see CheckInService): find a quotation by
+ * scanning its QR code or typing the confirmation number, re-grade the items
+ * with the customer's questionnaire, record what was received and accept,
+ * reject or complete the quotation.
+ */
+@Component({
+  selector: 'app-check-in',
+  standalone: true,
+  imports: [CommonModule, ConditionSelectorComponent],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './check-in.component.html',
+  styleUrl: './check-in.component.scss'
+})
+export class CheckInComponent extends BaseComponent {
+  @ViewChild('scannerVideo') scannerVideo?: ElementRef<HTMLVideoElement>;
+  @ViewChild(ConditionSelectorComponent) conditionSelector!: ConditionSelectorComponent;
+
+  // State
+  codeInput = signal<string>('');
+  isScanning = signal<boolean>(false);
+  hasCameraError = signal<boolean>(false);
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+  quotation = computed(() => this.checkInService.quotation());
+  lines = computed(() => this.checkInService.lines());
+  isLoading = computed(() => this.checkInService.isLoading());
+  isSaving = computed(() => this.checkInService.isSaving());
+  hasSaveError = computed(() => this.checkInService.hasSaveError());
+  isEditable = computed(() => this.checkInService.isEditable());
+  nextStatuses = computed(() => this.checkInService.nextStatuses());
+  hasReceivedItems = computed(() => this.checkInService.hasReceivedItems());
+  isFamilyMember = computed(() => this.checkInService.isFamilyMember());
+  payout = computed(() => this.checkInService.payout());
+  canScan = computed(() => this.barcodeScanner.isSupported());
+
+  errorMessage = computed(() => {
+    const t = this.translations().checkIn;
+    if (this.hasCameraError()) {
+      return t.cameraUnavailable;
+    }
+    switch (this.checkInService.lookupError()) {
+      case 'INVALID_CODE': return t.invalidCode;
+      case 'NOT_FOUND': return t.notFound;
+      case 'GENERAL': return this.translations().errors.general;
+      default: return '';
+    }
+  });
+
+  storeName = computed(() => {
+    const quotation = this.quotation();
+    const store = quotation && this.storeService.stores().find(s => s.id === quotation.storeId);
+    return store ? this.storeService.getStoreName(store) : quotation?.storeId ?? '';
+  });
+
+  private scanSubscription: Subscription | null = null;
+  // Line being re-graded in the condition selector
+  private regradingItemId: string | null = null;
+
+  constructor(
+    private checkInService: CheckInService,
+    private storeService: StoreService,
+    private barcodeScanner: BarcodeScannerService,
+    private locale: LocaleService,
+    private utility: UtilityService
+  ) {
+    super();
+    this.storeService.loadStores();
+    this.checkInService.clear();
+  }
+
+  onCodeInput(event: Event): void {
+    this.codeInput.set((event.target as HTMLInputElement).value);
+    this.hasCameraError.set(false);
+  }
+
+  findQuotation(): void {
+    if (!this.codeInput().trim() || this.isLoading()) {
+      return;
+    }
+    this.stopScanning();
+    this.checkInService.lookup(this.codeInput());
+  }
+
+  /**
+   * Start the camera and look up the first code it decodes
+   */
+  startScanning(): void {
+    const video = this.scannerVideo?.nativeElement;
+    if (!video || this.isScanning()) {
+      return;
+    }
+
+    this.hasCameraError.set(false);
+    this.isScanning.set(true);
+
+    this.scanSubscription = this.barcodeScanner
+      .scan(video)
+      .pipe(take(1), takeUntil(this.ngUnSubscribe))
+      .subscribe({
+        next: code => {
+          this.codeInput.set(code);
+          this.findQuotation();
+        },
+        error: error => {
+          console.error('Barcode scanner error:', error);
+          this.stopScanning();
+          this.hasCameraError.set(true);
+        }
+      });
+  }
+
+  stopScanning(): void {
+    this.scanSubscription?.unsubscribe();
+    this.scanSubscription = null;
+    this.isScanning.set(false);
+  }
+
+  /**
+   * Grade a line again with the condition questionnaire
+   */
+  regrade(line: CheckInLine): void {
+    this.regradingItemId = line.item.id;
+    this.conditionSelector.open(line.item.product);
+  }
+
+  onGraded(grading: ConditionGrading): void {
+    if (this.regradingItemId) {
+      this.checkInService.regrade(this.regradingItemId, grading.condition, grading.conditionAssessment);
+    }
+  }
+
+  onConditionSelectorClosed(): void {
+    this.regradingItemId = null;
+  }
+
+  onQuantityChange(itemId: string, event: any): void {
+    this.checkInService.setQuantity(itemId, Number(event.detail?.value ?? event.detail));
+  }
+
+  updateStatus(status: QuotationStatus.Status): void {
+    this.checkInService.updateStatus(status);
+  }
+
+  isRegraded(line: CheckInLine): boolean {
+    return this.checkInService.isRegraded(line);
+  }
+
+  getLineTotal(line: CheckInLine): number {
+    return this.checkInService.getLineTotal(line);
+  }
+
+  getStatusLabel(status: QuotationStatus.Status): string {
+    const t = this.translations().quotations;
+    switch (status) {
+      case QuotationStatus.DRAFT: return t.statusDraft;
+      case QuotationStatus.SUBMITTED: return t.statusSubmitted;
+      case QuotationStatus.ACCEPTED: return t.statusAccepted;
+      case QuotationStatus.REJECTED: return t.statusRejected;
+      case QuotationStatus.EXPIRED: return t.statusExpired;
+      case QuotationStatus.COMPLETED: return t.statusCompleted;
+      default: return status;
+    }
+  }
+
+  /**
+   * Button label for moving the quotation to a status
+   */
+  getStatusActionLabel(status: QuotationStatus.Status): string {
+    const t = this.translations().checkIn;
+    switch (status) {
+      case QuotationStatus.ACCEPTED: return t.accept;
+      case QuotationStatus.REJECTED: return t.reject;
+      case QuotationStatus.COMPLETED: return t.complete;
+      default: return this.getStatusLabel(status);
+    }
+  }
+
+  getConditionLabel(condition: string): string {
+    const t = this.translations();
+    switch (condition) {
+      case 'LIKE_NEW': return t.conditionAssessment.likeNew;
+      case 'VERY_GOOD': return t.conditionAssessment.veryGood;
+      case 'WELL_USED': return t.conditionAssessment.wellUsed;
+      default: return condition;
+    }
+  }
+
+  formatDate(date: Date): string {
+    return this.utility.formatDate(date, 'long');
+  }
+
+  getPriceParts(price: number) {
+    return this.utility.splitPriceForSkapa(price);
+  }
+}
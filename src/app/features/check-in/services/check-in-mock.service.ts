@@ -0,0 +1,68 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, of, delay, throwError } from 'rxjs';
+import { Quotation } from '../../../shared/interfaces/quotation.interface';
+import { HttpStatus, QuotationStatus } from '../../../shared/constants/app.constants';
+import { QuotationMockService } from '../../quotations/services/quotation-mock.service';
+import { CheckInCodeMockService } from '../../quotations/services/check-in-code-mock.service';
+import { CheckInRequest } from './check-in.service';
+
+/**
+ * Check-in Mock Service
+ * Local stand-in for the staff quotation endpoints, used when
+ * environment.features.mockApiResponses is enabled.
+ * Checked-in quotations are kept by QuotationMockService, so "My quotations"
+ * shows the new status for the rest of the session.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CheckInMockService {
+  constructor(
+    private quotationMock: QuotationMockService,
+    private checkInCodeMock: CheckInCodeMockService
+  ) {}
+
+  /**
+   * Find a quotation by confirmation number, checking the scanned check-in code
+   * Fails with 400 for a code that was not issued and 404 when nothing
+   * matches, like the real endpoint
+   */
+  getQuotation(confirmationNumber: string, checkInCode?: string): Observable<Quotation> {
+    if (checkInCode && !this.checkInCodeMock.isIssued(checkInCode)) {
+      return throwError(() => new HttpErrorResponse({ status: HttpStatus.BAD_REQUEST })).pipe(delay(300));
+    }
+
+    const quotation = this.quotationMock.findQuotation(confirmationNumber);
+    if (!quotation) {
+      return throwError(() => new HttpErrorResponse({ status: HttpStatus.NOT_FOUND })).pipe(delay(300));
+    }
+    return of(quotation).pipe(delay(300));
+  }
+
+  /**
+   * Apply a check-in
+   * Fails with 409 when the quotation cannot move to the requested status
+   */
+  checkIn(confirmationNumber: string, request: CheckInRequest): Observable<Quotation> {
+    const quotation = this.quotationMock.findQuotation(confirmationNumber);
+    if (!quotation) {
+      return throwError(() => new HttpErrorResponse({ status: HttpStatus.NOT_FOUND })).pipe(delay(300));
+    }
+
+    const hasLapsed = new Date(quotation.expiresAt).getTime() < Date.now();
+    const nextStatuses = QuotationStatus.CHECK_IN_TRANSITIONS[quotation.status] ?? [];
+    if (hasLapsed || !nextStatuses.includes(request.status)) {
+      return throwError(() => new HttpErrorResponse({ status: HttpStatus.CONFLICT })).pipe(delay(300));
+    }
+
+    const updated: Quotation = {
+      ...quotation,
+      status: request.status,
+      items: request.items,
+      totalValue: request.totalValue
+    };
+    this.quotationMock.saveQuotation(updated);
+    return of(updated).pipe(delay(300));
+  }
+}
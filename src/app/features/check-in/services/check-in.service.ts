@@ -0,0 +1,411 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { toObservable } from '@angular/core/rxjs-interop';
+import { forkJoin, Observable, of } from 'rxjs';
+import { catchError, debounceTime, map, switchMap } from 'rxjs/operators';
+import { APIService } from '../../../core/services/api.service';
+import { ToasterService } from '../../../shared/components/toaster/toaster.service';
+import { BuybackItem, ConditionAssessment, Product } from '../../../shared/interfaces/product.interface';
+import { Quotation, QuotationItem } from '../../../shared/interfaces/quotation.interface';
+import { CheckInCodes, HttpStatus, QuotationStatus, Timings, toasterCases, UserType } from '../../../shared/constants/app.constants';
+import { environment } from '../../../../environments/environment';
+import { ProductService } from '../../product-discovery/services/product.service';
+import { OfferCalculation, OfferCalculationService } from '../../buyback-list/services/offer-calculation.service';
+import { QuotationService } from '../../quotations/services/quotation.service';
+import { CheckInCodeService } from '../../quotations/services/check-in-code.service';
+import { CheckInMockService } from './check-in-mock.service';
+
+/**
+ * Check-in lookup error types
+ */
+export type CheckInLookupError = 'INVALID_CODE' | 'NOT_FOUND' | 'GENERAL';
+
+/**
+ * Quotation line being checked in
+ */
+export interface CheckInLine {
+  quoted: QuotationItem;
+  // As received: the store's grading and the actual quantity
+  item: BuybackItem;
+}
+
+/**
+ * Line of a check-in request, as received at the store
+ */
+export interface CheckInItem extends QuotationItem {
+  quotedCondition: QuotationItem['condition'];
+  quotedQuantity: number;
+  conditionAssessment?: ConditionAssessment;
+}
+
+/**
+ * Check-in request payload
+ */
+export interface CheckInRequest {
+  status: QuotationStatus.Status;
+  items: CheckInItem[];
+  totalValue: number; // final payout
+}
+
+/**
+ * Check-in Service
+ * Lets a store co-worker check in a quotation at the buy back desk: look it
+ * up by confirmation number or scanned check-in code, re-grade each line,
+ * record the quantities received and move the quotation to its next status.
+ *
+ * Lines are BuybackItems, priced by the same rules as the customer's list:
+ * - A line keeps its quoted price while its grading is unchanged.
+ * - A re-graded line takes the price of its new condition, from the
+ *   offerCalculation endpoint (product condition prices until it answers).
+ * - IKEA Family members get the family price.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CheckInService {
+  // Private state
+  private _quotation = signal<Quotation | null>(null);
+  private _lines = signal<CheckInLine[]>([]);
+  private _isLoading = signal<boolean>(false);
+  private _isSaving = signal<boolean>(false);
+  private _lookupError = signal<CheckInLookupError | null>(null);
+  private _hasSaveError = signal<boolean>(false);
+  private _offer = signal<OfferCalculation | null>(null);
+
+  // Public readonly signals
+  readonly quotation = this._quotation.asReadonly();
+  readonly lines = this._lines.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly isSaving = this._isSaving.asReadonly();
+  readonly lookupError = this._lookupError.asReadonly();
+  readonly hasSaveError = this._hasSaveError.asReadonly();
+
+  // Computed signals
+  // Older quotations without a user type: family when the family prices were applied
+  readonly isFamilyMember = computed(() => {
+    const quotation = this._quotation();
+    if (!quotation) {
+      return false;
+    }
+    return quotation.userType
+      ? quotation.userType === UserType.FAMILY_MEMBER
+      : quotation.items.some(item => item.regularPrice !== undefined && item.price !== item.regularPrice);
+  });
+
+  readonly nextStatuses = computed<readonly QuotationStatus.Status[]>(() => {
+    const quotation = this._quotation();
+    return quotation ? QuotationStatus.CHECK_IN_TRANSITIONS[quotation.status] ?? [] : [];
+  });
+
+  // Lines can be changed until the quotation is completed, rejected or expired
+  readonly isEditable = computed(() => this.nextStatuses().length > 0);
+
+  readonly hasReceivedItems = computed(() => this._lines().some(line => line.item.quantity > 0));
+
+  readonly payout = computed(() =>
+    this._lines().reduce((sum, line) => sum + this.getLineTotal(line), 0)
+  );
+
+  private readonly regradedItems = computed(() =>
+    this._lines()
+      .filter(line => this.isRegraded(line) && line.item.quantity > 0)
+      .map(line => line.item)
+  );
+
+  private useMock = environment.features.mockApiResponses;
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService,
+    private productService: ProductService,
+    private offerCalculation: OfferCalculationService,
+    private quotationService: QuotationService,
+    private checkInCodeService: CheckInCodeService,
+    private toasterService: ToasterService,
+    private mockService: CheckInMockService
+  ) {
+    // Price re-graded lines with the offer endpoint, like the customer's list,
+    // without touching the customer's list state
+    toObservable(this.regradedItems)
+      .pipe(
+        debounceTime(Timings.SEARCH_DEBOUNCE),
+        switchMap(items => this.offerCalculation.calculate(items))
+      )
+      .subscribe(offer => this._offer.set(offer));
+  }
+
+  /**
+   * Look up a quotation by confirmation number or scanned check-in code
+   */
+  lookup(input: string): void {
+    this.clear();
+
+    const lookup = this.parseLookup(input);
+    if (!lookup) {
+      this._lookupError.set('INVALID_CODE');
+      return;
+    }
+
+    this._isLoading.set(true);
+
+    const { confirmationNumber, checkInCode } = lookup;
+    const source$ = this.useMock
+      ? this.mockService.getQuotation(confirmationNumber, checkInCode)
+      : this.http.get<Quotation>(`${this.api.quotations}/${encodeURIComponent(confirmationNumber)}`, {
+          params: checkInCode ? new HttpParams().set('checkInCode', checkInCode) : undefined,
+          withCredentials: true
+        });
+
+    source$
+      .pipe(
+        map(quotation => this.quotationService.mapQuotation(quotation)),
+        switchMap(quotation => this.createLines(quotation).pipe(map(lines => ({ quotation, lines })))),
+        catchError((error: HttpErrorResponse) => {
+          console.error('Check-in lookup error:', error);
+          // The endpoint answers 400 for a check-in code it did not issue
+          this._lookupError.set(
+            error.status === HttpStatus.NOT_FOUND ? 'NOT_FOUND'
+              : error.status === HttpStatus.BAD_REQUEST && checkInCode ? 'INVALID_CODE'
+              : 'GENERAL'
+          );
+          return of(null);
+        })
+      )
+      .subscribe(result => {
+        this._isLoading.set(false);
+        if (result) {
+          this._quotation.set(result.quotation);
+          this._lines.set(result.lines);
+        }
+      });
+  }
+
+  /**
+   * Re-grade a line with the store's assessment
+   * Returns false when the product has no price for the condition
+   */
+  regrade(
+    itemId: string,
+    condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED',
+    conditionAssessment?: ConditionAssessment
+  ): boolean {
+    const line = this._lines().find(l => l.item.id === itemId);
+    const conditionPrice = line?.item.product.conditions.find(c => c.condition === condition);
+    if (!line || !conditionPrice || !this.isEditable()) {
+      return false;
+    }
+
+    this.updateItem(itemId, {
+      condition,
+      price: conditionPrice.price,
+      familyMemberPrice: conditionPrice.familyMemberPrice,
+      conditionAssessment
+    });
+    return true;
+  }
+
+  /**
+   * Record the quantity received, from none up to the quoted quantity
+   */
+  setQuantity(itemId: string, quantity: number): void {
+    const line = this._lines().find(l => l.item.id === itemId);
+    if (!line || !this.isEditable()) {
+      return;
+    }
+    this.updateItem(itemId, { quantity: Math.min(Math.max(Math.round(quantity) || 0, 0), line.quoted.quantity) });
+  }
+
+  /**
+   * Save the check-in and move the quotation to the given status
+   */
+  updateStatus(status: QuotationStatus.Status): void {
+    const quotation = this._quotation();
+    if (!quotation || !this.nextStatuses().includes(status) || this._isSaving()) {
+      return;
+    }
+    // Nothing to pay out for
+    if (status === QuotationStatus.COMPLETED && !this.hasReceivedItems()) {
+      return;
+    }
+
+    const request: CheckInRequest = {
+      status,
+      items: this._lines().map(line => this.mapLineToCheckIn(line)),
+      totalValue: this.payout()
+    };
+    const confirmationNumber = encodeURIComponent(quotation.confirmationNumber);
+
+    this._isSaving.set(true);
+    this._hasSaveError.set(false);
+
+    const source$ = this.useMock
+      ? this.mockService.checkIn(quotation.confirmationNumber, request)
+      : this.http.put<Quotation>(`${this.api.quotations}/${confirmationNumber}/check-in`, request, {
+          withCredentials: true
+        });
+
+    source$
+      .pipe(
+        catchError(error => {
+          console.error('Check-in error:', error);
+          return of(null);
+        })
+      )
+      .subscribe(updated => {
+        this._isSaving.set(false);
+        if (updated) {
+          this._quotation.set(this.quotationService.mapQuotation(updated));
+          this.toasterService.openToaster(toasterCases.QUOTATION_CHECKED_IN);
+        } else {
+          this._hasSaveError.set(true);
+        }
+      });
+  }
+
+  /**
+   * Clear the current quotation
+   */
+  clear(): void {
+    this._quotation.set(null);
+    this._lines.set([]);
+    this._lookupError.set(null);
+    this._hasSaveError.set(false);
+    this._offer.set(null);
+  }
+
+  /**
+   * Check if a line was graded differently from the quotation
+   */
+  isRegraded(line: CheckInLine): boolean {
+    return line.item.condition !== line.quoted.condition;
+  }
+
+  /**
+   * Price per item paid out for a line
+   */
+  getUnitPrice(line: CheckInLine): number {
+    if (!this.isRegraded(line)) {
+      return line.quoted.price;
+    }
+    const prices = this.getRegradedPrices(line);
+    return this.isFamilyMember() ? prices.familyMemberPrice : prices.price;
+  }
+
+  /**
+   * Amount paid out for a line, for the quantity received
+   */
+  getLineTotal(line: CheckInLine): number {
+    return this.getUnitPrice(line) * line.item.quantity;
+  }
+
+  /**
+   * Confirmation number typed (with or without "#") or read from a check-in code,
+   * with the code for the endpoint to verify
+   * Null for a malformed check-in code or one for another market
+   */
+  private parseLookup(input: string): { confirmationNumber: string; checkInCode?: string } | null {
+    const value = input.trim();
+    if (value.toUpperCase().startsWith(`${CheckInCodes.FORMAT}${CheckInCodes.SEPARATOR}`)) {
+      const checkInCode = this.checkInCodeService.parse(value);
+      return checkInCode?.market === environment.market
+        ? { confirmationNumber: checkInCode.confirmationNumber, checkInCode: checkInCode.code }
+        : null;
+    }
+    const confirmationNumber = value.replace(/^#/, '').toUpperCase();
+    return confirmationNumber ? { confirmationNumber } : null;
+  }
+
+  /**
+   * One line per quotation item, starting from the quoted grading and quantity
+   */
+  private createLines(quotation: Quotation): Observable<CheckInLine[]> {
+    const productIds = [...new Set(quotation.items.map(item => item.productId))];
+    const products$ = productIds.length > 0
+      ? forkJoin(productIds.map(productId =>
+          // A product that cannot be loaded is checked in like one no longer in the catalogue
+          this.productService.getProduct(productId).pipe(catchError(() => of(null)))
+        ))
+      : of([]);
+
+    return products$.pipe(
+      map(products =>
+        quotation.items.map((quoted, index) => {
+          const product = products.find(p => p?.id === quoted.productId) ?? this.createFallbackProduct(quoted);
+          const item: BuybackItem = {
+            id: `${quotation.confirmationNumber}-${index + 1}`,
+            product,
+            condition: quoted.condition,
+            price: quoted.regularPrice ?? quoted.price,
+            familyMemberPrice: quoted.familyMemberPrice ?? quoted.price,
+            quantity: quoted.quantity,
+            addedAt: quotation.createdAt,
+            priceValidUntil: quotation.expiresAt
+          };
+          return { quoted, item };
+        })
+      )
+    );
+  }
+
+  /**
+   * Product no longer in the catalogue: it can only keep its quoted grading
+   */
+  private createFallbackProduct(quoted: QuotationItem): Product {
+    return {
+      id: quoted.productId,
+      productNumber: quoted.productNumber,
+      name: quoted.productName,
+      description: '',
+      categoryId: '',
+      categoryName: '',
+      imageUrl: '',
+      thumbnailUrl: '',
+      basePrice: 0,
+      conditions: [{
+        condition: quoted.condition,
+        price: quoted.regularPrice ?? quoted.price,
+        familyMemberPrice: quoted.familyMemberPrice ?? quoted.price,
+        description: ''
+      }],
+      isEligible: true
+    };
+  }
+
+  /**
+   * Prices per item of a re-graded line, from the offer when it has one
+   */
+  private getRegradedPrices(line: CheckInLine): { price: number; familyMemberPrice: number } {
+    const offerLine = this._offer()?.lines.find(
+      l => l.itemId === line.item.id && l.condition === line.item.condition
+    );
+    return {
+      price: offerLine?.unitPrice ?? line.item.price,
+      familyMemberPrice: offerLine?.unitFamilyPrice ?? line.item.familyMemberPrice
+    };
+  }
+
+  private mapLineToCheckIn(line: CheckInLine): CheckInItem {
+    const isRegraded = this.isRegraded(line);
+    const prices = this.getRegradedPrices(line);
+
+    return {
+      productId: line.quoted.productId,
+      productNumber: line.quoted.productNumber,
+      productName: line.quoted.productName,
+      condition: line.item.condition,
+      price: this.getUnitPrice(line),
+      quantity: line.item.quantity,
+      regularPrice: isRegraded ? prices.price : line.quoted.regularPrice,
+      familyMemberPrice: isRegraded ? prices.familyMemberPrice : line.quoted.familyMemberPrice,
+      quotedCondition: line.quoted.condition,
+      quotedQuantity: line.quoted.quantity,
+      conditionAssessment: isRegraded ? line.item.conditionAssessment : undefined
+    };
+  }
+
+  private updateItem(itemId: string, changes: Partial<BuybackItem>): void {
+    this._lines.update(lines =>
+      lines.map(line => (line.item.id === itemId ? { ...line, item: { ...line.item, ...changes } } : line))
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, ElementRef, output, signal, ViewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Subscription } from 'rxjs';
+import { filter, map, take, takeUntil } from 'rxjs/operators';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import { Product } from '../../../../shared/interfaces/product.interface';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { ProductService } from '../../services/product.service';
+import { ArticleNumberService } from '../../services/article-number.service';
+import { BarcodeScannerService } from '../../services/barcode-scanner.service';
+
+/**
+ * Article Scanner Component
+ * Modal to find a product by scanning its label or typing the article number.
+ * Emits the product so the condition selector can open straight away.
+ */
+@Component({
+  selector: 'app-article-scanner',
+  standalone: true,
+  imports: [CommonModule],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './article-scanner.component.html',
+  styleUrl: './article-scanner.component.scss'
+})
+export class ArticleScannerComponent extends BaseComponent {
+  @ViewChild('scannerVideo') scannerVideo?: ElementRef<HTMLVideoElement>;
+
+  productFound = output<Product>();
+
+  // State
+  isOpen = signal<boolean>(false);
+  articleInput = signal<string>('');
+  isScanning = signal<boolean>(false);
+  isLookingUp = signal<boolean>(false);
+  lookupError = signal<'INVALID_FORMAT' | 'NOT_FOUND' | 'CAMERA_UNAVAILABLE' | null>(null);
+  suggestions = signal<Product[]>([]);
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+  canScan = computed(() => this.barcodeScanner.isSupported());
+
+  errorMessage = computed(() => {
+    const t = this.translations().articleScanner;
+    switch (this.lookupError()) {
+      case 'INVALID_FORMAT': return t.invalidFormat;
+      case 'NOT_FOUND': return t.notFound;
+      case 'CAMERA_UNAVAILABLE': return t.cameraUnavailable;
+      default: return '';
+    }
+  });
+
+  private scanSubscription: Subscription | null = null;
+
+  constructor(
+    private locale: LocaleService,
+    private productService: ProductService,
+    private articleNumberService: ArticleNumberService,
+    private barcodeScanner: BarcodeScannerService
+  ) {
+    super();
+  }
+
+  /**
+   * Open modal
+   */
+  open(): void {
+    this.isOpen.set(true);
+  }
+
+  /**
+   * Close modal and release the camera
+   */
+  close(): void {
+    this.stopScanning();
+    this.isOpen.set(false);
+    this.articleInput.set('');
+    this.lookupError.set(null);
+    this.suggestions.set([]);
+  }
+
+  onArticleInput(event: Event): void {
+    this.articleInput.set((event.target as HTMLInputElement).value);
+    this.lookupError.set(null);
+  }
+
+  /**
+   * Validate the typed article number and look it up
+   */
+  searchArticleNumber(): void {
+    if (this.isLookingUp()) {
+      return;
+    }
+
+    const articleNumber = this.articleNumberService.normalize(this.articleInput());
+    if (!articleNumber) {
+      this.lookupError.set('INVALID_FORMAT');
+      this.suggestions.set([]);
+      return;
+    }
+
+    this.articleInput.set(articleNumber);
+    this.lookUp(articleNumber);
+  }
+
+  /**
+   * Start the camera and look up the first article number it decodes
+   */
+  startScanning(): void {
+    const video = this.scannerVideo?.nativeElement;
+    if (!video || this.isScanning()) {
+      return;
+    }
+
+    this.lookupError.set(null);
+    this.suggestions.set([]);
+    this.isScanning.set(true);
+
+    this.scanSubscription = this.barcodeScanner
+      .scan(video)
+      .pipe(
+        map(rawValue => this.articleNumberService.extract(rawValue)),
+        filter((articleNumber): articleNumber is string => !!articleNumber),
+        take(1),
+        takeUntil(this.ngUnSubscribe)
+      )
+      .subscribe({
+        next: articleNumber => {
+          this.stopScanning();
+          this.articleInput.set(articleNumber);
+          this.lookUp(articleNumber);
+        },
+        error: error => {
+          console.error('Barcode scanner error:', error);
+          this.stopScanning();
+          this.lookupError.set('CAMERA_UNAVAILABLE');
+        }
+      });
+  }
+
+  stopScanning(): void {
+    this.scanSubscription?.unsubscribe();
+    this.scanSubscription = null;
+    this.isScanning.set(false);
+  }
+
+  /**
+   * Continue with a product (exact match or a chosen suggestion)
+   */
+  selectProduct(product: Product): void {
+    this.productFound.emit(product);
+    this.close();
+  }
+
+  private lookUp(articleNumber: string): void {
+    this.isLookingUp.set(true);
+    this.lookupError.set(null);
+    this.suggestions.set([]);
+
+    this.productService
+      .findByArticleNumber(articleNumber)
+      .pipe(takeUntil(this.ngUnSubscribe))
+      .subscribe(result => {
+        this.isLookingUp.set(false);
+        if (result.product) {
+          this.selectProduct(result.product);
+        } else if (result.suggestions.length > 0) {
+          this.suggestions.set(result.suggestions);
+        } else {
+          this.lookupError.set('NOT_FOUND');
+        }
+      });
+  }
+}
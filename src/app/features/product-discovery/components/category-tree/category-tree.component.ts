@@ -4,10 +4,21 @@ import { BaseComponent } from '../../../../shared/base-classes/base.component';
 import { Category } from '../../../../shared/interfaces/product.interface';
 import { CategoryService } from '../../services/category.service';
 import { LocaleService } from '../../../../core/services/locale.service';
+import { CategoryLevel } from '../../../../shared/constants/app.constants';
+import { takeUntil } from 'rxjs/operators';
+
+/**
+ * Category column - the categories shown at one level of the tree
+ */
+interface CategoryColumn {
+  level: number;
+  parent: Category | null;
+  categories: Category[];
+}
 
 /**
  * Category Tree Component
- * Displays hierarchical category navigation
+ * Displays hierarchical category navigation, up to CategoryLevel.MAX_LEVEL deep
  * - Desktop: Side-by-side columns
  * - Mobile: Single column with back button navigation
  */
@@ -20,13 +31,11 @@ import { LocaleService } from '../../../../core/services/locale.service';
   styleUrls: ['./category-tree.component.scss']
 })
 export class CategoryTreeComponent extends BaseComponent {
-  // State - track which categories are selected at each level
-  selectedLevel1 = signal<Category | null>(null);
-  selectedLevel2 = signal<Category | null>(null);
-  selectedLevel3 = signal<Category | null>(null);
+  // State - selected category at each level (index 0 = level 1)
+  selectedPath = signal<Category[]>([]);
 
   // Mobile navigation - tracks which level is currently visible on mobile
-  mobileViewLevel = signal<number>(1); // 1, 2, or 3
+  mobileViewLevel = signal<number>(CategoryLevel.LEVEL_1);
 
   // Outputs
   categorySelected = output<Category>();
@@ -35,27 +44,30 @@ export class CategoryTreeComponent extends BaseComponent {
   translations = computed(() => this.locale.translations());
   rootCategories = computed(() => this.categoryService.rootCategories());
 
-  // Show level 2 categories when level 1 is selected
-  level2Categories = computed(() => {
-    const selected = this.selectedLevel1();
-    return selected ? this.categoryService.getChildren(selected.id) : [];
-  });
+  // One column for the root categories plus one per expanded selection
+  columns = computed<CategoryColumn[]>(() => {
+    const columns: CategoryColumn[] = [
+      { level: CategoryLevel.LEVEL_1, parent: null, categories: this.rootCategories() }
+    ];
+
+    for (const selected of this.selectedPath()) {
+      if (selected.level >= CategoryLevel.MAX_LEVEL || !this.categoryService.hasChildren(selected)) {
+        break;
+      }
+      columns.push({
+        level: selected.level + 1,
+        parent: selected,
+        categories: this.categoryService.getChildren(selected.id)
+      });
+    }
 
-  // Show level 3 categories when level 2 is selected
-  level3Categories = computed(() => {
-    const selected = this.selectedLevel2();
-    return selected ? this.categoryService.getChildren(selected.id) : [];
+    return columns;
   });
 
   // Get breadcrumb title for mobile back button
   mobileBreadcrumbTitle = computed(() => {
-    const level = this.mobileViewLevel();
-    if (level === 2) {
-      return this.selectedLevel1()?.name || '';
-    } else if (level === 3) {
-      return this.selectedLevel2()?.name || '';
-    }
-    return '';
+    const parent = this.selectedPath()[this.mobileViewLevel() - 2];
+    return parent?.name || '';
   });
 
   constructor(
@@ -66,16 +78,29 @@ export class CategoryTreeComponent extends BaseComponent {
   }
 
   /**
-   * Select level 1 category
+   * Select a category at any level
+   * Expands it (loading children lazily) or finalizes the selection for leaves
    */
-  selectLevel1Category(category: Category): void {
-    this.selectedLevel1.set(category);
-    this.selectedLevel2.set(null);
-    this.selectedLevel3.set(null);
-
-    // If has children, move to level 2 on mobile
-    if (this.categoryService.getChildren(category.id).length > 0) {
-      this.mobileViewLevel.set(2);
+  selectCategory(category: Category): void {
+    const depth = category.level - 1;
+    const previous = this.selectedPath().slice(depth);
+    previous.forEach(cat => this.categoryService.collapseCategory(cat.id));
+
+    this.selectedPath.update(path => [...path.slice(0, depth), category]);
+
+    if (this.hasChildren(category)) {
+      this.mobileViewLevel.set(category.level + 1);
+      this.categoryService
+        .expandCategory(category.id)
+        .pipe(takeUntil(this.ngUnSubscribe))
+        .subscribe(children => {
+          // Flagged as a parent but nothing to show (no children or loading failed)
+          if (children.length === 0 && this.selectedPath().at(-1)?.id === category.id) {
+            this.categoryService.collapseCategory(category.id);
+            this.mobileViewLevel.set(category.level);
+            this.finalizeSelection(category);
+          }
+        });
     } else {
       // No children, this is the final selection
       this.finalizeSelection(category);
@@ -83,46 +108,18 @@ export class CategoryTreeComponent extends BaseComponent {
   }
 
   /**
-   * Select level 2 category
+   * Navigate back to the previous level (mobile only)
    */
-  selectLevel2Category(category: Category): void {
-    this.selectedLevel2.set(category);
-    this.selectedLevel3.set(null);
-
-    // If has children, move to level 3 on mobile
-    if (this.categoryService.getChildren(category.id).length > 0) {
-      this.mobileViewLevel.set(3);
-    } else {
-      // No children, this is the final selection
-      this.finalizeSelection(category);
+  goBack(): void {
+    const level = this.mobileViewLevel();
+    if (level <= CategoryLevel.LEVEL_1) {
+      return;
     }
-  }
-
-  /**
-   * Select level 3 category
-   */
-  selectLevel3Category(category: Category): void {
-    this.selectedLevel3.set(category);
-    this.finalizeSelection(category);
-  }
-
-  /**
-   * Navigate back to previous level (mobile only)
-   */
-  goBackToLevel1(): void {
-    this.mobileViewLevel.set(1);
-    this.selectedLevel1.set(null);
-    this.selectedLevel2.set(null);
-    this.selectedLevel3.set(null);
-  }
 
-  /**
-   * Navigate back to level 2 (mobile only)
-   */
-  goBackToLevel2(): void {
-    this.mobileViewLevel.set(2);
-    this.selectedLevel2.set(null);
-    this.selectedLevel3.set(null);
+    const previousLevel = level - 1;
+    this.selectedPath().slice(previousLevel - 1).forEach(cat => this.categoryService.collapseCategory(cat.id));
+    this.selectedPath.update(path => path.slice(0, previousLevel - 1));
+    this.mobileViewLevel.set(previousLevel);
   }
 
   /**
@@ -134,30 +131,23 @@ export class CategoryTreeComponent extends BaseComponent {
   }
 
   /**
-   * Check if category is selected at level 1
+   * Check if category is selected at its level
    */
-  isLevel1Selected(category: Category): boolean {
-    return this.selectedLevel1()?.id === category.id;
+  isSelected(category: Category): boolean {
+    return this.selectedPath()[category.level - 1]?.id === category.id;
   }
 
   /**
-   * Check if category is selected at level 2
-   */
-  isLevel2Selected(category: Category): boolean {
-    return this.selectedLevel2()?.id === category.id;
-  }
-
-  /**
-   * Check if category is selected at level 3
+   * Check if category has children
    */
-  isLevel3Selected(category: Category): boolean {
-    return this.selectedLevel3()?.id === category.id;
+  hasChildren(category: Category): boolean {
+    return this.categoryService.hasChildren(category);
   }
 
   /**
-   * Check if category has children
+   * Check if a column's children are still loading
    */
-  hasChildren(category: Category): boolean {
-    return this.categoryService.getChildren(category.id).length > 0;
+  isColumnLoading(column: CategoryColumn): boolean {
+    return !!column.parent && this.categoryService.isLoadingChildren(column.parent.id);
   }
 }
@@ -1,33 +1,85 @@
-import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, signal } from '@angular/core';
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, input, output, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { BaseComponent } from '../../../../shared/base-classes/base.component';
-import { Product } from '../../../../shared/interfaces/product.interface';
+import { BuybackPhoto, ConditionAnswer, ConditionAssessment, Product } from '../../../../shared/interfaces/product.interface';
 import { LocaleService } from '../../../../core/services/locale.service';
 import { BuybackListService } from '../../../buyback-list/services/buyback-list.service';
+import { PhotoUploadComponent } from '../../../buyback-list/components/photo-upload/photo-upload.component';
+import {
+  ConditionQuestion,
+  ConditionQuestionOption,
+  ConditionQuestionnaireService
+} from '../../services/condition-questionnaire.service';
+import { ProductLocalizationService } from '../../services/product-localization.service';
 import { ToasterService } from '../../../../shared/components/toaster/toaster.service';
 import { toasterCases } from '../../../../shared/constants/app.constants';
 
+/**
+ * Grade confirmed in re-grade mode
+ */
+export interface ConditionGrading {
+  product: Product;
+  condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED';
+  conditionAssessment: ConditionAssessment;
+}
+
 /**
  * Condition Selector Component
- * Modal for selecting product condition before adding to buyback list
+ * Modal with a step-by-step condition questionnaire before adding to buyback list.
+ * The answers suggest a grade, which the user can override with a warning.
+ * Ineligible products show the reason instead and cannot be added.
+ *
+ * In 'regrade' mode (store check-in) the same questionnaire grades an item
+ * that was already quoted: the grade is emitted instead of added to the list,
+ * so customer and store grade the same way.
  */
 @Component({
   selector: 'app-condition-selector',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, PhotoUploadComponent],
   schemas: [CUSTOM_ELEMENTS_SCHEMA],
   templateUrl: './condition-selector.component.html',
   styleUrl: './condition-selector.component.scss'
 })
 export class ConditionSelectorComponent extends BaseComponent {
+  // Inputs
+  mode = input<'add' | 'regrade'>('add');
+
+  // Outputs
+  closed = output<void>();
+  graded = output<ConditionGrading>();
+
   // State
   isOpen = signal<boolean>(false);
   selectedProduct = signal<Product | null>(null);
   selectedCondition = signal<'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED' | null>(null);
+  photos = signal<BuybackPhoto[]>([]);
+  questions = signal<ConditionQuestion[]>([]);
+  currentStep = signal<number>(0);
+  answers = signal<ConditionAnswer[]>([]);
 
   // Computed
   translations = computed(() => this.locale.translations());
-  canSubmit = computed(() => this.selectedCondition() !== null);
+  isEligible = computed(() => this.selectedProduct()?.isEligible ?? true);
+  ineligibilityReason = computed(() => {
+    const product = this.selectedProduct();
+    return product ? this.localization.getIneligibilityReason(product) : '';
+  });
+  currentQuestion = computed(() => this.questions()[this.currentStep()] || null);
+  isQuestionnaireComplete = computed(() =>
+    this.questions().length > 0 && this.answers().length === this.questions().length
+  );
+  suggestedCondition = computed(() =>
+    this.isQuestionnaireComplete()
+      ? this.questionnaireService.deriveCondition(this.questions(), this.answers())
+      : null
+  );
+  isOverridden = computed(() =>
+    this.selectedCondition() !== null && this.selectedCondition() !== this.suggestedCondition()
+  );
+  canSubmit = computed(() =>
+    this.isEligible() && this.isQuestionnaireComplete() && this.selectedCondition() !== null
+  );
 
   // Condition options with local asset images
   conditions = [
@@ -54,7 +106,9 @@ export class ConditionSelectorComponent extends BaseComponent {
   constructor(
     private locale: LocaleService,
     private buybackService: BuybackListService,
-    private toasterService: ToasterService
+    private toasterService: ToasterService,
+    private questionnaireService: ConditionQuestionnaireService,
+    private localization: ProductLocalizationService
   ) {
     super();
   }
@@ -64,7 +118,9 @@ export class ConditionSelectorComponent extends BaseComponent {
    */
   open(product: Product): void {
     this.selectedProduct.set(product);
-    this.selectedCondition.set(null);
+    this.questions.set(this.questionnaireService.getQuestions(product.categoryId));
+    this.restartQuestionnaire();
+    this.photos.set([]);
     this.isOpen.set(true);
   }
 
@@ -72,9 +128,58 @@ export class ConditionSelectorComponent extends BaseComponent {
    * Close modal
    */
   close(): void {
+    if (!this.isOpen()) {
+      return;
+    }
     this.isOpen.set(false);
     this.selectedProduct.set(null);
     this.selectedCondition.set(null);
+    this.photos.set([]);
+    this.questions.set([]);
+    this.answers.set([]);
+    this.closed.emit();
+  }
+
+  /**
+   * Answer the current question and move to the next one
+   * The suggested grade is preselected once the last question is answered
+   */
+  answerQuestion(question: ConditionQuestion, option: ConditionQuestionOption): void {
+    this.answers.update(answers => [
+      ...answers.filter(answer => answer.questionId !== question.id),
+      { questionId: question.id, value: option.value }
+    ]);
+
+    if (this.currentStep() < this.questions().length - 1) {
+      this.currentStep.update(step => step + 1);
+    } else {
+      this.selectedCondition.set(this.suggestedCondition());
+    }
+  }
+
+  /**
+   * Check if an option is the current answer to a question
+   */
+  isAnswerSelected(question: ConditionQuestion, option: ConditionQuestionOption): boolean {
+    return this.answers().some(answer => answer.questionId === question.id && answer.value === option.value);
+  }
+
+  /**
+   * Go back to the previous question
+   */
+  previousQuestion(): void {
+    if (this.currentStep() > 0) {
+      this.currentStep.update(step => step - 1);
+    }
+  }
+
+  /**
+   * Start the questionnaire over
+   */
+  restartQuestionnaire(): void {
+    this.currentStep.set(0);
+    this.answers.set([]);
+    this.selectedCondition.set(null);
   }
 
   /**
@@ -85,18 +190,50 @@ export class ConditionSelectorComponent extends BaseComponent {
   }
 
   /**
-   * Confirm selection and add to buyback list
+   * Add compressed condition photos
+   */
+  onPhotosAdded(photos: BuybackPhoto[]): void {
+    this.photos.update(current => [...current, ...photos]);
+  }
+
+  /**
+   * Remove a condition photo
+   */
+  onPhotoRemoved(photoId: string): void {
+    this.photos.update(current => current.filter(photo => photo.id !== photoId));
+  }
+
+  /**
+   * Confirm selection and add to buyback list (or emit the grade in re-grade mode)
    */
   confirmSelection(): void {
     const product = this.selectedProduct();
     const condition = this.selectedCondition();
+    const suggestedCondition = this.suggestedCondition();
 
-    if (!product || !condition) {
+    if (!product || !condition || !suggestedCondition) {
+      return;
+    }
+
+    if (this.mode() === 'regrade') {
+      this.graded.emit({
+        product,
+        condition,
+        conditionAssessment: { answers: this.answers(), suggestedCondition, isOverridden: this.isOverridden() }
+      });
+      this.close();
       return;
     }
 
     // Add to buyback list
-    this.buybackService.addItem(product, condition);
+    const isAdded = this.buybackService.addItem(product, condition, this.photos(), {
+      answers: this.answers(),
+      suggestedCondition,
+      isOverridden: this.isOverridden()
+    });
+    if (!isAdded) {
+      return;
+    }
 
     // Show success toaster
     this.toasterService.openToaster(toasterCases.ITEM_ADDED);
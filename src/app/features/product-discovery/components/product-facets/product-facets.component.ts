@@ -0,0 +1,148 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, input, output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import {
+  FacetOption,
+  PriceRangeFacet,
+  ProductFacets,
+  ProductFacetSelection
+} from '../../../../shared/interfaces/product.interface';
+import { ProductSort } from '../../../../shared/constants/app.constants';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { UtilityService } from '../../../../core/services/utility.service';
+
+type MultiValueFacet = 'conditions' | 'series' | 'colours' | 'materials';
+
+/**
+ * Product Facets Component
+ * Sort order and facet filters (buy-back value, conditions, range, colour,
+ * material) with product counts for the product grid, plus a toggle to list
+ * products that cannot be bought back
+ */
+@Component({
+  selector: 'app-product-facets',
+  standalone: true,
+  imports: [CommonModule],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './product-facets.component.html',
+  styleUrl: './product-facets.component.scss'
+})
+export class ProductFacetsComponent extends BaseComponent {
+  // Inputs
+  facets = input<ProductFacets | null>(null);
+  selection = input<ProductFacetSelection>({});
+
+  // Outputs
+  selectionChange = output<ProductFacetSelection>();
+
+  // State
+  isExpanded = signal<boolean>(false);
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+
+  activeFacetCount = computed(() => {
+    const { minPrice, maxPrice, conditions, series, colours, materials } = this.selection();
+    const priceCount = minPrice !== undefined || maxPrice !== undefined ? 1 : 0;
+    return priceCount + [conditions, series, colours, materials].reduce((sum, values) => sum + (values?.length ?? 0), 0);
+  });
+
+  facetGroups = computed(() => {
+    const facets = this.facets();
+    const t = this.translations().facets;
+    if (!facets) {
+      return [];
+    }
+    const groups: { key: MultiValueFacet; title: string; options: FacetOption[] }[] = [
+      { key: 'conditions', title: t.conditions, options: facets.conditions },
+      { key: 'series', title: t.series, options: facets.series },
+      { key: 'colours', title: t.colours, options: facets.colours },
+      { key: 'materials', title: t.materials, options: facets.materials }
+    ];
+    return groups.filter(group => group.options.length > 0);
+  });
+
+  selectedSort = computed(() => this.selection().sortBy ?? ProductSort.RELEVANCE);
+
+  sortOptions = computed(() => {
+    const t = this.translations().facets;
+    return [
+      { value: ProductSort.RELEVANCE, label: t.sortRelevance },
+      { value: ProductSort.HIGHEST_VALUE, label: t.sortHighestValue },
+      { value: ProductSort.NAME, label: t.sortName },
+      { value: ProductSort.NEWEST, label: t.sortNewest }
+    ];
+  });
+
+  constructor(
+    private locale: LocaleService,
+    private utility: UtilityService
+  ) {
+    super();
+  }
+
+  toggleExpanded(): void {
+    this.isExpanded.update(expanded => !expanded);
+  }
+
+  /**
+   * Select or deselect a value of a multi-value facet
+   */
+  toggleOption(facet: MultiValueFacet, value: string): void {
+    const selected: string[] = this.selection()[facet] ?? [];
+    const values = selected.includes(value)
+      ? selected.filter(selectedValue => selectedValue !== value)
+      : [...selected, value];
+    this.emit({ [facet]: values.length ? values : undefined } as ProductFacetSelection);
+  }
+
+  isOptionSelected(facet: MultiValueFacet, value: string): boolean {
+    return (this.selection()[facet] as string[] | undefined)?.includes(value) ?? false;
+  }
+
+  /**
+   * Select a buy-back value range, or clear it when already selected
+   */
+  togglePriceRange(range: PriceRangeFacet): void {
+    const isSelected = this.isPriceRangeSelected(range);
+    this.emit({
+      minPrice: isSelected ? undefined : range.min,
+      maxPrice: isSelected || range.max === null ? undefined : range.max
+    });
+  }
+
+  isPriceRangeSelected(range: PriceRangeFacet): boolean {
+    const { minPrice, maxPrice } = this.selection();
+    return minPrice === range.min && (maxPrice ?? null) === range.max;
+  }
+
+  getPriceRangeLabel(range: PriceRangeFacet): string {
+    return range.max === null
+      ? `${this.translations().facets.priceOver} ${this.utility.formatCurrency(range.min)}`
+      : `${this.utility.formatCurrency(range.min)} - ${this.utility.formatCurrency(range.max)}`;
+  }
+
+  onSortChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value as ProductSort.Sort;
+    this.emit({ sortBy: value === ProductSort.RELEVANCE ? undefined : value });
+  }
+
+  /**
+   * Show or hide products that are not eligible for buy back
+   */
+  onIneligibleChange(event: Event): void {
+    this.emit({ includeIneligible: (event.target as HTMLInputElement).checked || undefined });
+  }
+
+  /**
+   * Clear every facet, keeping the sort order and ineligible toggle
+   */
+  clearFacets(): void {
+    const { sortBy, includeIneligible } = this.selection();
+    this.selectionChange.emit({ sortBy, includeIneligible });
+  }
+
+  private emit(changes: ProductFacetSelection): void {
+    this.selectionChange.emit({ ...this.selection(), ...changes });
+  }
+}
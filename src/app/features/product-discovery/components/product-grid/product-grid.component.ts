@@ -3,6 +3,8 @@ import { CommonModule } from '@angular/common';
 import { BaseComponent } from '../../../../shared/base-classes/base.component';
 import { Product } from '../../../../shared/interfaces/product.interface';
 import { LocaleService } from '../../../../core/services/locale.service';
+import { SearchTextService, TextFragment } from '../../services/search-text.service';
+import { ProductLocalizationService } from '../../services/product-localization.service';
 
 /**
  * Product Grid Component
@@ -20,6 +22,7 @@ export class ProductGridComponent extends BaseComponent {
   // Inputs
   products = input<Product[]>([]);
   isLoading = input<boolean>(false);
+  highlightQuery = input<string>('');
 
   // Outputs
   productSelected = output<Product>();
@@ -31,19 +34,41 @@ export class ProductGridComponent extends BaseComponent {
 
   selectedProduct: Product = null;
 
-  constructor(private locale: LocaleService) {
+  constructor(
+    private locale: LocaleService,
+    private searchText: SearchTextService,
+    private localization: ProductLocalizationService
+  ) {
     super();
   }
 
 
   /**
    * Handle product selection
+   * Ineligible products cannot be selected
    */
   selectProduct(product: Product): void {
+    if (!product.isEligible) {
+      return;
+    }
     this.selectedProduct=product
     this.productSelected.emit(product);
   }
 
+  /**
+   * Split text into fragments, flagging the parts matching the search query
+   */
+  highlight(text: string): TextFragment[] {
+    return this.searchText.highlight(text, this.highlightQuery());
+  }
+
+  /**
+   * Localized reason an ineligible product cannot be bought back
+   */
+  getIneligibilityReason(product: Product): string {
+    return this.localization.getIneligibilityReason(product);
+  }
+
   /**
    * Format price
    */
@@ -0,0 +1,73 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import { Category, Product } from '../../../../shared/interfaces/product.interface';
+import { SearchSuggestions } from '../../../../shared/constants/app.constants';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { CategoryService } from '../../services/category.service';
+import { SearchHistoryService } from '../../services/search-history.service';
+import { SearchTextService, TextFragment } from '../../services/search-text.service';
+
+/**
+ * Search Suggestions Component
+ * Dropdown under the search field with matching products, categories
+ * and the user's recent searches
+ */
+@Component({
+  selector: 'app-search-suggestions',
+  standalone: true,
+  imports: [CommonModule],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './search-suggestions.component.html',
+  styleUrl: './search-suggestions.component.scss'
+})
+export class SearchSuggestionsComponent extends BaseComponent {
+  // Inputs
+  query = input<string>('');
+  products = input<Product[]>([]);
+
+  // Outputs
+  productSelected = output<Product>();
+  categorySelected = output<Category>();
+  searchSelected = output<string>();
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+
+  productSuggestions = computed(() => this.products().slice(0, SearchSuggestions.MAX_PRODUCTS));
+
+  categorySuggestions = computed(() =>
+    this.categoryService.searchCategories(this.query()).slice(0, SearchSuggestions.MAX_CATEGORIES)
+  );
+
+  // All recent searches before typing, the matching ones while typing
+  recentSearches = computed(() =>
+    this.searchHistory.recentSearches().filter(search => this.searchText.matches(search, this.query()))
+  );
+
+  hasSuggestions = computed(() =>
+    this.productSuggestions().length > 0 ||
+    this.categorySuggestions().length > 0 ||
+    this.recentSearches().length > 0
+  );
+
+  constructor(
+    private locale: LocaleService,
+    private categoryService: CategoryService,
+    private searchHistory: SearchHistoryService,
+    private searchText: SearchTextService
+  ) {
+    super();
+  }
+
+  /**
+   * Split text into highlighted and plain fragments for the current query
+   */
+  highlight(text: string): TextFragment[] {
+    return this.searchText.highlight(text, this.query());
+  }
+
+  clearRecentSearches(): void {
+    this.searchHistory.clear();
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Article Number Service
+ * Parses and compares IKEA article numbers (e.g. "305.292.87")
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ArticleNumberService {
+  // Dotted pattern inside longer text, e.g. a product URL in a QR code
+  private readonly embeddedPattern = /(?<!\d)(\d{3})[.\s-]?(\d{3})[.\s-]?(\d{2})(?!\d)/;
+
+  /**
+   * Normalize typed input to the dotted format
+   * Accepts "305.292.87", "305 292 87", "305-292-87", "30529287" and the "S" prefix
+   * used for combinations. Returns null when the input is not an article number.
+   */
+  normalize(input: string): string | null {
+    const compact = input.trim().replace(/^s/i, '').replace(/[.\s-]/g, '');
+    if (!/^\d{8}$/.test(compact)) {
+      return null;
+    }
+
+    return `${compact.slice(0, 3)}.${compact.slice(3, 6)}.${compact.slice(6)}`;
+  }
+
+  /**
+   * Extract the article number from a decoded barcode or QR code value
+   * Label barcodes start with the eight article digits followed by supplier data
+   */
+  extract(rawValue: string): string | null {
+    const normalized = this.normalize(rawValue);
+    if (normalized) {
+      return normalized;
+    }
+
+    const match = rawValue.match(this.embeddedPattern);
+    if (match) {
+      return `${match[1]}.${match[2]}.${match[3]}`;
+    }
+
+    const digits = rawValue.trim();
+    return /^\d{9,}$/.test(digits) ? this.normalize(digits.slice(0, 8)) : null;
+  }
+
+  /**
+   * Number of digit edits between two article numbers
+   * A swap of two neighbouring digits counts as a single edit
+   */
+  distance(a: string, b: string): number {
+    const first = a.replace(/\D/g, '');
+    const second = b.replace(/\D/g, '');
+    if (first.length !== second.length) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+
+    const mismatches: number[] = [];
+    for (let i = 0; i < first.length; i++) {
+      if (first[i] !== second[i]) {
+        mismatches.push(i);
+      }
+    }
+
+    const [i, j] = mismatches;
+    const isSwap = mismatches.length === 2 && j === i + 1 && first[i] === second[j] && first[j] === second[i];
+    return isSwap ? 1 : mismatches.length;
+  }
+}
@@ -0,0 +1,80 @@
+import { Injectable } from '@angular/core';
+import { from, interval, Observable, of } from 'rxjs';
+import { catchError, exhaustMap, filter, map } from 'rxjs/operators';
+import { ArticleScanner } from '../../../shared/constants/app.constants';
+
+/**
+ * Shape Detection API barcode detector (not yet part of the TypeScript DOM types)
+ */
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+/**
+ * Barcode Scanner Service
+ * Reads barcodes and QR codes from the rear camera using the browser's
+ * BarcodeDetector, so no decoding library is bundled
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BarcodeScannerService {
+  /**
+   * Camera scanning needs both camera access and a native barcode detector
+   */
+  isSupported(): boolean {
+    return !!this.getDetectorConstructor() && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  /**
+   * Stream the camera into the video element and emit every decoded value
+   * The camera is released when the subscription ends
+   */
+  scan(video: HTMLVideoElement): Observable<string> {
+    return new Observable<string>(subscriber => {
+      const Detector = this.getDetectorConstructor();
+      if (!Detector) {
+        subscriber.error(new Error('BarcodeDetector is not supported'));
+        return;
+      }
+
+      const detector = new Detector({ formats: ArticleScanner.BARCODE_FORMATS });
+      let stream: MediaStream | null = null;
+      let isStopped = false;
+
+      const detection = interval(ArticleScanner.SCAN_INTERVAL)
+        .pipe(
+          filter(() => video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA),
+          exhaustMap(() => from(detector.detect(video)).pipe(catchError(() => of([])))),
+          map(barcodes => barcodes.map(barcode => barcode.rawValue).filter(value => !!value))
+        )
+        .subscribe(values => values.forEach(value => subscriber.next(value)));
+
+      navigator.mediaDevices
+        .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+        .then(mediaStream => {
+          if (isStopped) {
+            mediaStream.getTracks().forEach(track => track.stop());
+            return;
+          }
+          stream = mediaStream;
+          video.srcObject = mediaStream;
+          return video.play();
+        })
+        .catch(error => subscriber.error(error));
+
+      return () => {
+        isStopped = true;
+        detection.unsubscribe();
+        stream?.getTracks().forEach(track => track.stop());
+        video.srcObject = null;
+      };
+    });
+  }
+
+  private getDetectorConstructor(): BarcodeDetectorConstructor | undefined {
+    return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay } from 'rxjs';
+import { Category } from '../../../shared/interfaces/product.interface';
+
+/**
+ * Category Mock Service
+ * Local stand-in for the categories endpoint, used when
+ * environment.features.mockApiResponses is enabled
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CategoryMockService {
+  private mockCategories: Category[] = [
+    // Level 1 - Main categories
+    { id: '1', name: 'Decoration', parentId: null, level: 1, productCount: 45 },
+    { id: '2', name: 'Outdoor', parentId: null, level: 1, productCount: 23 },
+    { id: '3', name: 'Home organization', parentId: null, level: 1, productCount: 67 },
+    { id: '4', name: 'Store and organize furniture', parentId: null, level: 1, productCount: 34 },
+    { id: '5', name: 'Kitchen', parentId: null, level: 1, productCount: 89 },
+    { id: '6', name: "Children's IKEA", parentId: null, level: 1, productCount: 56 },
+    { id: '7', name: 'Dining', parentId: null, level: 1, productCount: 42 },
+    { id: '8', name: 'Workspaces', parentId: null, level: 1, productCount: 38 },
+    { id: '9', name: 'Bedroom furniture', parentId: null, level: 1, productCount: 51 },
+    { id: '10', name: 'Bathroom & Water', parentId: null, level: 1, productCount: 29 },
+    { id: '11', name: 'Beds & Mattresses', parentId: null, level: 1, productCount: 33 },
+    { id: '12', name: 'Living room seating', parentId: null, level: 1, productCount: 44 },
+
+    // Level 2 - Subcategories under Decoration
+    { id: '1-1', name: 'Green decoration', parentId: '1', level: 2, productCount: 15 },
+    { id: '1-2', name: 'Home decoration', parentId: '1', level: 2, productCount: 18 },
+    { id: '1-3', name: 'Wall decoration', parentId: '1', level: 2, productCount: 12 },
+
+    // Level 3 - Sub-subcategories under Green decoration
+    { id: '1-1-1', name: 'Plant pots', parentId: '1-1', level: 3, productCount: 8 },
+    { id: '1-1-2', name: 'Artificial plants', parentId: '1-1', level: 3, productCount: 7 },
+
+    // Level 2 - Subcategories under Kitchen
+    { id: '5-1', name: 'Kitchen storage', parentId: '5', level: 2, productCount: 25 },
+    { id: '5-2', name: 'Cookware', parentId: '5', level: 2, productCount: 34 },
+    { id: '5-3', name: 'Kitchen appliances', parentId: '5', level: 2, productCount: 30 },
+
+    // Level 3 and 4 - Kitchen storage
+    { id: '5-1-1', name: 'Kitchen organizers', parentId: '5-1', level: 3, productCount: 12 },
+    { id: '5-1-1-1', name: 'Drawer organizers', parentId: '5-1-1', level: 4, productCount: 6 },
+  ];
+
+  /**
+   * Get direct children of a category (root categories when parentId is null)
+   */
+  getCategories(parentId: string | null): Observable<Category[]> {
+    const categories = this.mockCategories
+      .filter(cat => cat.parentId === parentId)
+      .map(cat => ({
+        ...cat,
+        hasChildren: this.mockCategories.some(child => child.parentId === cat.id)
+      }));
+
+    return of(categories).pipe(delay(200));
+  }
+
+  /**
+   * Get a single category by id (null when it does not exist)
+   */
+  getCategory(categoryId: string): Observable<Category | null> {
+    const category = this.mockCategories.find(cat => cat.id === categoryId);
+    return of(category ?? null).pipe(delay(200));
+  }
+}
@@ -1,9 +1,20 @@
-import { Injectable, signal, computed } from '@angular/core';
+import { Injectable, signal, computed, WritableSignal } from '@angular/core';
+import { HttpClient, HttpParams } from '@angular/common/http';
+import { Observable, of } from 'rxjs';
+import { catchError, finalize, map, share, switchMap, tap } from 'rxjs/operators';
+import { APIService } from '../../../core/services/api.service';
 import { Category } from '../../../shared/interfaces/product.interface';
+import { CategoryLevel } from '../../../shared/constants/app.constants';
+import { environment } from '../../../../environments/environment';
+import { CategoryMockService } from './category-mock.service';
+import { SearchTextService } from './search-text.service';
 
 /**
  * Category Service
  * Manages category navigation state and provides category data
+ *
+ * Root categories are fetched on startup; children are fetched lazily
+ * the first time a category is expanded and cached in a flat list.
  */
 @Injectable({
   providedIn: 'root'
@@ -13,6 +24,8 @@ export class CategoryService {
   private _categories = signal<Category[]>([]);
   private _selectedCategory = signal<Category | null>(null);
   private _expandedCategoryIds = signal<Set<string>>(new Set());
+  private _loadedParentIds = signal<Set<string>>(new Set());
+  private _loadingParentIds = signal<Set<string>>(new Set());
 
   // Public readonly signals
   readonly categories = this._categories.asReadonly();
@@ -21,7 +34,7 @@ export class CategoryService {
 
   // Computed signals
   readonly rootCategories = computed(() =>
-    this._categories().filter(cat => cat.level === 1)
+    this._categories().filter(cat => cat.level === CategoryLevel.LEVEL_1)
   );
 
   readonly selectedCategoryPath = computed(() => {
@@ -44,8 +57,17 @@ export class CategoryService {
     return path;
   });
 
-  constructor() {
-    this.loadMockCategories();
+  private useMock = environment.features.mockApiResponses;
+  // Children requests in flight, shared by everyone expanding the same category
+  private childRequests = new Map<string, Observable<Category[]>>();
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService,
+    private searchText: SearchTextService,
+    private mockService: CategoryMockService
+  ) {
+    this.loadCategories(null).subscribe();
   }
 
   /**
@@ -59,26 +81,24 @@ export class CategoryService {
    * Toggle category expansion
    */
   toggleCategoryExpansion(categoryId: string): void {
-    this._expandedCategoryIds.update(expanded => {
-      const newSet = new Set(expanded);
-      if (newSet.has(categoryId)) {
-        newSet.delete(categoryId);
-      } else {
-        newSet.add(categoryId);
-      }
-      return newSet;
-    });
+    if (this.isCategoryExpanded(categoryId)) {
+      this.collapseCategory(categoryId);
+    } else {
+      this.expandCategory(categoryId).subscribe();
+    }
   }
 
   /**
-   * Expand a category
+   * Expand a category, loading its children on first expansion
+   * Emits the children once known (empty when there are none or loading fails)
    */
-  expandCategory(categoryId: string): void {
+  expandCategory(categoryId: string): Observable<Category[]> {
     this._expandedCategoryIds.update(expanded => {
       const newSet = new Set(expanded);
       newSet.add(categoryId);
       return newSet;
     });
+    return this.loadChildren(categoryId);
   }
 
   /**
@@ -99,6 +119,30 @@ export class CategoryService {
     return this._categories().filter(cat => cat.parentId === parentId);
   }
 
+  /**
+   * Find loaded categories whose name matches a search query
+   */
+  searchCategories(query: string): Category[] {
+    if (this.searchText.getTerms(query).length === 0) {
+      return [];
+    }
+    return this._categories().filter(cat => this.searchText.matches(cat.name, query));
+  }
+
+  /**
+   * Check if a category has (or is known to have) children
+   * Categories at MAX_LEVEL are always treated as leaves
+   */
+  hasChildren(category: Category): boolean {
+    if (category.level >= CategoryLevel.MAX_LEVEL) {
+      return false;
+    }
+    if (this._loadedParentIds().has(category.id)) {
+      return this.getChildren(category.id).length > 0;
+    }
+    return !!category.hasChildren;
+  }
+
   /**
    * Check if category is expanded
    */
@@ -107,39 +151,109 @@ export class CategoryService {
   }
 
   /**
-   * Load mock categories (will be replaced with API call)
+   * Check if children of a category are being fetched
+   */
+  isLoadingChildren(categoryId: string): boolean {
+    return this._loadingParentIds().has(categoryId);
+  }
+
+  /**
+   * Fetch children of a category unless already loaded
+   * A request already in flight is shared rather than repeated
    */
-  private loadMockCategories(): void {
-    const mockCategories: Category[] = [
-      // Level 1 - Main categories
-      { id: '1', name: 'Decoration', parentId: null, level: 1, productCount: 45 },
-      { id: '2', name: 'Outdoor', parentId: null, level: 1, productCount: 23 },
-      { id: '3', name: 'Home organization', parentId: null, level: 1, productCount: 67 },
-      { id: '4', name: 'Store and organize furniture', parentId: null, level: 1, productCount: 34 },
-      { id: '5', name: 'Kitchen', parentId: null, level: 1, productCount: 89 },
-      { id: '6', name: "Children's IKEA", parentId: null, level: 1, productCount: 56 },
-      { id: '7', name: 'Dining', parentId: null, level: 1, productCount: 42 },
-      { id: '8', name: 'Workspaces', parentId: null, level: 1, productCount: 38 },
-      { id: '9', name: 'Bedroom furniture', parentId: null, level: 1, productCount: 51 },
-      { id: '10', name: 'Bathroom & Water', parentId: null, level: 1, productCount: 29 },
-      { id: '11', name: 'Beds & Mattresses', parentId: null, level: 1, productCount: 33 },
-      { id: '12', name: 'Living room seating', parentId: null, level: 1, productCount: 44 },
-
-      // Level 2 - Subcategories under Decoration
-      { id: '1-1', name: 'Green decoration', parentId: '1', level: 2, productCount: 15 },
-      { id: '1-2', name: 'Home decoration', parentId: '1', level: 2, productCount: 18 },
-      { id: '1-3', name: 'Wall decoration', parentId: '1', level: 2, productCount: 12 },
-
-      // Level 3 - Sub-subcategories under Green decoration
-      { id: '1-1-1', name: 'Plant pots', parentId: '1-1', level: 3, productCount: 8 },
-      { id: '1-1-2', name: 'Artificial plants', parentId: '1-1', level: 3, productCount: 7 },
-
-      // Level 2 - Subcategories under Kitchen
-      { id: '5-1', name: 'Kitchen storage', parentId: '5', level: 2, productCount: 25 },
-      { id: '5-2', name: 'Cookware', parentId: '5', level: 2, productCount: 34 },
-      { id: '5-3', name: 'Kitchen appliances', parentId: '5', level: 2, productCount: 30 },
-    ];
-
-    this._categories.set(mockCategories);
+  loadChildren(parentId: string): Observable<Category[]> {
+    const parent = this._categories().find(c => c.id === parentId);
+    if (!parent || !this.hasChildren(parent) || this._loadedParentIds().has(parentId)) {
+      return of(this.getChildren(parentId));
+    }
+
+    let request$ = this.childRequests.get(parentId);
+    if (!request$) {
+      request$ = this.loadCategories(parentId).pipe(
+        finalize(() => this.childRequests.delete(parentId)),
+        share()
+      );
+      this.childRequests.set(parentId, request$);
+    }
+    return request$;
+  }
+
+  /**
+   * Get a category by id, from the loaded categories or the categories endpoint
+   * Its ancestors and siblings are loaded too, so a category opened from a
+   * link has a complete path
+   */
+  findCategory(categoryId: string): Observable<Category | null> {
+    const loaded = this._categories().find(cat => cat.id === categoryId);
+    if (loaded) {
+      return of(loaded);
+    }
+
+    const source$ = this.useMock
+      ? this.mockService.getCategory(categoryId)
+      : this.http.get<Category>(`${this.api.categories}/${encodeURIComponent(categoryId)}`);
+
+    return source$.pipe(
+      switchMap(category => {
+        if (!category || category.level > CategoryLevel.MAX_LEVEL) {
+          return of(null);
+        }
+        const parent$ = category.parentId ? this.findCategory(category.parentId) : of(null);
+        return parent$.pipe(
+          switchMap(() => this.loadCategories(category.parentId)),
+          map(siblings => siblings.find(cat => cat.id === category.id) ?? category)
+        );
+      }),
+      catchError(error => {
+        console.error('Category loading error:', error);
+        return of(null);
+      })
+    );
+  }
+
+  /**
+   * Fetch direct children of a parent (root categories when parentId is null)
+   * and merge them into the flat category list
+   */
+  private loadCategories(parentId: string | null): Observable<Category[]> {
+    const key = parentId ?? '';
+    this.updateSet(this._loadingParentIds, key, true);
+
+    const source$ = this.useMock
+      ? this.mockService.getCategories(parentId)
+      : this.http.get<Category[]>(this.api.categories, {
+          params: parentId ? new HttpParams().set('parentId', parentId) : undefined
+        });
+
+    return source$.pipe(
+      tap(children => {
+        this._categories.update(categories => [
+          ...categories.filter(cat => cat.parentId !== parentId),
+          ...children.filter(cat => cat.level <= CategoryLevel.MAX_LEVEL)
+        ]);
+        this.updateSet(this._loadedParentIds, key, true);
+        this.updateSet(this._loadingParentIds, key, false);
+      }),
+      catchError(error => {
+        console.error('Category loading error:', error);
+        this.updateSet(this._loadingParentIds, key, false);
+        return of([]);
+      })
+    );
+  }
+
+  /**
+   * Add or remove an id in a Set-valued signal
+   */
+  private updateSet(target: WritableSignal<Set<string>>, id: string, present: boolean): void {
+    target.update(current => {
+      const newSet = new Set(current);
+      if (present) {
+        newSet.add(id);
+      } else {
+        newSet.delete(id);
+      }
+      return newSet;
+    });
   }
 }
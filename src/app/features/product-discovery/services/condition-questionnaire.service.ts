@@ -0,0 +1,97 @@
+import { Injectable } from '@angular/core';
+import { ConditionAnswer } from '../../../shared/interfaces/product.interface';
+import { QuestionnaireTranslations } from '../../../shared/interfaces/translation.interface';
+import { ConditionQuestionnaire, ProductCondition } from '../../../shared/constants/app.constants';
+
+/**
+ * Condition question shown as one questionnaire step
+ */
+export interface ConditionQuestion {
+  id: ConditionAnswer['questionId'];
+  questionKey: keyof QuestionnaireTranslations;
+  options: ConditionQuestionOption[];
+}
+
+/**
+ * Answer option and the grade it points to
+ */
+export interface ConditionQuestionOption {
+  value: string;
+  labelKey: keyof QuestionnaireTranslations;
+  condition: ProductCondition.Condition;
+}
+
+/**
+ * Condition Questionnaire Service
+ * Provides the questions for a category and derives a grade from the answers
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConditionQuestionnaireService {
+  private scratches: ConditionQuestion = {
+    id: 'SCRATCHES',
+    questionKey: 'scratchesQuestion',
+    options: [
+      { value: 'NONE', labelKey: 'scratchesNone', condition: ProductCondition.LIKE_NEW },
+      { value: 'MINOR', labelKey: 'scratchesMinor', condition: ProductCondition.VERY_GOOD },
+      { value: 'SEVERAL', labelKey: 'scratchesSeveral', condition: ProductCondition.WELL_USED }
+    ]
+  };
+
+  private missingParts: ConditionQuestion = {
+    id: 'MISSING_PARTS',
+    questionKey: 'missingPartsQuestion',
+    options: [
+      { value: 'NONE', labelKey: 'missingPartsNone', condition: ProductCondition.LIKE_NEW },
+      { value: 'MINOR', labelKey: 'missingPartsMinor', condition: ProductCondition.VERY_GOOD },
+      { value: 'MAJOR', labelKey: 'missingPartsMajor', condition: ProductCondition.WELL_USED }
+    ]
+  };
+
+  private stains: ConditionQuestion = {
+    id: 'STAINS',
+    questionKey: 'stainsQuestion',
+    options: [
+      { value: 'NONE', labelKey: 'stainsNone', condition: ProductCondition.LIKE_NEW },
+      { value: 'LIGHT', labelKey: 'stainsLight', condition: ProductCondition.VERY_GOOD },
+      { value: 'VISIBLE', labelKey: 'stainsVisible', condition: ProductCondition.WELL_USED }
+    ]
+  };
+
+  private assembled: ConditionQuestion = {
+    id: 'ASSEMBLED',
+    questionKey: 'assembledQuestion',
+    options: [
+      { value: 'YES', labelKey: 'assembledYes', condition: ProductCondition.LIKE_NEW },
+      { value: 'NO', labelKey: 'assembledNo', condition: ProductCondition.VERY_GOOD }
+    ]
+  };
+
+  /**
+   * Get the questions for a product category
+   */
+  getQuestions(categoryId: string): ConditionQuestion[] {
+    const rootCategoryId = categoryId.split('-')[0];
+    const isUpholstered = ConditionQuestionnaire.UPHOLSTERED_CATEGORY_IDS.includes(rootCategoryId);
+
+    return isUpholstered
+      ? [this.scratches, this.stains, this.missingParts, this.assembled]
+      : [this.scratches, this.missingParts, this.assembled];
+  }
+
+  /**
+   * Derive the grade from the answers - the worst answer decides
+   */
+  deriveCondition(questions: ConditionQuestion[], answers: ConditionAnswer[]): ProductCondition.Condition {
+    return answers.reduce<ProductCondition.Condition>((worst, answer) => {
+      const condition = questions
+        .find(q => q.id === answer.questionId)
+        ?.options.find(o => o.value === answer.value)?.condition;
+
+      return condition && ProductCondition.ALL.indexOf(condition) > ProductCondition.ALL.indexOf(worst)
+        ? condition
+        : worst;
+    }, ProductCondition.LIKE_NEW);
+  }
+}
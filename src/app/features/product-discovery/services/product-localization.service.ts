@@ -0,0 +1,51 @@
+import { Injectable } from '@angular/core';
+import { LocaleService } from '../../../core/services/locale.service';
+import { Product } from '../../../shared/interfaces/product.interface';
+import { EligibilityTranslations } from '../../../shared/interfaces/translation.interface';
+import { IneligibilityReason } from '../../../shared/constants/app.constants';
+
+/**
+ * Product Localization Service
+ * Fills the display fields of a product from its localized fields and
+ * explains why a product is not eligible for buy back
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProductLocalizationService {
+  private readonly reasonKeys: Record<IneligibilityReason.Reason, keyof EligibilityTranslations> = {
+    [IneligibilityReason.RECALLED]: 'recalled',
+    [IneligibilityReason.HYGIENE]: 'hygiene',
+    [IneligibilityReason.DISCONTINUED]: 'discontinued',
+    [IneligibilityReason.UPHOLSTERED]: 'upholstered'
+  };
+
+  constructor(private locale: LocaleService) {}
+
+  /**
+   * Set name, description and category name to the current language
+   * Products without localized fields are returned unchanged
+   */
+  localize(product: Product): Product {
+    const language = this.locale.currentLanguage();
+    return {
+      ...product,
+      name: product.localizedName?.[language] || product.name,
+      description: product.localizedDescription?.[language] || product.description,
+      categoryName: product.localizedCategoryName?.[language] || product.categoryName
+    };
+  }
+
+  /**
+   * Localized reason a product cannot be bought back ('' when it can)
+   * Reason codes this version does not know get a generic explanation
+   */
+  getIneligibilityReason(product: Product): string {
+    if (product.isEligible) {
+      return '';
+    }
+    const translations = this.locale.translations().eligibility;
+    const key = product.ineligibilityReason ? this.reasonKeys[product.ineligibilityReason] : undefined;
+    return translations[key ?? 'otherReason'];
+  }
+}
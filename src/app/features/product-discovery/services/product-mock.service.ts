@@ -0,0 +1,410 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay } from 'rxjs';
+import {
+  FacetOption,
+  Product,
+  ProductFacets,
+  ProductFilter,
+  SearchResult
+} from '../../../shared/interfaces/product.interface';
+import { LocalizedText } from '../../../shared/interfaces/locale-config.interface';
+import {
+  ArticleScanner,
+  IneligibilityReason,
+  Pagination,
+  ProductCondition,
+  ProductSort
+} from '../../../shared/constants/app.constants';
+import { LocaleService } from '../../../core/services/locale.service';
+import { ArticleNumberService } from './article-number.service';
+import { ProductRelevanceService } from './product-relevance.service';
+
+/**
+ * Product Mock Service
+ * Local stand-in for the product endpoints, used when
+ * environment.features.mockApiResponses is enabled
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProductMockService {
+  private mockProducts: Product[] = [
+    {
+      id: 'p1',
+      productNumber: '305.292.87',
+      name: 'SATSUMAS',
+      description: 'Plant stand, bamboo/white, 70 cm',
+      categoryId: '1-1-1',
+      categoryName: 'Plant pots',
+      localizedName: { en: 'SATSUMAS', ar: 'SATSUMAS' },
+      localizedDescription: { en: 'Plant stand, bamboo/white, 70 cm', ar: 'حامل نباتات، خيزران/أبيض، 70 سم' },
+      localizedCategoryName: { en: 'Plant pots', ar: 'أصص النباتات' },
+      series: 'SATSUMAS',
+      colours: ['white'],
+      materials: ['bamboo'],
+      introducedAt: '2019-02-01',
+      imageUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__1067309_ph179330_s4.jpg',
+      thumbnailUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__0737089_pe740879_s4.jpg',
+      basePrice: 28.00,
+      conditions: [
+        {
+          condition: 'LIKE_NEW',
+          price: 28.00,
+          familyMemberPrice: 35.00,
+          description: 'No scratches'
+        },
+        {
+          condition: 'VERY_GOOD',
+          price: 20.00,
+          familyMemberPrice: 25.00,
+          description: 'Minor scratches'
+        },
+        {
+          condition: 'WELL_USED',
+          price: 12.00,
+          familyMemberPrice: 15.00,
+          description: 'Several scratches'
+        }
+      ],
+      isEligible: true
+    },
+    {
+      id: 'p2',
+      productNumber: '604.575.92',
+      name: 'VANILJSTÅNG',
+      description: 'Plant stand, pine/black, 67 cm',
+      categoryId: '1-1-1',
+      categoryName: 'Plant pots',
+      localizedName: { en: 'VANILJSTÅNG', ar: 'VANILJSTÅNG' },
+      localizedDescription: { en: 'Plant stand, pine/black, 67 cm', ar: 'حامل نباتات، خشب الصنوبر/أسود، 67 سم' },
+      localizedCategoryName: { en: 'Plant pots', ar: 'أصص النباتات' },
+      series: 'VANILJSTÅNG',
+      colours: ['black'],
+      materials: ['pine', 'steel'],
+      introducedAt: '2022-08-01',
+      imageUrl: 'https://www.ikea.com/us/en/images/products/besta-tv-unit-dark-gray__1255236_pe924457_s4.jpg',
+      thumbnailUrl: 'https://www.ikea.com/us/en/images/products/besta-tv-unit-dark-gray__1219601_pe913478_s4.jpg',
+      basePrice: 35.00,
+      conditions: [
+        {
+          condition: 'LIKE_NEW',
+          price: 35.00,
+          familyMemberPrice: 43.75,
+          description: 'No scratches'
+        },
+        {
+          condition: 'VERY_GOOD',
+          price: 25.00,
+          familyMemberPrice: 31.25,
+          description: 'Minor scratches'
+        },
+        {
+          condition: 'WELL_USED',
+          price: 15.00,
+          familyMemberPrice: 18.75,
+          description: 'Several scratches'
+        }
+      ],
+      isEligible: true
+    },
+    {
+      id: 'p3',
+      productNumber: '203.386.24',
+      name: 'SOCKER',
+      description: 'Plant stand, galvanized, 45 cm',
+      categoryId: '1-1-1',
+      categoryName: 'Plant pots',
+      localizedName: { en: 'SOCKER', ar: 'SOCKER' },
+      localizedDescription: { en: 'Plant stand, galvanized, 45 cm', ar: 'حامل نباتات، مجلفن، 45 سم' },
+      localizedCategoryName: { en: 'Plant pots', ar: 'أصص النباتات' },
+      series: 'SOCKER',
+      colours: ['grey'],
+      materials: ['steel'],
+      introducedAt: '2014-03-01',
+      imageUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__1067309_ph179330_s4.jpg',
+      thumbnailUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__0737089_pe740879_s4.jpg',
+      basePrice: 20.00,
+      conditions: [
+        {
+          condition: 'LIKE_NEW',
+          price: 20.00,
+          familyMemberPrice: 25.00,
+          description: 'No scratches'
+        },
+        {
+          condition: 'VERY_GOOD',
+          price: 14.00,
+          familyMemberPrice: 17.50,
+          description: 'Minor scratches'
+        },
+        {
+          condition: 'WELL_USED',
+          price: 8.00,
+          familyMemberPrice: 10.00,
+          description: 'Several scratches'
+        }
+      ],
+      isEligible: false,
+      ineligibilityReason: IneligibilityReason.RECALLED
+    },
+    {
+      id: 'p4',
+      productNumber: '704.817.64',
+      name: 'VALEVÅG',
+      description: 'Pocket spring mattress, firm, 160x200 cm',
+      categoryId: '11',
+      categoryName: 'Beds & Mattresses',
+      localizedName: { en: 'VALEVÅG', ar: 'VALEVÅG' },
+      localizedDescription: { en: 'Pocket spring mattress, firm, 160x200 cm', ar: 'مرتبة بنوابض مكيسة، صلبة، 160×200 سم' },
+      localizedCategoryName: { en: 'Beds & Mattresses', ar: 'الأسرّة والمراتب' },
+      series: 'VALEVÅG',
+      colours: ['white'],
+      materials: ['foam'],
+      introducedAt: '2021-01-01',
+      imageUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__1067309_ph179330_s4.jpg',
+      thumbnailUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__0737089_pe740879_s4.jpg',
+      basePrice: 150.00,
+      conditions: [
+        {
+          condition: 'LIKE_NEW',
+          price: 150.00,
+          familyMemberPrice: 187.50,
+          description: 'No scratches'
+        },
+        {
+          condition: 'VERY_GOOD',
+          price: 105.00,
+          familyMemberPrice: 131.25,
+          description: 'Minor scratches'
+        },
+        {
+          condition: 'WELL_USED',
+          price: 60.00,
+          familyMemberPrice: 75.00,
+          description: 'Several scratches'
+        }
+      ],
+      isEligible: false,
+      ineligibilityReason: IneligibilityReason.HYGIENE
+    },
+    {
+      id: 'p5',
+      productNumber: '304.880.09',
+      name: 'KLIPPAN',
+      description: '2-seat sofa, grey',
+      categoryId: '12',
+      categoryName: 'Living room seating',
+      localizedName: { en: 'KLIPPAN', ar: 'KLIPPAN' },
+      localizedDescription: { en: '2-seat sofa, grey', ar: 'كنبة بمقعدين، رمادي' },
+      localizedCategoryName: { en: 'Living room seating', ar: 'مقاعد غرفة المعيشة' },
+      series: 'KLIPPAN',
+      colours: ['grey'],
+      materials: ['fabric'],
+      introducedAt: '2018-08-01',
+      imageUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__1067309_ph179330_s4.jpg',
+      thumbnailUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__0737089_pe740879_s4.jpg',
+      basePrice: 80.00,
+      conditions: [
+        {
+          condition: 'LIKE_NEW',
+          price: 80.00,
+          familyMemberPrice: 100.00,
+          description: 'No scratches'
+        },
+        {
+          condition: 'VERY_GOOD',
+          price: 56.00,
+          familyMemberPrice: 70.00,
+          description: 'Minor scratches'
+        },
+        {
+          condition: 'WELL_USED',
+          price: 32.00,
+          familyMemberPrice: 40.00,
+          description: 'Several scratches'
+        }
+      ],
+      isEligible: false,
+      ineligibilityReason: IneligibilityReason.UPHOLSTERED
+    }
+  ];
+
+  // Buy-back value ranges returned as price facets
+  private priceRanges: [number, number | null][] = [[0, 25], [25, 50], [50, 100], [100, null]];
+
+  private colourLabels: Record<string, LocalizedText> = {
+    white: { en: 'White', ar: 'أبيض' },
+    black: { en: 'Black', ar: 'أسود' },
+    grey: { en: 'Grey', ar: 'رمادي' }
+  };
+
+  private materialLabels: Record<string, LocalizedText> = {
+    bamboo: { en: 'Bamboo', ar: 'خيزران' },
+    pine: { en: 'Pine', ar: 'خشب الصنوبر' },
+    steel: { en: 'Steel', ar: 'فولاذ' },
+    foam: { en: 'Foam', ar: 'إسفنج' },
+    fabric: { en: 'Fabric', ar: 'قماش' }
+  };
+
+  constructor(
+    private articleNumberService: ArticleNumberService,
+    private relevance: ProductRelevanceService,
+    private locale: LocaleService
+  ) {}
+
+  /**
+   * Find a mock product by id
+   */
+  findProduct(productId: string): Product | undefined {
+    return this.mockProducts.find(p => p.id === productId);
+  }
+
+  /**
+   * Get a single product the same way the product details endpoint does
+   */
+  getProduct(productId: string): Observable<Product | null> {
+    return of(this.findProduct(productId) ?? null).pipe(delay(200));
+  }
+
+  /**
+   * Filter and paginate mock products the same way the search endpoint does
+   */
+  search(filter: ProductFilter): Observable<SearchResult> {
+    let filtered = this.mockProducts;
+
+    if (filter.categoryId) {
+      filtered = filtered.filter(p => p.categoryId === filter.categoryId);
+    }
+
+    if (!filter.includeIneligible) {
+      filtered = filtered.filter(p => p.isEligible);
+    }
+
+    if (filter.articleNumber) {
+      const articleNumber = filter.articleNumber;
+      filtered = filtered.filter(
+        p => this.articleNumberService.distance(p.productNumber, articleNumber) <= ArticleScanner.MAX_MATCH_DISTANCE
+      );
+    }
+
+    if (filter.searchQuery) {
+      filtered = this.relevance.rank(filtered, filter.searchQuery);
+    }
+
+    const facets = this.buildFacets(filtered, filter);
+    filtered = this.sort(this.applyFacets(filtered, filter), filter.sortBy);
+
+    const page = filter.page || Pagination.DEFAULT_PAGE;
+    const pageSize = filter.pageSize || Pagination.DEFAULT_PAGE_SIZE;
+    const start = (page - 1) * pageSize;
+
+    return of({
+      products: filtered.slice(start, start + pageSize),
+      totalCount: filtered.length,
+      page,
+      pageSize,
+      facets
+    }).pipe(delay(300));
+  }
+
+  /**
+   * Keep products matching the selected facets, optionally ignoring one facet
+   * (facet counts ignore their own selection so other values stay selectable)
+   */
+  private applyFacets(products: Product[], filter: ProductFilter, except?: keyof ProductFacets): Product[] {
+    return products.filter(p => {
+      const value = this.getBuybackValue(p);
+      return (
+        (except === 'priceRanges' ||
+          ((filter.minPrice === undefined || value >= filter.minPrice) &&
+            (filter.maxPrice === undefined || value < filter.maxPrice))) &&
+        (except === 'conditions' || this.matchesAny(p.conditions.map(c => c.condition), filter.conditions)) &&
+        (except === 'series' || this.matchesAny(p.series ? [p.series] : [], filter.series)) &&
+        (except === 'colours' || this.matchesAny(p.colours ?? [], filter.colours)) &&
+        (except === 'materials' || this.matchesAny(p.materials ?? [], filter.materials))
+      );
+    });
+  }
+
+  private buildFacets(products: Product[], filter: ProductFilter): ProductFacets {
+    const language = this.locale.currentLanguage();
+    const conditionLabels: Record<ProductCondition.Condition, string> = {
+      [ProductCondition.LIKE_NEW]: this.locale.translations().conditionAssessment.likeNew,
+      [ProductCondition.VERY_GOOD]: this.locale.translations().conditionAssessment.veryGood,
+      [ProductCondition.WELL_USED]: this.locale.translations().conditionAssessment.wellUsed
+    };
+    const priceProducts = this.applyFacets(products, filter, 'priceRanges');
+
+    return {
+      priceRanges: this.priceRanges
+        .map(([min, max]) => ({
+          min,
+          max,
+          count: priceProducts.filter(p => {
+            const value = this.getBuybackValue(p);
+            return value >= min && (max === null || value < max);
+          }).length
+        }))
+        .filter(range => range.count > 0),
+      conditions: this.countOptions(
+        this.applyFacets(products, filter, 'conditions'),
+        p => p.conditions.map(c => c.condition),
+        value => conditionLabels[value as ProductCondition.Condition] ?? value
+      ),
+      series: this.countOptions(
+        this.applyFacets(products, filter, 'series'),
+        p => (p.series ? [p.series] : []),
+        value => value
+      ),
+      colours: this.countOptions(
+        this.applyFacets(products, filter, 'colours'),
+        p => p.colours ?? [],
+        value => this.colourLabels[value]?.[language] ?? value
+      ),
+      materials: this.countOptions(
+        this.applyFacets(products, filter, 'materials'),
+        p => p.materials ?? [],
+        value => this.materialLabels[value]?.[language] ?? value
+      )
+    };
+  }
+
+  private countOptions(
+    products: Product[],
+    getValues: (product: Product) => string[],
+    getLabel: (value: string) => string
+  ): FacetOption[] {
+    const counts = new Map<string, number>();
+    products.forEach(product =>
+      new Set(getValues(product)).forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1))
+    );
+    return Array.from(counts, ([value, count]) => ({ value, label: getLabel(value), count }));
+  }
+
+  private sort(products: Product[], sortBy: ProductSort.Sort | undefined): Product[] {
+    const language = this.locale.currentLanguage();
+    switch (sortBy) {
+      case ProductSort.HIGHEST_VALUE:
+        return [...products].sort((a, b) => this.getBuybackValue(b) - this.getBuybackValue(a));
+      case ProductSort.NAME:
+        return [...products].sort((a, b) =>
+          (a.localizedName?.[language] ?? a.name).localeCompare(b.localizedName?.[language] ?? b.name, language)
+        );
+      case ProductSort.NEWEST:
+        return [...products].sort((a, b) => (b.introducedAt ?? '').localeCompare(a.introducedAt ?? ''));
+      default:
+        return products;
+    }
+  }
+
+  private matchesAny(values: string[], selected: string[] | undefined): boolean {
+    return !selected?.length || values.some(value => selected.includes(value));
+  }
+
+  /**
+   * Highest buy-back value of a product (best condition)
+   */
+  private getBuybackValue(product: Product): number {
+    return Math.max(product.basePrice, ...product.conditions.map(c => c.price));
+  }
+}
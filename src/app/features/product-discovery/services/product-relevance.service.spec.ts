@@ -0,0 +1,82 @@
+import { TestBed } from '@angular/core/testing';
+import { ProductRelevanceService } from './product-relevance.service';
+import { Product } from '../../../shared/interfaces/product.interface';
+import { SearchRelevance } from '../../../shared/constants/app.constants';
+
+function createProduct(name: string, changes: Partial<Product> = {}): Product {
+  return {
+    id: name.toLowerCase().replace(/\W+/g, '-'),
+    productNumber: '000.000.00',
+    name,
+    description: '',
+    categoryId: 'furniture',
+    categoryName: 'Furniture',
+    imageUrl: '',
+    thumbnailUrl: '',
+    basePrice: 100,
+    conditions: [],
+    isEligible: true,
+    ...changes
+  };
+}
+
+describe('ProductRelevanceService', () => {
+  let service: ProductRelevanceService;
+
+  const poang = createProduct('POÄNG', { description: 'Armchair' });
+  const cushion = createProduct('POÄNG cushion', { description: 'Seat cushion' });
+  const strandmon = createProduct('STRANDMON', { description: 'Wing chair, matches the POÄNG range' });
+  const satsumas = createProduct('SATSUMAS', {
+    productNumber: '702.581.54',
+    description: 'Plant stand',
+    localizedDescription: { en: 'Plant stand', ar: 'حامل نباتات' }
+  });
+  const billy = createProduct('BILLY', { description: 'Bookcase' });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ProductRelevanceService);
+  });
+
+  it('should score name matches above detail matches', () => {
+    expect(service.score(cushion, 'poang')).toBe(SearchRelevance.NAME_WORD);
+    expect(service.score(strandmon, 'strand')).toBe(SearchRelevance.NAME_WORD_START);
+    expect(service.score(strandmon, 'mon')).toBe(SearchRelevance.NAME_PARTIAL);
+    expect(service.score(strandmon, 'poang')).toBe(SearchRelevance.DETAIL);
+  });
+
+  it('should add a bonus when the query is the whole name', () => {
+    expect(service.score(poang, 'Poäng')).toBe(SearchRelevance.NAME_WORD + SearchRelevance.EXACT_NAME);
+  });
+
+  it('should score 0 unless every term matches', () => {
+    expect(service.score(cushion, 'poang seat')).toBe(SearchRelevance.NAME_WORD + SearchRelevance.DETAIL);
+    expect(service.score(cushion, 'poang oak')).toBe(0);
+    expect(service.score(cushion, ' ')).toBe(0);
+  });
+
+  it('should match the product number with or without dots', () => {
+    expect(service.score(satsumas, '702.581')).toBe(SearchRelevance.PRODUCT_NUMBER);
+    expect(service.score(satsumas, '70258154')).toBe(SearchRelevance.PRODUCT_NUMBER);
+  });
+
+  it('should match Arabic queries by the sound of the name and by the Arabic details', () => {
+    expect(service.score(satsumas, 'ساتسوماس')).toBe(SearchRelevance.NAME_SOUND);
+    expect(service.score(satsumas, 'نَباتات')).toBe(SearchRelevance.DETAIL);
+    expect(service.rank([billy, satsumas], 'ساتسوماس')).toEqual([satsumas]);
+  });
+
+  it('should rank the matching products only, most relevant first', () => {
+    expect(service.rank([billy, strandmon, cushion, poang], 'poang')).toEqual([poang, cushion, strandmon]);
+  });
+
+  it('should keep the original order of products with the same score', () => {
+    const chair = createProduct('POÄNG chair');
+    expect(service.rank([cushion, chair], 'poang')).toEqual([cushion, chair]);
+    expect(service.rank([chair, cushion], 'poang')).toEqual([chair, cushion]);
+  });
+
+  it('should sort products that do not match to the end, in their original order', () => {
+    expect(service.sort([billy, strandmon, satsumas, poang], 'poang')).toEqual([poang, strandmon, billy, satsumas]);
+  });
+});
@@ -0,0 +1,103 @@
+import { Injectable } from '@angular/core';
+import { Product } from '../../../shared/interfaces/product.interface';
+import { LocalizedText } from '../../../shared/interfaces/locale-config.interface';
+import { SearchRelevance } from '../../../shared/constants/app.constants';
+import { SearchTextService } from './search-text.service';
+
+/**
+ * Product Relevance Service
+ * Matches products against a search query in every supported language and
+ * ranks them. The mock search ranks the whole catalogue; ProductService
+ * orders the pages loaded from the productSearch endpoint
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProductRelevanceService {
+  constructor(private searchText: SearchTextService) {}
+
+  /**
+   * Keep the matching products, most relevant first
+   * Products with the same score keep their original order
+   */
+  rank(products: Product[], query: string): Product[] {
+    return this.scoreAll(products, query)
+      .filter(result => result.score > 0)
+      .map(result => result.product);
+  }
+
+  /**
+   * Order products by relevance, keeping the ones that do not match
+   * (e.g. matched by the endpoint in ways scored here) at the end
+   */
+  sort(products: Product[], query: string): Product[] {
+    return this.scoreAll(products, query).map(result => result.product);
+  }
+
+  /**
+   * Relevance of a product for a query
+   * Every term has to match somewhere, otherwise the score is 0
+   */
+  score(product: Product, query: string): number {
+    const terms = this.searchText.getTerms(query);
+    if (terms.length === 0) {
+      return 0;
+    }
+
+    const names = this.getTexts(product.name, product.localizedName);
+    const details = [
+      ...this.getTexts(product.description, product.localizedDescription),
+      ...this.getTexts(product.categoryName, product.localizedCategoryName)
+    ];
+    const productNumbers = [product.productNumber, product.productNumber.replace(/\D/g, '')];
+
+    let score = 0;
+    for (const term of terms) {
+      const termScore = Math.max(
+        ...names.map(name => this.scoreName(name, term)),
+        productNumbers.some(productNumber => productNumber.includes(term)) ? SearchRelevance.PRODUCT_NUMBER : 0,
+        details.some(detail => this.searchText.containsTerm(detail, term)) ? SearchRelevance.DETAIL : 0
+      );
+      if (termScore === 0) {
+        return 0;
+      }
+      score += termScore;
+    }
+
+    return names.includes(terms.join(' ')) ? score + SearchRelevance.EXACT_NAME : score;
+  }
+
+  /**
+   * Products with their score, most relevant first, ties in original order
+   */
+  private scoreAll(products: Product[], query: string): { product: Product; score: number }[] {
+    return products
+      .map((product, index) => ({ product, index, score: this.score(product, query) }))
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+  }
+
+  private scoreName(name: string, term: string): number {
+    const words = name.split(/\s+/);
+    if (words.includes(term)) {
+      return SearchRelevance.NAME_WORD;
+    }
+    if (words.some(word => word.startsWith(term))) {
+      return SearchRelevance.NAME_WORD_START;
+    }
+    if (name.includes(term)) {
+      return SearchRelevance.NAME_PARTIAL;
+    }
+    if (words.some(word => this.searchText.soundsLike(term, word))) {
+      return SearchRelevance.NAME_SOUND;
+    }
+    return 0;
+  }
+
+  /**
+   * Normalized text of a field in every language (without duplicates)
+   */
+  private getTexts(text: string, localized?: LocalizedText): string[] {
+    const texts = [text, ...Object.values(localized ?? {})].map(value => this.searchText.normalize(value));
+    return [...new Set(texts)];
+  }
+}
@@ -0,0 +1,128 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ProductService } from './product.service';
+import { APIService } from '../../../core/services/api.service';
+import { Product, SearchResult } from '../../../shared/interfaces/product.interface';
+import { environment } from '../../../../environments/environment';
+
+function createProduct(name: string): Product {
+  return {
+    id: name.toLowerCase().replace(/\W+/g, '-'),
+    productNumber: '000.000.00',
+    name,
+    description: '',
+    categoryId: 'furniture',
+    categoryName: 'Furniture',
+    imageUrl: '',
+    thumbnailUrl: '',
+    basePrice: 100,
+    conditions: [],
+    isEligible: true
+  };
+}
+
+describe('ProductService', () => {
+  const useMock = environment.features.mockApiResponses;
+
+  let service: ProductService;
+  let http: HttpTestingController;
+  let searchUrl: string;
+
+  beforeEach(() => {
+    // Search the API, as in production
+    environment.features.mockApiResponses = false;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(ProductService);
+    http = TestBed.inject(HttpTestingController);
+    searchUrl = TestBed.inject(APIService).productSearch;
+  });
+
+  afterEach(() => {
+    http.verify();
+    environment.features.mockApiResponses = useMock;
+    vi.restoreAllMocks();
+  });
+
+  const respond = (page: number, products: Product[], totalCount: number) =>
+    http.expectOne(request => request.url === searchUrl && request.params.get('page') === String(page))
+      .flush({ products, totalCount, page, pageSize: 2 } as SearchResult);
+
+  const names = () => service.products().map(product => product.name);
+
+  describe('search by relevance', () => {
+    it('should rank the loaded pages together as more are loaded', () => {
+      service.setSearchQuery('poang');
+      respond(1, [createProduct('POÄNG cushion'), createProduct('STRANDMON')], 4);
+      expect(names()).toEqual(['POÄNG cushion', 'STRANDMON']);
+
+      service.loadNextPage();
+      respond(2, [createProduct('BILLY'), createProduct('POÄNG')], 4);
+      expect(names()).toEqual(['POÄNG', 'POÄNG cushion', 'STRANDMON', 'BILLY']);
+    });
+
+    it('should keep the endpoint order for another sort order', () => {
+      service.setSearchQuery('poang');
+      respond(1, [createProduct('POÄNG cushion'), createProduct('POÄNG')], 4);
+      service.setFacetSelection({ sortBy: 'NAME' });
+      respond(1, [createProduct('POÄNG cushion'), createProduct('POÄNG')], 4);
+
+      expect(names()).toEqual(['POÄNG cushion', 'POÄNG']);
+    });
+
+    it('should send a Latin spelling of Arabic queries', () => {
+      service.setSearchQuery('ساتسوماس');
+      const request = http.expectOne(req => req.url === searchUrl);
+
+      expect(request.request.params.get('query')).toBe('ساتسوماس');
+      expect(request.request.params.get('transliteratedQuery')).toBe('satsomas');
+      request.flush({ products: [], totalCount: 0, page: 1, pageSize: 2 });
+    });
+  });
+
+  describe('loading more', () => {
+    const failPage = (page: number) =>
+      http.expectOne(request => request.url === searchUrl && request.params.get('page') === String(page))
+        .flush(null, { status: 503, statusText: 'Service Unavailable' });
+
+    it('should keep the loaded products when the next page fails', () => {
+      service.setSearchQuery('poang');
+      respond(1, [createProduct('POÄNG'), createProduct('POÄNG cushion')], 4);
+
+      service.loadNextPage();
+      failPage(2);
+
+      expect(names()).toEqual(['POÄNG', 'POÄNG cushion']);
+      expect(service.totalCount()).toBe(4);
+      expect(service.hasMoreProducts()).toBe(true);
+      expect(service.hasNextPageError()).toBe(true);
+      expect(service.isLoading()).toBe(false);
+    });
+
+    it('should request the failed page again on retry', () => {
+      service.setSearchQuery('poang');
+      respond(1, [createProduct('POÄNG')], 2);
+      service.loadNextPage();
+      failPage(2);
+
+      service.loadNextPage();
+      expect(service.hasNextPageError()).toBe(false);
+      respond(2, [createProduct('POÄNG cushion')], 2);
+
+      expect(names()).toEqual(['POÄNG', 'POÄNG cushion']);
+      expect(service.hasMoreProducts()).toBe(false);
+    });
+
+    it('should show no results when the first page fails', () => {
+      service.setSearchQuery('poang');
+      failPage(1);
+
+      expect(service.products()).toEqual([]);
+      expect(service.totalCount()).toBe(0);
+      expect(service.hasNextPageError()).toBe(false);
+    });
+  });
+});
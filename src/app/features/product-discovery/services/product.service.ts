@@ -1,9 +1,32 @@
 import { Injectable, signal, computed } from '@angular/core';
-import { Product, ProductFilter, SearchResult } from '../../../shared/interfaces/product.interface';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { ParamMap, Params } from '@angular/router';
+import { Observable, Subject, of, throwError } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import { APIService } from '../../../core/services/api.service';
+import {
+  ArticleLookupResult,
+  Product,
+  ProductFacets,
+  ProductFacetSelection,
+  ProductFilter,
+  SearchResult
+} from '../../../shared/interfaces/product.interface';
+import { API, ArticleScanner, HttpStatus, Pagination, ProductCondition, ProductSort } from '../../../shared/constants/app.constants';
+import { QueryParams } from '../../../shared/constants/routes.constants';
+import { environment } from '../../../../environments/environment';
+import { ArticleNumberService } from './article-number.service';
+import { ProductLocalizationService } from './product-localization.service';
+import { ProductMockService } from './product-mock.service';
+import { ProductRelevanceService } from './product-relevance.service';
+import { SearchTextService } from './search-text.service';
 
 /**
  * Product Service
  * Manages product data and search functionality
+ *
+ * Filtering and pagination happen server-side: every filter change
+ * requests a fresh page from the products/productSearch endpoints.
  */
 @Injectable({
   providedIn: 'root'
@@ -14,38 +37,85 @@ export class ProductService {
   private _searchQuery = signal<string>('');
   private _currentFilter = signal<ProductFilter>({});
   private _isLoading = signal<boolean>(false);
+  private _totalCount = signal<number>(0);
+  private _facets = signal<ProductFacets | null>(null);
+  private _hasNextPageError = signal<boolean>(false);
 
   // Public readonly signals
   readonly products = this._products.asReadonly();
   readonly searchQuery = this._searchQuery.asReadonly();
+  readonly currentFilter = this._currentFilter.asReadonly();
   readonly isLoading = this._isLoading.asReadonly();
+  readonly totalCount = this._totalCount.asReadonly();
+  readonly facets = this._facets.asReadonly();
+  readonly hasNextPageError = this._hasNextPageError.asReadonly();
 
   // Computed signals
-  readonly filteredProducts = computed(() => {
-    const filter = this._currentFilter();
-    let filtered = this._products();
+  // Results are already filtered by the API, kept for existing consumers
+  readonly filteredProducts = computed(() => this._products());
 
-    if (filter.categoryId) {
-      filtered = filtered.filter(p => p.categoryId === filter.categoryId);
-    }
+  readonly productCount = computed(() => this._totalCount());
 
-    if (filter.searchQuery) {
-      const query = filter.searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        p =>
-          p.name.toLowerCase().includes(query) ||
-          p.description.toLowerCase().includes(query) ||
-          p.productNumber.toLowerCase().includes(query)
-      );
-    }
+  readonly hasMoreProducts = computed(() => this._products().length < this._totalCount());
+
+  readonly facetSelection = computed<ProductFacetSelection>(() => {
+    const { minPrice, maxPrice, conditions, series, colours, materials, sortBy, includeIneligible } = this._currentFilter();
+    return { minPrice, maxPrice, conditions, series, colours, materials, sortBy, includeIneligible };
+  });
 
-    return filtered;
+  readonly hasActiveFacets = computed(() => {
+    const { minPrice, maxPrice, conditions, series, colours, materials } = this.facetSelection();
+    return minPrice !== undefined || maxPrice !== undefined ||
+      [conditions, series, colours, materials].some(values => !!values?.length);
   });
 
-  readonly productCount = computed(() => this.filteredProducts().length);
+  // Pending filter requests - switchMap drops responses for outdated filters
+  private filterRequests = new Subject<ProductFilter>();
+
+  private useMock = environment.features.mockApiResponses;
 
-  constructor() {
-    this.loadMockProducts();
+  constructor(
+    private http: HttpClient,
+    private api: APIService,
+    private articleNumberService: ArticleNumberService,
+    private localization: ProductLocalizationService,
+    private relevance: ProductRelevanceService,
+    private searchText: SearchTextService,
+    private mockService: ProductMockService
+  ) {
+    this.filterRequests
+      .pipe(
+        switchMap(filter =>
+          this.hasCriteria(filter)
+            ? this.searchProducts(filter).pipe(
+                map((result): { filter: ProductFilter; result: SearchResult | null } => ({ filter, result })),
+                catchError(() => of({ filter, result: null }))
+              )
+            : of({ filter, result: this.emptyResult(filter) })
+        )
+      )
+      .subscribe(({ filter, result }) => {
+        const page = filter.page || Pagination.DEFAULT_PAGE;
+        const isNextPage = page > Pagination.DEFAULT_PAGE;
+        if (!result) {
+          // Keep the loaded pages, so loadNextPage requests the failed page again
+          this._currentFilter.set({ ...filter, page: page - 1 });
+          this._hasNextPageError.set(true);
+          this._isLoading.set(false);
+          return;
+        }
+        this._products.update(products => {
+          if (!isNextPage) {
+            return result.products;
+          }
+          // Pages are ranked one by one, so the loaded pages are ranked again together
+          const loaded = [...products, ...result.products];
+          return this.isRankedByRelevance(filter) ? this.relevance.sort(loaded, filter.searchQuery!) : loaded;
+        });
+        this._totalCount.set(result.totalCount);
+        this._facets.set(result.facets ?? null);
+        this._isLoading.set(false);
+      });
   }
 
   /**
@@ -53,117 +123,297 @@ export class ProductService {
    */
   setSearchQuery(query: string): void {
     this._searchQuery.set(query);
-    this._currentFilter.update(filter => ({ ...filter, searchQuery: query }));
+    this.applyFilter({ ...this._currentFilter(), searchQuery: query, page: Pagination.DEFAULT_PAGE });
   }
 
   /**
    * Set category filter
    */
   setCategoryFilter(categoryId: string | undefined): void {
-    this._currentFilter.update(filter => ({ ...filter, categoryId }));
+    this.applyFilter({ ...this._currentFilter(), categoryId, page: Pagination.DEFAULT_PAGE });
+  }
+
+  /**
+   * Replace the selected facets and sort order and reload from the first page
+   */
+  setFacetSelection(selection: ProductFacetSelection): void {
+    const {
+      minPrice, maxPrice, conditions, series, colours, materials, sortBy, includeIneligible, ...filter
+    } = this._currentFilter();
+    this.applyFilter({ ...filter, ...selection, page: Pagination.DEFAULT_PAGE });
+  }
+
+  /**
+   * Clear the selected facets, keeping the sort order and ineligible toggle
+   */
+  clearFacets(): void {
+    const { sortBy, includeIneligible } = this._currentFilter();
+    this.setFacetSelection({ sortBy, includeIneligible });
+  }
+
+  /**
+   * Query string parameters for the selected facets (for bookmarkable URLs)
+   * Unset facets map to null so they are removed from the URL
+   */
+  getFacetQueryParams(): Params {
+    const { minPrice, maxPrice, conditions, series, colours, materials, sortBy, includeIneligible } = this.facetSelection();
+    const list = (values: string[] | undefined) => (values?.length ? values.join(',') : null);
+    return {
+      [QueryParams.MIN_PRICE]: minPrice ?? null,
+      [QueryParams.MAX_PRICE]: maxPrice ?? null,
+      [QueryParams.CONDITION]: list(conditions),
+      [QueryParams.SERIES]: list(series),
+      [QueryParams.COLOUR]: list(colours),
+      [QueryParams.MATERIAL]: list(materials),
+      [QueryParams.SORT]: sortBy ?? null,
+      [QueryParams.SHOW_INELIGIBLE]: includeIneligible ? 'true' : null
+    };
+  }
+
+  /**
+   * Read facets and sort order from query string parameters
+   * Unknown conditions, sort orders and malformed prices are ignored
+   */
+  parseFacetQueryParams(params: ParamMap): ProductFacetSelection {
+    const list = (key: string) => params.get(key)?.split(',').filter(value => !!value) || undefined;
+    const price = (key: string) => {
+      const value = Number(params.get(key) ?? NaN);
+      return Number.isFinite(value) && value >= 0 ? value : undefined;
+    };
+    const sortBy = params.get(QueryParams.SORT);
+    const conditions = list(QueryParams.CONDITION)?.filter(
+      (value): value is ProductCondition.Condition => (ProductCondition.ALL as readonly string[]).includes(value)
+    );
+
+    return {
+      minPrice: price(QueryParams.MIN_PRICE),
+      maxPrice: price(QueryParams.MAX_PRICE),
+      conditions: conditions?.length ? conditions : undefined,
+      series: list(QueryParams.SERIES),
+      colours: list(QueryParams.COLOUR),
+      materials: list(QueryParams.MATERIAL),
+      sortBy: (ProductSort.ALL as readonly string[]).includes(sortBy ?? '') ? sortBy as ProductSort.Sort : undefined,
+      includeIneligible: params.get(QueryParams.SHOW_INELIGIBLE) === 'true' || undefined
+    };
+  }
+
+  /**
+   * Set page size and reload from the first page
+   */
+  setPageSize(pageSize: number): void {
+    this.applyFilter({ ...this._currentFilter(), pageSize, page: Pagination.DEFAULT_PAGE });
+  }
+
+  /**
+   * Load the next page and append it to the current results
+   * Also retries a next page that failed to load (see hasNextPageError)
+   */
+  loadNextPage(): void {
+    if (this._isLoading() || !this.hasMoreProducts()) {
+      return;
+    }
+
+    const filter = this._currentFilter();
+    this.applyFilter({ ...filter, page: (filter.page || Pagination.DEFAULT_PAGE) + 1 });
   }
 
   /**
    * Clear all filters
    */
   clearFilters(): void {
-    this._currentFilter.set({});
     this._searchQuery.set('');
+    this.applyFilter({});
   }
 
   /**
-   * Get product by ID
+   * Get product by ID from the loaded results
    */
   getProductById(productId: string): Product | undefined {
     return this._products().find(p => p.id === productId);
   }
 
   /**
-   * Search products (will be replaced with API call)
+   * Get a product by ID, from the loaded results or the product endpoint
+   * (e.g. when a product link is opened directly)
+   * Null when the product does not exist; errors when the request fails
+   * (e.g. offline), so callers do not take an outage for a removed product
    */
-  searchProducts(query: string): SearchResult {
-    this.setSearchQuery(query);
-    const products = this.filteredProducts();
+  getProduct(productId: string): Observable<Product | null> {
+    const loaded = this.getProductById(productId);
+    if (loaded) {
+      return of(loaded);
+    }
+
+    const source$ = this.useMock
+      ? this.mockService.getProduct(productId)
+      : this.http.get<Product>(`${this.api.products}/${encodeURIComponent(productId)}`);
 
+    return source$.pipe(
+      map(product => product ? this.localization.localize(product) : null),
+      catchError((error: HttpErrorResponse) => {
+        if (error.status === HttpStatus.NOT_FOUND) {
+          return of(null);
+        }
+        console.error('Product loading error:', error);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Look up a product by its article number (normalized, e.g. "305.292.87")
+   * The endpoint also returns near matches, offered as suggestions when
+   * there is no exact match
+   */
+  findByArticleNumber(articleNumber: string): Observable<ArticleLookupResult> {
+    // Ineligible products are included so a scanned label can explain why
+    return this.searchProducts({ articleNumber, includeIneligible: true, page: Pagination.DEFAULT_PAGE }).pipe(
+      map(result => {
+        const candidates = result.products
+          .map(product => ({
+            product,
+            distance: this.articleNumberService.distance(product.productNumber, articleNumber)
+          }))
+          .filter(candidate => candidate.distance <= ArticleScanner.MAX_MATCH_DISTANCE)
+          .sort((a, b) => a.distance - b.distance);
+
+        const exactMatch = candidates.find(candidate => candidate.distance === 0);
+        return {
+          articleNumber,
+          product: exactMatch ? exactMatch.product : null,
+          suggestions: exactMatch ? [] : candidates.map(candidate => candidate.product)
+        };
+      })
+    );
+  }
+
+  /**
+   * Search products
+   * Calls productSearch when a query is present, otherwise the products listing.
+   * Products are localized to the current language. Unless another sort order
+   * is chosen, each page of search results is ordered by ProductRelevanceService
+   * (Arabic spellings, every language), as the endpoint's order is not known;
+   * the loaded pages are ranked together again as more are loaded.
+   * A failed first page gives no results; a failed next page errors, so the
+   * pages already loaded are kept.
+   */
+  searchProducts(filter: ProductFilter): Observable<SearchResult> {
+    const page = Math.max(filter.page || Pagination.DEFAULT_PAGE, Pagination.DEFAULT_PAGE);
+    const pageSize = Math.min(filter.pageSize || API.DEFAULT_PAGE_SIZE, API.MAX_PAGE_SIZE);
+    const request: ProductFilter = { ...filter, page, pageSize };
+
+    const source$ = this.useMock
+      ? this.mockService.search(request)
+      : this.http.get<SearchResult>(
+          request.searchQuery ? this.api.productSearch : this.api.products,
+          { params: this.buildParams(request) }
+        );
+
+    return source$.pipe(
+      map(result => {
+        const products = result.products.map(product => this.localization.localize(product));
+        return {
+          ...result,
+          products: this.isRankedByRelevance(request) ? this.relevance.sort(products, request.searchQuery!) : products
+        };
+      }),
+      catchError(error => {
+        console.error('Product search error:', error);
+        return page > Pagination.DEFAULT_PAGE ? throwError(() => error) : of(this.emptyResult(request));
+      })
+    );
+  }
+
+  /**
+   * Store the filter and request matching products
+   */
+  private applyFilter(filter: ProductFilter): void {
+    this._currentFilter.set(filter);
+    this._hasNextPageError.set(false);
+    this._isLoading.set(this.hasCriteria(filter));
+    this.filterRequests.next(filter);
+  }
+
+  /**
+   * Search results keep the relevance order unless another sort order is chosen
+   */
+  private isRankedByRelevance(filter: ProductFilter): boolean {
+    return !!filter.searchQuery && (filter.sortBy ?? ProductSort.RELEVANCE) === ProductSort.RELEVANCE;
+  }
+
+  /**
+   * Products are only requested once a category or search query is set
+   */
+  private hasCriteria(filter: ProductFilter): boolean {
+    return !!filter.categoryId || !!filter.searchQuery;
+  }
+
+  /**
+   * Empty result for a filter (no criteria or failed request)
+   */
+  private emptyResult(filter: ProductFilter): SearchResult {
     return {
-      products,
-      totalCount: products.length,
-      page: 1,
-      pageSize: products.length
+      products: [],
+      totalCount: 0,
+      page: filter.page || Pagination.DEFAULT_PAGE,
+      pageSize: filter.pageSize || Pagination.DEFAULT_PAGE_SIZE
     };
   }
 
   /**
-   * Load mock products (will be replaced with API call)
-   */
-  private loadMockProducts(): void {
-    const mockProducts: Product[] = [
-      {
-        id: 'p1',
-        productNumber: '305.292.87',
-        name: 'SATSUMAS',
-        description: 'Plant stand, bamboo/white, 70 cm',
-        categoryId: '1-1-1',
-        categoryName: 'Plant pots',
-        imageUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__1067309_ph179330_s4.jpg',
-        thumbnailUrl: 'https://www.ikea.com/us/en/images/products/ingatorp-extendable-table-white__0737089_pe740879_s4.jpg',
-        basePrice: 28.00,
-        conditions: [
-          {
-            condition: 'LIKE_NEW',
-            price: 28.00,
-            familyMemberPrice: 35.00,
-            description: 'No scratches'
-          },
-          {
-            condition: 'VERY_GOOD',
-            price: 20.00,
-            familyMemberPrice: 25.00,
-            description: 'Minor scratches'
-          },
-          {
-            condition: 'WELL_USED',
-            price: 12.00,
-            familyMemberPrice: 15.00,
-            description: 'Several scratches'
-          }
-        ],
-        isEligible: true
-      },
-      {
-        id: 'p2',
-        productNumber: '604.575.92',
-        name: 'VANILJSTÅNG',
-        description: 'Plant stand, pine/black, 67 cm',
-        categoryId: '1-1-1',
-        categoryName: 'Plant pots',
-        imageUrl: 'https://www.ikea.com/us/en/images/products/besta-tv-unit-dark-gray__1255236_pe924457_s4.jpg',
-        thumbnailUrl: 'https://www.ikea.com/us/en/images/products/besta-tv-unit-dark-gray__1219601_pe913478_s4.jpg',
-        basePrice: 35.00,
-        conditions: [
-          {
-            condition: 'LIKE_NEW',
-            price: 35.00,
-            familyMemberPrice: 43.75,
-            description: 'No scratches'
-          },
-          {
-            condition: 'VERY_GOOD',
-            price: 25.00,
-            familyMemberPrice: 31.25,
-            description: 'Minor scratches'
-          },
-          {
-            condition: 'WELL_USED',
-            price: 15.00,
-            familyMemberPrice: 18.75,
-            description: 'Several scratches'
-          }
-        ],
-        isEligible: true
+   * Map a product filter to query string parameters
+   */
+  private buildParams(filter: ProductFilter): HttpParams {
+    let params = new HttpParams()
+      .set('page', filter.page)
+      .set('pageSize', filter.pageSize);
+
+    if (filter.categoryId) {
+      params = params.set('categoryId', filter.categoryId);
+    }
+
+    // Sent normalized (case, accents, harakat, Arabic letter variants), with a
+    // Latin spelling of Arabic queries as IKEA names are Latin in every language
+    if (filter.searchQuery) {
+      const query = this.searchText.normalize(filter.searchQuery).trim();
+      params = params.set('query', query);
+      if (this.searchText.isArabic(query)) {
+        params = params.set('transliteratedQuery', this.searchText.transliterate(query));
       }
+    }
+
+    if (filter.articleNumber) {
+      params = params.set('articleNumber', filter.articleNumber);
+    }
+
+    if (filter.minPrice !== undefined) {
+      params = params.set('minPrice', filter.minPrice);
+    }
+
+    if (filter.maxPrice !== undefined) {
+      params = params.set('maxPrice', filter.maxPrice);
+    }
+
+    const lists: [string, string[] | undefined][] = [
+      ['conditions', filter.conditions],
+      ['series', filter.series],
+      ['colours', filter.colours],
+      ['materials', filter.materials]
     ];
+    for (const [key, values] of lists) {
+      if (values?.length) {
+        params = params.set(key, values.join(','));
+      }
+    }
+
+    if (filter.sortBy) {
+      params = params.set('sortBy', filter.sortBy);
+    }
+
+    if (filter.includeIneligible) {
+      params = params.set('includeIneligible', true);
+    }
 
-    this._products.set(mockProducts);
+    return params;
   }
 }
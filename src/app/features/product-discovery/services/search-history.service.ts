@@ -0,0 +1,48 @@
+import { Injectable, signal } from '@angular/core';
+import { DatastoreService } from '../../../core/services/datastore.service';
+import { SearchSuggestions } from '../../../shared/constants/app.constants';
+
+/**
+ * Search History Service
+ * Remembers the user's recent search queries on this device
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SearchHistoryService {
+  // Private state
+  private _recentSearches = signal<string[]>([]);
+
+  // Public readonly signals
+  readonly recentSearches = this._recentSearches.asReadonly();
+
+  constructor(private datastore: DatastoreService) {
+    this._recentSearches.set(this.datastore.getRecentSearches());
+  }
+
+  /**
+   * Add a query to the top of the recent searches (without duplicates)
+   */
+  addSearch(query: string): void {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    const searches = [
+      trimmed,
+      ...this._recentSearches().filter(search => search.toLowerCase() !== trimmed.toLowerCase())
+    ].slice(0, SearchSuggestions.MAX_RECENT_SEARCHES);
+
+    this._recentSearches.set(searches);
+    this.datastore.setRecentSearches(searches);
+  }
+
+  /**
+   * Forget all recent searches
+   */
+  clear(): void {
+    this._recentSearches.set([]);
+    this.datastore.clearRecentSearches();
+  }
+}
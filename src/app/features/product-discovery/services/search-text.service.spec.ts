@@ -0,0 +1,93 @@
+import { TestBed } from '@angular/core/testing';
+import { SearchTextService, TextFragment } from './search-text.service';
+
+describe('SearchTextService', () => {
+  let service: SearchTextService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(SearchTextService);
+  });
+
+  const matchedText = (fragments: TextFragment[]) =>
+    fragments.filter(fragment => fragment.isMatch).map(fragment => fragment.text);
+
+  it('should fold case and accents', () => {
+    expect(service.normalize('VANILJSTÅNG Säng')).toBe('vaniljstang sang');
+    expect(service.normalize('')).toBe('');
+  });
+
+  it('should split a query into normalized terms', () => {
+    expect(service.getTerms('  Poäng   ARMCHAIR ')).toEqual(['poang', 'armchair']);
+    expect(service.getTerms('   ')).toEqual([]);
+  });
+
+  it('should match text containing every term, in any order', () => {
+    expect(service.matches('POÄNG Armchair, birch veneer', 'armchair poang')).toBe(true);
+    expect(service.matches('POÄNG Armchair, birch veneer', 'armchair oak')).toBe(false);
+  });
+
+  it('should highlight matches in the original spelling', () => {
+    const fragments = service.highlight('POÄNG Armchair', 'poang');
+
+    expect(fragments).toEqual([
+      { text: 'POÄNG', isMatch: true },
+      { text: ' Armchair', isMatch: false }
+    ]);
+  });
+
+  it('should highlight every occurrence of every term', () => {
+    expect(matchedText(service.highlight('Chair and armchair', 'chair arm'))).toEqual(['Chair', 'armchair']);
+  });
+
+  it('should not highlight anything without a query', () => {
+    expect(service.highlight('POÄNG', ' ')).toEqual([{ text: 'POÄNG', isMatch: false }]);
+  });
+
+  describe('Arabic', () => {
+    it('should drop harakat and tatweel, and unify letter variants and digits', () => {
+      expect(service.normalize('أَحْمَد')).toBe('احمد');
+      expect(service.normalize('كـرسي')).toBe('كرسي');
+      expect(service.normalize('طاولة مستشفى')).toBe('طاوله مستشفي');
+      expect(service.normalize('١٢٣')).toBe('123');
+    });
+
+    it('should transliterate letter by letter', () => {
+      expect(service.transliterate('ساتسوماس')).toBe('satsomas');
+      expect(service.transliterate('كُرسي 2')).toBe('krsi 2');
+    });
+
+    it('should match Latin names spelled in Arabic', () => {
+      expect(service.matches('SATSUMAS plant stand', 'ساتسوماس')).toBe(true);
+      expect(service.matches('POÄNG armchair', 'بوانج')).toBe(true);
+      expect(service.matches('KALLAX shelving unit', 'كاليكس')).toBe(true);
+    });
+
+    it('should match a partly typed name from its start', () => {
+      expect(service.soundsLike('ساتس', 'satsumas')).toBe(true);
+      expect(service.soundsLike('سوماس', 'satsumas')).toBe(false);
+    });
+
+    it('should allow one sound off in longer names only', () => {
+      expect(service.soundsLike('ساتسوماك', 'satsumas')).toBe(true);
+      expect(service.soundsLike('ساتك', 'satsumas')).toBe(false);
+    });
+
+    it('should only match sounds from Arabic terms to Latin words', () => {
+      expect(service.soundsLike('satsumas', 'satsumas')).toBe(false);
+      expect(service.soundsLike('ساتسوماس', 'ساتسوماس')).toBe(false);
+      expect(service.matches('كرسي ساتسوماس', 'ساتسوماس')).toBe(true);
+    });
+
+    it('should highlight a Latin name spelled in Arabic as a whole word', () => {
+      expect(matchedText(service.highlight('SATSUMAS plant stand', 'ساتس'))).toEqual(['SATSUMAS']);
+    });
+
+    it('should highlight harakat with the letter they belong to', () => {
+      expect(service.highlight('كُرسي خشب', 'كرسي')).toEqual([
+        { text: 'كُرسي', isMatch: true },
+        { text: ' خشب', isMatch: false }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { Injectable } from '@angular/core';
+
+/**
+ * Part of a text, flagged when it matches the search query
+ */
+export interface TextFragment {
+  text: string;
+  isMatch: boolean;
+}
+
+/**
+ * Search Text Service
+ * Accent- and case-insensitive text matching and match highlighting,
+ * so "vaniljstang" finds "VANILJSTÅNG" and Arabic queries ignore harakat.
+ *
+ * Arabic is normalized (alef/hamza variants, taa marbuta, alef maqsura,
+ * Arabic-Indic digits), and Arabic-typed spellings of IKEA names match the
+ * Latin name by sound, e.g. "ساتسوماس" finds "SATSUMAS".
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SearchTextService {
+  // Latin combining accents, Arabic harakat, superscript alef and tatweel
+  private readonly ignoredMarks = /[\u0300-\u036f\u064b-\u065f\u0670\u0640]/g;
+
+  private readonly arabicLetters = /[\u0600-\u06ff]/;
+
+  // Spelling variants folded to one letter
+  private readonly arabicVariants: Record<string, string> = {
+    'أ': 'ا', 'إ': 'ا', 'آ': 'ا', 'ٱ': 'ا',
+    'ؤ': 'و', 'ئ': 'ي', 'ى': 'ي', 'ة': 'ه',
+    '٠': '0', '١': '1', '٢': '2', '٣': '3', '٤': '4',
+    '٥': '5', '٦': '6', '٧': '7', '٨': '8', '٩': '9'
+  };
+
+  // Consonant sound classes - vowels, weak letters and h are dropped, as Arabic
+  // spellings of Latin names rarely agree on them
+  private readonly arabicSounds: Record<string, string> = {
+    'ب': 'b', 'پ': 'b', 'ت': 't', 'ط': 't', 'ث': 's', 'س': 's', 'ص': 's', 'ش': 's',
+    'ز': 's', 'ذ': 's', 'ظ': 's', 'ج': 'g', 'غ': 'g', 'گ': 'g', 'ك': 'k', 'ق': 'k',
+    'خ': 'k', 'د': 'd', 'ض': 'd', 'ر': 'r', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ف': 'f', 'ڤ': 'f'
+  };
+
+  // Usual Latin spelling of each Arabic letter, for transliterated queries
+  private readonly arabicToLatin: Record<string, string> = {
+    'ا': 'a', 'ب': 'b', 'پ': 'p', 'ت': 't', 'ث': 'th', 'ج': 'j', 'ح': 'h', 'خ': 'kh',
+    'د': 'd', 'ذ': 'th', 'ر': 'r', 'ز': 'z', 'س': 's', 'ش': 'sh', 'ص': 's', 'ض': 'd',
+    'ط': 't', 'ظ': 'z', 'ع': '', 'غ': 'g', 'ف': 'f', 'ڤ': 'v', 'ق': 'q', 'ك': 'k',
+    'گ': 'g', 'ل': 'l', 'م': 'm', 'ن': 'n', 'ه': 'h', 'و': 'o', 'ي': 'i', 'ء': ''
+  };
+
+  private readonly latinSounds: Record<string, string> = {
+    'b': 'b', 'p': 'b', 't': 't', 'd': 'd', 's': 's', 'z': 's', 'c': 'k', 'k': 'k',
+    'q': 'k', 'x': 'ks', 'g': 'g', 'f': 'f', 'v': 'f', 'w': 'f', 'l': 'l', 'm': 'm',
+    'n': 'n', 'r': 'r'
+  };
+
+  // Shortest phonetic key that may be one sound off and still match
+  private readonly minFuzzyKeyLength = 4;
+
+  /**
+   * Fold text for comparison: lower case without accents or harakat,
+   * Arabic letter variants unified
+   */
+  normalize(text: string): string {
+    return Array.from(text || '').map(char => this.fold(char)).join('');
+  }
+
+  /**
+   * Split a query into normalized search terms
+   */
+  getTerms(query: string): string[] {
+    return this.normalize(query).split(/\s+/).filter(term => term.length > 0);
+  }
+
+  /**
+   * Check if the text contains every term of the query
+   */
+  matches(text: string, query: string): boolean {
+    const normalizedText = this.normalize(text);
+    return this.getTerms(query).every(term => this.containsTerm(normalizedText, term));
+  }
+
+  /**
+   * Check if a normalized text contains a term, literally or (for Arabic
+   * terms) as the sound of one of its Latin words
+   */
+  containsTerm(normalizedText: string, term: string): boolean {
+    return normalizedText.includes(term) ||
+      (this.isArabic(term) && normalizedText.split(/\s+/).some(word => this.soundsLike(term, word)));
+  }
+
+  /**
+   * Check if an Arabic-typed term spells a Latin word
+   * Partially typed terms match the start of the word
+   */
+  soundsLike(arabicTerm: string, latinWord: string): boolean {
+    if (!this.isArabic(arabicTerm) || this.isArabic(latinWord)) {
+      return false;
+    }
+
+    const termKey = this.getPhoneticKey(arabicTerm);
+    const wordKey = this.getPhoneticKey(latinWord);
+    if (termKey.length < 2 || !wordKey) {
+      return false;
+    }
+
+    return wordKey.startsWith(termKey) ||
+      (termKey.length >= this.minFuzzyKeyLength && this.editDistance(termKey, wordKey) <= 1);
+  }
+
+  /**
+   * Rough Latin spelling of normalized text, letter by letter
+   * e.g. "ساتسوماس" becomes "satsomas"; non-Arabic characters are kept
+   */
+  transliterate(text: string): string {
+    return Array.from(this.normalize(text)).map(char => this.arabicToLatin[char] ?? char).join('');
+  }
+
+  /**
+   * Check if text contains Arabic script
+   */
+  isArabic(text: string): boolean {
+    return this.arabicLetters.test(text);
+  }
+
+  /**
+   * Split text into fragments, flagging the parts that match a query term
+   * The original spelling (case, accents) is kept in the fragments
+   */
+  highlight(text: string, query: string): TextFragment[] {
+    const terms = this.getTerms(query);
+    if (!text || terms.length === 0) {
+      return [{ text: text || '', isMatch: false }];
+    }
+
+    // Folded text plus, for each folded position, the character it came from
+    const chars = Array.from(text);
+    const foldedChars = chars.map(char => this.fold(char));
+    const origins = foldedChars.flatMap((folded, index) => Array.from({ length: folded.length }, () => index));
+    const folded = foldedChars.join('');
+
+    const matched = chars.map(() => false);
+    terms.forEach(term => {
+      let start = folded.indexOf(term);
+      while (start !== -1) {
+        for (let i = start; i < start + term.length; i++) {
+          matched[origins[i]] = true;
+        }
+        start = folded.indexOf(term, start + term.length);
+      }
+    });
+
+    // Latin words spelled by an Arabic term are highlighted as a whole
+    const arabicTerms = terms.filter(term => this.isArabic(term));
+    if (arabicTerms.length > 0) {
+      const wordPattern = /\S+/g;
+      let word: RegExpExecArray | null;
+      while ((word = wordPattern.exec(folded)) !== null) {
+        const latinWord = word[0];
+        if (arabicTerms.some(term => this.soundsLike(term, latinWord))) {
+          for (let i = word.index; i < word.index + latinWord.length; i++) {
+            matched[origins[i]] = true;
+          }
+        }
+      }
+    }
+
+    const fragments: TextFragment[] = [];
+    chars.forEach((char, index) => {
+      // Marks that fold away (e.g. harakat) follow the letter they belong to
+      const isMatch = foldedChars[index] === '' && index > 0 ? matched[index - 1] : matched[index];
+      matched[index] = isMatch;
+
+      const last = fragments[fragments.length - 1];
+      if (last && last.isMatch === isMatch) {
+        last.text += char;
+      } else {
+        fragments.push({ text: char, isMatch });
+      }
+    });
+
+    return fragments;
+  }
+
+  private fold(char: string): string {
+    const variant = this.arabicVariants[char] ?? char;
+    return variant.normalize('NFD').replace(this.ignoredMarks, '').toLowerCase();
+  }
+
+  /**
+   * Consonant skeleton of a normalized word, shared by Arabic and Latin spellings
+   */
+  private getPhoneticKey(word: string): string {
+    const sounds = this.isArabic(word) ? this.arabicSounds : this.latinSounds;
+    const key = Array.from(word).map(char => sounds[char] ?? '').join('');
+    return key.replace(/(.)\1+/g, '$1');
+  }
+
+  private editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
@@ -0,0 +1,25 @@
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { QrCodeComponent } from '../../../../shared/components/qr-code/qr-code.component';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { QuotationDocument } from '../../services/quotation-document.service';
+
+/**
+ * Quotation Document Component
+ * Printable quotation (see QuotationDocumentService), laid out for A4 and
+ * right to left in Arabic
+ */
+@Component({
+  selector: 'app-quotation-document',
+  standalone: true,
+  imports: [CommonModule, QrCodeComponent],
+  templateUrl: './quotation-document.component.html',
+  styleUrl: './quotation-document.component.scss'
+})
+export class QuotationDocumentComponent {
+  quotationDocument = input.required<QuotationDocument>();
+
+  translations = computed(() => this.locale.translations());
+
+  constructor(private locale: LocaleService) {}
+}
@@ -0,0 +1,108 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { BaseComponent } from '../../../../shared/base-classes/base.component';
+import { CountdownComponent } from '../../../../shared/components/countdown/countdown.component';
+import { QuotationService } from '../../services/quotation.service';
+import { StoreService } from '../../../buyback-list/services/store.service';
+import { LocaleService } from '../../../../core/services/locale.service';
+import { UtilityService } from '../../../../core/services/utility.service';
+import { QuotationStatus, Validation } from '../../../../shared/constants/app.constants';
+import { Routes as RouteConstants } from '../../../../shared/constants/routes.constants';
+
+@Component({
+  selector: 'app-my-quotations',
+  standalone: true,
+  imports: [CommonModule, RouterLink, CountdownComponent],
+  schemas: [CUSTOM_ELEMENTS_SCHEMA],
+  templateUrl: './my-quotations.component.html',
+  styleUrl: './my-quotations.component.scss'
+})
+export class MyQuotationsComponent extends BaseComponent {
+  // State
+  confirmationNumber = signal<string>('');
+  email = signal<string>('');
+
+  // Computed
+  translations = computed(() => this.locale.translations());
+  quotation = computed(() => this.quotationService.quotation());
+  isLoading = computed(() => this.quotationService.isLoading());
+  lookupError = computed(() => this.quotationService.lookupError());
+  isExpired = computed(() => this.quotationService.isExpired());
+
+  isEmailValid = computed(() => Validation.EMAIL_PATTERN.test(this.email().trim()));
+
+  isFormValid = computed(() => this.confirmationNumber().trim() !== '' && this.isEmailValid());
+
+  storeName = computed(() => {
+    const quotation = this.quotation();
+    const store = quotation && this.storeService.stores().find(s => s.id === quotation.storeId);
+    return store ? this.storeService.getStoreName(store) : '';
+  });
+
+  buybackQuoteLink = `/${RouteConstants.BUYBACK_QUOTE}`;
+
+  constructor(
+    private quotationService: QuotationService,
+    private storeService: StoreService,
+    private locale: LocaleService,
+    private utility: UtilityService
+  ) {
+    super();
+    this.storeService.loadStores();
+    this.quotationService.clear();
+
+    // Prefill with the quotation last submitted from this browser
+    const lastQuotation = this.quotationService.getLastQuotation();
+    if (lastQuotation) {
+      this.confirmationNumber.set(lastQuotation.confirmationNumber);
+      this.email.set(lastQuotation.email);
+    }
+  }
+
+  onConfirmationNumberInput(event: Event): void {
+    this.confirmationNumber.set((event.target as HTMLInputElement).value);
+  }
+
+  onEmailInput(event: Event): void {
+    this.email.set((event.target as HTMLInputElement).value);
+  }
+
+  findQuotation(): void {
+    if (!this.isFormValid() || this.isLoading()) {
+      return;
+    }
+    this.quotationService.lookup(this.confirmationNumber(), this.email());
+  }
+
+  getStatusLabel(status: QuotationStatus.Status): string {
+    const t = this.translations().quotations;
+    switch (status) {
+      case QuotationStatus.DRAFT: return t.statusDraft;
+      case QuotationStatus.SUBMITTED: return t.statusSubmitted;
+      case QuotationStatus.ACCEPTED: return t.statusAccepted;
+      case QuotationStatus.REJECTED: return t.statusRejected;
+      case QuotationStatus.EXPIRED: return t.statusExpired;
+      case QuotationStatus.COMPLETED: return t.statusCompleted;
+      default: return status;
+    }
+  }
+
+  getConditionLabel(condition: string): string {
+    const t = this.translations();
+    switch (condition) {
+      case 'LIKE_NEW': return t.conditionAssessment.likeNew;
+      case 'VERY_GOOD': return t.conditionAssessment.veryGood;
+      case 'WELL_USED': return t.conditionAssessment.wellUsed;
+      default: return condition;
+    }
+  }
+
+  formatDate(date: Date): string {
+    return this.utility.formatDate(date, 'long');
+  }
+
+  getPriceParts(price: number) {
+    return this.utility.splitPriceForSkapa(price);
+  }
+}
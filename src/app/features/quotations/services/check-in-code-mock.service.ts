@@ -0,0 +1,147 @@
+import { Injectable } from '@angular/core';
+import { CheckInCodes } from '../../../shared/constants/app.constants';
+import { environment } from '../../../../environments/environment';
+
+/**
+ * Check-in Code Mock Service
+ * Local stand-in for the backend issuing and checking check-in codes, used
+ * when environment.features.mockApiResponses is enabled.
+ * The tag is the first 80 bits of the HMAC-SHA256 of the market and number,
+ * in base32. The key is a mock key: the real key never leaves the backend.
+ * SHA-256 and HMAC-SHA256 (FIPS 180-4, RFC 2104) are computed here, as only
+ * mock mode needs them; synchronously, so mock codes are also issued offline
+ * and outside secure contexts, where the Web Crypto API is not available.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CheckInCodeMockService {
+  private readonly mockKey = 'mock-check-in-key';
+  private readonly base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  private readonly blockSize = 64;
+
+  // First 32 bits of the fractional parts of the cube roots of the first 64 primes
+  private readonly roundConstants = new Uint32Array([
+    0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+    0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+    0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+    0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+    0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+    0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+    0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+    0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+  ]);
+
+  // First 32 bits of the fractional parts of the square roots of the first 8 primes
+  private readonly initialHash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ];
+
+  /**
+   * Issue the check-in code of a quotation
+   */
+  issue(confirmationNumber: string, market: string = environment.market): string {
+    const fields = [CheckInCodes.FORMAT, market.toUpperCase(), confirmationNumber.toUpperCase()];
+    return [...fields, this.tag(fields[1], fields[2])].join(CheckInCodes.SEPARATOR);
+  }
+
+  /**
+   * Check that a (normalized) code was issued here
+   */
+  isIssued(code: string): boolean {
+    const [format, market, confirmationNumber] = code.split(CheckInCodes.SEPARATOR);
+    return format === CheckInCodes.FORMAT && !!market && !!confirmationNumber
+      && this.issue(confirmationNumber, market) === code;
+  }
+
+  private tag(market: string, confirmationNumber: string): string {
+    const bytes = this.hmacSha256(this.mockKey, `${market}${CheckInCodes.SEPARATOR}${confirmationNumber}`);
+    let result = '';
+    let buffer = 0;
+    let bits = 0;
+
+    bytes.forEach(byte => {
+      buffer = (buffer << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        bits -= 5;
+        result += this.base32Alphabet[(buffer >>> bits) & 31];
+      }
+    });
+
+    return result.substring(0, CheckInCodes.TAG_LENGTH);
+  }
+
+  /**
+   * SHA-256 digest of some bytes or UTF-8 text
+   */
+  private sha256(data: Uint8Array | string): Uint8Array {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+
+    // Padding: a 1 bit, zeros, then the message length in bits (64-bit big endian)
+    const paddedLength = Math.ceil((bytes.length + 9) / this.blockSize) * this.blockSize;
+    const padded = new Uint8Array(paddedLength);
+    padded.set(bytes);
+    padded[bytes.length] = 0x80;
+    const view = new DataView(padded.buffer);
+    view.setUint32(paddedLength - 8, Math.floor(bytes.length / 0x20000000));
+    view.setUint32(paddedLength - 4, (bytes.length * 8) >>> 0);
+
+    const hash = Uint32Array.from(this.initialHash);
+    const words = new Uint32Array(64);
+    const rotate = (value: number, bits: number) => (value >>> bits) | (value << (32 - bits));
+
+    for (let offset = 0; offset < paddedLength; offset += this.blockSize) {
+      for (let i = 0; i < 16; i++) {
+        words[i] = view.getUint32(offset + i * 4);
+      }
+      for (let i = 16; i < 64; i++) {
+        const s0 = rotate(words[i - 15], 7) ^ rotate(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+        const s1 = rotate(words[i - 2], 17) ^ rotate(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+        words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+      }
+
+      let [a, b, c, d, e, f, g, h] = hash;
+      for (let i = 0; i < 64; i++) {
+        const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+        const choice = (e & f) ^ (~e & g);
+        const temp1 = (h + s1 + choice + this.roundConstants[i] + words[i]) >>> 0;
+        const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+        const majority = (a & b) ^ (a & c) ^ (b & c);
+        const temp2 = (s0 + majority) >>> 0;
+        [h, g, f, e, d, c, b, a] = [g, f, e, (d + temp1) >>> 0, c, b, a, (temp1 + temp2) >>> 0];
+      }
+
+      [a, b, c, d, e, f, g, h].forEach((value, i) => (hash[i] = hash[i] + value));
+    }
+
+    const digest = new Uint8Array(32);
+    const digestView = new DataView(digest.buffer);
+    hash.forEach((value, i) => digestView.setUint32(i * 4, value));
+    return digest;
+  }
+
+  /**
+   * HMAC-SHA256 of some bytes or UTF-8 text, with a key of bytes or UTF-8 text
+   */
+  private hmacSha256(key: Uint8Array | string, message: Uint8Array | string): Uint8Array {
+    const encode = (data: Uint8Array | string) => (typeof data === 'string' ? new TextEncoder().encode(data) : data);
+    let keyBytes = encode(key);
+    if (keyBytes.length > this.blockSize) {
+      keyBytes = this.sha256(keyBytes);
+    }
+
+    const block = new Uint8Array(this.blockSize);
+    block.set(keyBytes);
+    const inner = this.concat(block.map(byte => byte ^ 0x36), encode(message));
+    const outer = this.concat(block.map(byte => byte ^ 0x5c), this.sha256(inner));
+    return this.sha256(outer);
+  }
+
+  private concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+    const result = new Uint8Array(a.length + b.length);
+    result.set(a);
+    result.set(b, a.length);
+    return result;
+  }
+}
@@ -0,0 +1,62 @@
+import { TestBed } from '@angular/core/testing';
+import { CheckInCodeService } from './check-in-code.service';
+import { CheckInCodeMockService } from './check-in-code-mock.service';
+
+describe('CheckInCodeService', () => {
+  let service: CheckInCodeService;
+  let mockService: CheckInCodeMockService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(CheckInCodeService);
+    mockService = TestBed.inject(CheckInCodeMockService);
+  });
+
+  it('should read the market and confirmation number', () => {
+    expect(service.parse('BYB1:SA:BYB-123456:COM7Q4VJUFF644MM')).toEqual({
+      market: 'sa',
+      confirmationNumber: 'BYB-123456',
+      code: 'BYB1:SA:BYB-123456:COM7Q4VJUFF644MM'
+    });
+  });
+
+  it('should ignore case and surrounding spaces', () => {
+    expect(service.parse('  byb1:sa:byb-123456:com7q4vjuff644mm \n')?.code).toBe('BYB1:SA:BYB-123456:COM7Q4VJUFF644MM');
+  });
+
+  it('should reject unknown formats and missing fields', () => {
+    expect(service.parse('BYB-123456')).toBeNull();
+    expect(service.parse('BYB2:SA:BYB-123456:COM7Q4VJUFF644MM')).toBeNull();
+    expect(service.parse('BYB1:SA:BYB-123456')).toBeNull();
+    expect(service.parse('BYB1::BYB-123456:COM7Q4VJUFF644MM')).toBeNull();
+    expect(service.parse('BYB1:SA::COM7Q4VJUFF644MM')).toBeNull();
+  });
+
+  it('should reject tags of the wrong length or alphabet', () => {
+    expect(service.parse('BYB1:SA:BYB-123456:COM7Q4VJUFF644M')).toBeNull();
+    expect(service.parse('BYB1:SA:BYB-123456:COM7Q4VJUFF644M1')).toBeNull();
+  });
+
+  describe('mock issuing', () => {
+    it('should tag codes with the HMAC-SHA256 of the market and number', () => {
+      // Computed independently, from the mock key
+      expect(mockService.issue('BYB-123456', 'sa')).toBe('BYB1:SA:BYB-123456:2EORGH7FOOO35STF');
+    });
+
+    it('should issue codes that parse back to the quotation', () => {
+      const code = mockService.issue('byb-123456', 'sa');
+      expect(service.parse(code)).toEqual({ market: 'sa', confirmationNumber: 'BYB-123456', code });
+      expect(mockService.isIssued(code)).toBe(true);
+    });
+
+    it('should not accept a code with another number or an edited tag', () => {
+      const code = mockService.issue('BYB-123456', 'sa');
+      const [format, market, , tag] = code.split(':');
+      const editedTag = (tag[0] === 'A' ? 'B' : 'A') + tag.slice(1);
+
+      expect(mockService.isIssued([format, market, 'BYB-123457', tag].join(':'))).toBe(false);
+      expect(mockService.isIssued([format, market, 'BYB-123456', editedTag].join(':'))).toBe(false);
+      expect(mockService.isIssued([format, 'BH', 'BYB-123456', tag].join(':'))).toBe(false);
+    });
+  });
+});
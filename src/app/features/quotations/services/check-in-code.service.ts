@@ -0,0 +1,56 @@
+import { Injectable } from '@angular/core';
+import { CheckInCodes } from '../../../shared/constants/app.constants';
+
+/**
+ * Contents of a well-formed check-in code
+ */
+export interface CheckInCode {
+  market: string;
+  confirmationNumber: string;
+  // The whole code, normalized, for the backend to verify
+  code: string;
+}
+
+/**
+ * Check-in Code Service
+ * Reads the code in the quotation QR code, which the buy back desk scans to
+ * look the quotation up:
+ *
+ *   BYB1:SA:BYB-123456:COM7Q4VJUFF644MM
+ *
+ * Format, market and confirmation number, followed by a tag (base32). The
+ * submissions endpoint issues the code with a key only the backend holds, and
+ * the quotations endpoint checks the tag on lookup. The browser only checks
+ * the layout: it has no key, so it cannot tell an issued code from a made-up one.
+ *
+ * Usage:
+ * ```typescript
+ * const checkInCode = this.checkInCodeService.parse(scannedText); // null when malformed
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CheckInCodeService {
+  // RFC 4648 base32 alphabet: upper case letters and 2-7, easy to read out
+  private readonly tagPattern = new RegExp(`^[A-Z2-7]{${CheckInCodes.TAG_LENGTH}}$`);
+
+  /**
+   * Decode a scanned or typed check-in code
+   * Returns null when the format is unknown or a field is missing
+   */
+  parse(code: string): CheckInCode | null {
+    const normalized = code.trim().toUpperCase();
+    const fields = normalized.split(CheckInCodes.SEPARATOR);
+    if (fields.length !== 4 || fields[0] !== CheckInCodes.FORMAT) {
+      return null;
+    }
+
+    const [, market, confirmationNumber, tag] = fields;
+    if (!market || !confirmationNumber || !this.tagPattern.test(tag)) {
+      return null;
+    }
+
+    return { market: market.toLowerCase(), confirmationNumber, code: normalized };
+  }
+}
@@ -0,0 +1,353 @@
+import { Injectable } from '@angular/core';
+import { LocaleService } from '../../../core/services/locale.service';
+import { UtilityService } from '../../../core/services/utility.service';
+import { PdfPage, PdfService } from '../../../core/services/pdf.service';
+import { QrCodeService } from '../../../core/services/qr-code.service';
+import { Quotation } from '../../../shared/interfaces/quotation.interface';
+import { QuotationPdf } from '../../../shared/constants/app.constants';
+import { StoreService } from '../../buyback-list/services/store.service';
+
+/**
+ * Item line of a quotation document, formatted for display
+ */
+export interface QuotationDocumentLine {
+  productName: string;
+  productNumber: string;
+  condition: string;
+  quantity: number;
+  // Line totals (price per item times quantity)
+  price: string;
+  familyPrice: string;
+}
+
+/**
+ * Checklist entry of a quotation document
+ */
+export interface QuotationDocumentRequirement {
+  title: string;
+  description: string;
+}
+
+/**
+ * Quotation laid out for printing or a PDF, in the current language
+ */
+export interface QuotationDocument {
+  confirmationNumber: string;
+  direction: 'ltr' | 'rtl';
+  issuedOn: string;
+  validUntil: string;
+  storeName: string;
+  storeAddress: string;
+  lines: QuotationDocumentLine[];
+  regularTotal: string;
+  familyTotal: string;
+  requirements: QuotationDocumentRequirement[];
+  // Scanned at the store desk to open the quotation: the issued check-in
+  // code, or the confirmation number on older quotations
+  code: string;
+}
+
+/**
+ * Text style for the PDF drawing helpers
+ */
+interface TextOptions {
+  bold?: boolean;
+  color?: string;
+  // Align the text's end (instead of its start) to the position
+  alignEnd?: boolean;
+}
+
+/**
+ * Quotation Document Service
+ * Turns a submitted quotation into a document the customer brings to the
+ * store: number, store, item lines, regular and IKEA Family totals, validity,
+ * requirements checklist and a QR code for the buy back desk.
+ *
+ * QuotationDocumentComponent renders it for the print stylesheet;
+ * downloadPdf() draws the same document on A4 canvas pages (right to left
+ * in Arabic) and saves them as a PDF with PdfService.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class QuotationDocumentService {
+  // Layout in points
+  private readonly margin = 40;
+  private readonly lineGap = 4;
+  private readonly qrSize = 96;
+  private readonly textColor = '#111111';
+  private readonly mutedColor = '#484848';
+  private readonly ruleColor = '#dfdfdf';
+
+  constructor(
+    private locale: LocaleService,
+    private utility: UtilityService,
+    private pdfService: PdfService,
+    private qrCodeService: QrCodeService,
+    private storeService: StoreService
+  ) {}
+
+  /**
+   * Build the document of a quotation
+   * Prices per item missing on older quotations fall back to the price
+   * applied; the store is named once the stores are loaded
+   */
+  build(quotation: Quotation): QuotationDocument {
+    const t = this.locale.translations();
+    const store = this.storeService.stores().find(s => s.id === quotation.storeId);
+    const lines = quotation.items.map(item => {
+      const regularPrice = (item.regularPrice ?? item.price) * item.quantity;
+      const familyPrice = (item.familyMemberPrice ?? item.price) * item.quantity;
+      return { item, regularPrice, familyPrice };
+    });
+    const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+    return {
+      confirmationNumber: quotation.confirmationNumber,
+      direction: this.locale.direction() === 'rtl' ? 'rtl' : 'ltr',
+      issuedOn: this.utility.formatDate(quotation.createdAt, 'long'),
+      validUntil: this.utility.formatDate(quotation.expiresAt, 'long'),
+      storeName: store ? this.storeService.getStoreName(store) : quotation.storeId,
+      storeAddress: store ? this.storeService.getStoreAddress(store) : '',
+      lines: lines.map(({ item, regularPrice, familyPrice }) => ({
+        productName: item.productName,
+        productNumber: item.productNumber,
+        condition: this.getConditionLabel(item.condition),
+        quantity: item.quantity,
+        price: this.utility.formatCurrency(regularPrice),
+        familyPrice: this.utility.formatCurrency(familyPrice)
+      })),
+      regularTotal: this.utility.formatCurrency(sum(lines.map(line => line.regularPrice))),
+      familyTotal: this.utility.formatCurrency(sum(lines.map(line => line.familyPrice))),
+      requirements: [
+        { title: t.estimation.requirementClean, description: t.estimation.requirementCleanDescription },
+        { title: t.estimation.requirementAssembled, description: t.estimation.requirementAssembledDescription },
+        { title: t.estimation.requirementSticker, description: t.estimation.requirementStickerDescription }
+      ],
+      code: quotation.checkInCode ?? quotation.confirmationNumber
+    };
+  }
+
+  /**
+   * Draw the document as an A4 PDF and download it
+   * Returns false when the PDF could not be created
+   */
+  downloadPdf(quotationDocument: QuotationDocument): boolean {
+    try {
+      const blob = this.pdfService.create(this.drawPages(quotationDocument));
+      this.pdfService.download(blob, `${QuotationPdf.FILE_NAME_PREFIX}-${quotationDocument.confirmationNumber}.pdf`);
+      return true;
+    } catch (error) {
+      console.error('Quotation PDF error:', error);
+      return false;
+    }
+  }
+
+  private getConditionLabel(condition: string): string {
+    const t = this.locale.translations().conditionAssessment;
+    switch (condition) {
+      case 'LIKE_NEW': return t.likeNew;
+      case 'VERY_GOOD': return t.veryGood;
+      case 'WELL_USED': return t.wellUsed;
+      default: return condition;
+    }
+  }
+
+  // =============================================================================
+  // PDF drawing - coordinates are in points, measured from the start edge
+  // (left in English, right in Arabic) and the top of the page
+  // =============================================================================
+
+  /**
+   * Draw the document on as many pages as it needs
+   */
+  private drawPages(quotationDocument: QuotationDocument): PdfPage[] {
+    const t = this.locale.translations();
+    const isRtl = quotationDocument.direction === 'rtl';
+    const width = QuotationPdf.PAGE_WIDTH;
+    const contentWidth = width - this.margin * 2;
+    const pages: PdfPage[] = [];
+    let ctx!: CanvasRenderingContext2D;
+    let y = 0;
+
+    const newPage = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * QuotationPdf.SCALE);
+      canvas.height = Math.round(QuotationPdf.PAGE_HEIGHT * QuotationPdf.SCALE);
+      ctx = canvas.getContext('2d')!;
+      ctx.scale(QuotationPdf.SCALE, QuotationPdf.SCALE);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, QuotationPdf.PAGE_HEIGHT);
+      ctx.direction = quotationDocument.direction;
+      ctx.textBaseline = 'top';
+      pages.push({ canvas, width, height: QuotationPdf.PAGE_HEIGHT });
+      y = this.margin;
+    };
+    // Start a new page when the next block does not fit
+    const reserve = (height: number) => {
+      if (y + height > QuotationPdf.PAGE_HEIGHT - this.margin) {
+        newPage();
+      }
+    };
+    // Page x of a distance from the start edge
+    const x = (fromStart: number) => (isRtl ? width - this.margin - fromStart : this.margin + fromStart);
+    const text = (value: string, fromStart: number, top: number, size: number, options: TextOptions = {}) => {
+      ctx.font = `${options.bold ? 700 : 400} ${size}px ${this.getFontStack(isRtl)}`;
+      ctx.fillStyle = options.color ?? this.textColor;
+      ctx.textAlign = options.alignEnd ? 'end' : 'start';
+      ctx.fillText(value, x(fromStart), top);
+    };
+    const paragraph = (value: string, fromStart: number, maxWidth: number, size: number, options: TextOptions = {}) => {
+      ctx.font = `${options.bold ? 700 : 400} ${size}px ${this.getFontStack(isRtl)}`;
+      const lines = this.wrap(ctx, value, maxWidth);
+      lines.forEach(line => {
+        reserve(size + this.lineGap);
+        text(line, fromStart, y, size, options);
+        y += size + this.lineGap;
+      });
+    };
+    const rule = () => {
+      ctx.fillStyle = this.ruleColor;
+      ctx.fillRect(this.margin, y, contentWidth, 1);
+    };
+
+    newPage();
+
+    // Header: title and number, QR code at the end edge
+    const headerWidth = contentWidth - this.qrSize - 24;
+    this.drawQrCode(ctx, quotationDocument.code, isRtl ? this.margin : width - this.margin - this.qrSize, y);
+    paragraph(t.quotationDocument.title, 0, headerWidth, 22, { bold: true });
+    y += 6;
+    paragraph(`${t.confirmation.quotationLabel} #${quotationDocument.confirmationNumber}`, 0, headerWidth, 14, { bold: true });
+    y += 6;
+    paragraph(`${t.quotationDocument.issuedOn}: ${quotationDocument.issuedOn}`, 0, headerWidth, 10, { color: this.mutedColor });
+    paragraph(`${t.quotationDocument.validUntil}: ${quotationDocument.validUntil}`, 0, headerWidth, 10, { color: this.mutedColor });
+    y += 6;
+    paragraph(`${t.quotationDocument.store}: ${quotationDocument.storeName}`, 0, headerWidth, 10, { bold: true });
+    if (quotationDocument.storeAddress) {
+      paragraph(quotationDocument.storeAddress, 0, headerWidth, 10, { color: this.mutedColor });
+    }
+
+    // Code caption under the QR code
+    y = Math.max(y, this.margin + this.qrSize + 4);
+    paragraph(t.quotationDocument.scanAtDesk, contentWidth - this.qrSize - 24, this.qrSize + 24, 8, {
+      color: this.mutedColor
+    });
+    y += 16;
+
+    // Item lines: product | condition | qty | price | family price
+    const columns = { condition: contentWidth * 0.42, quantity: contentWidth * 0.62, price: contentWidth * 0.8 };
+    const productWidth = columns.condition - 12;
+    const drawTableHeader = () => {
+      text(t.quotationDocument.product, 0, y, 9, { bold: true });
+      text(t.quotationDocument.condition, columns.condition, y, 9, { bold: true });
+      text(t.quotationDocument.quantity, columns.quantity, y, 9, { bold: true });
+      text(t.buybackList.itemPrice, columns.price - 8, y, 9, { bold: true, alignEnd: true });
+      text(t.buybackList.familyMemberPrice, contentWidth, y, 9, { bold: true, alignEnd: true });
+      y += 9 + 8;
+      rule();
+      y += 8;
+    };
+    reserve(40);
+    drawTableHeader();
+
+    quotationDocument.lines.forEach(line => {
+      ctx.font = `700 10px ${this.getFontStack(isRtl)}`;
+      const nameLines = this.wrap(ctx, line.productName, productWidth);
+      const height = nameLines.length * (10 + this.lineGap) + 9 + 12;
+      if (y + height > QuotationPdf.PAGE_HEIGHT - this.margin) {
+        newPage();
+        drawTableHeader();
+      }
+
+      const top = y;
+      nameLines.forEach(nameLine => {
+        text(nameLine, 0, y, 10, { bold: true });
+        y += 10 + this.lineGap;
+      });
+      text(line.productNumber, 0, y, 8, { color: this.mutedColor });
+      text(line.condition, columns.condition, top, 10);
+      text(String(line.quantity), columns.quantity, top, 10);
+      text(line.price, columns.price - 8, top, 10, { alignEnd: true });
+      text(line.familyPrice, contentWidth, top, 10, { alignEnd: true });
+      y += 8 + 8;
+      rule();
+      y += 8;
+    });
+
+    // Totals
+    reserve(44);
+    text(t.buybackList.totalEstimate, 0, y, 12, { bold: true });
+    text(quotationDocument.regularTotal, contentWidth, y, 12, { bold: true, alignEnd: true });
+    y += 12 + 8;
+    text(t.buybackList.familyMemberPrice, 0, y, 12, { bold: true });
+    text(quotationDocument.familyTotal, contentWidth, y, 12, { bold: true, alignEnd: true });
+    y += 12 + 24;
+
+    // Requirements checklist
+    reserve(60);
+    paragraph(t.estimation.requirementsTitle, 0, contentWidth, 14, { bold: true });
+    y += 2;
+    paragraph(t.estimation.requirementsDescription, 0, contentWidth, 10, { color: this.mutedColor });
+    y += 6;
+    quotationDocument.requirements.forEach(requirement => {
+      reserve(40);
+      ctx.strokeStyle = this.textColor;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(isRtl ? x(0) - 10 : x(0), y, 10, 10);
+      paragraph(requirement.title, 18, contentWidth - 18, 10, { bold: true });
+      paragraph(requirement.description, 18, contentWidth - 18, 9, { color: this.mutedColor });
+      y += 8;
+    });
+
+    // Disclaimer
+    y += 8;
+    paragraph(t.quotationDocument.disclaimer, 0, contentWidth, 8, { color: this.mutedColor });
+
+    return pages;
+  }
+
+  /**
+   * Draw a QR code with its quiet zone, top-left corner at (left, top)
+   */
+  private drawQrCode(ctx: CanvasRenderingContext2D, value: string, left: number, top: number): void {
+    const qrCode = this.qrCodeService.encode(value);
+    if (!qrCode) {
+      return;
+    }
+
+    const modules = qrCode.size + this.qrCodeService.quietZone * 2;
+    ctx.save();
+    ctx.translate(left, top);
+    ctx.scale(this.qrSize / modules, this.qrSize / modules);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, modules, modules);
+    ctx.fillStyle = '#000000';
+    ctx.fill(new Path2D(this.qrCodeService.toSvgPath(qrCode)));
+    ctx.restore();
+  }
+
+  /**
+   * Split text into lines that fit a width, in the context's current font
+   */
+  private wrap(ctx: CanvasRenderingContext2D, value: string, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    value.split(/\s+/).filter(word => word.length > 0).forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+    return current ? [...lines, current] : lines;
+  }
+
+  private getFontStack(isRtl: boolean): string {
+    return isRtl
+      ? '"Noto IKEA Arabic", "Noto Sans Arabic", sans-serif'
+      : '"Noto IKEA", "Noto Sans", "Roboto", "Open Sans", sans-serif';
+  }
+}
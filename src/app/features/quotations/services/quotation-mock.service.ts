@@ -0,0 +1,99 @@
+import { Injectable } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Observable, of, delay, throwError } from 'rxjs';
+import { DatastoreService } from '../../../core/services/datastore.service';
+import { Quotation } from '../../../shared/interfaces/quotation.interface';
+import { HttpStatus, QuotationStatus } from '../../../shared/constants/app.constants';
+
+/**
+ * Quotation Mock Service
+ * Local stand-in for the quotations endpoint, used when
+ * environment.features.mockApiResponses is enabled.
+ * Knows a few fixed quotations plus the last one submitted from this browser.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class QuotationMockService {
+  private mockQuotations: Quotation[] = [
+    {
+      confirmationNumber: 'BYB-100001',
+      email: 'customer@example.com',
+      storeId: 'sa-riyadh',
+      status: QuotationStatus.ACCEPTED,
+      items: [
+        {
+          productId: 'p1',
+          productNumber: '305.292.87',
+          productName: 'SATSUMAS',
+          condition: 'VERY_GOOD',
+          price: 20.00,
+          quantity: 2
+        }
+      ],
+      totalValue: 40.00,
+      createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000),
+      expiresAt: new Date(Date.now() + 12 * 24 * 60 * 60 * 1000)
+    },
+    {
+      confirmationNumber: 'BYB-100002',
+      email: 'customer@example.com',
+      storeId: 'sa-jeddah',
+      status: QuotationStatus.SUBMITTED,
+      items: [
+        {
+          productId: 'p2',
+          productNumber: '604.575.92',
+          productName: 'VANILJSTÅNG',
+          condition: 'LIKE_NEW',
+          price: 35.00,
+          quantity: 1
+        }
+      ],
+      totalValue: 35.00,
+      createdAt: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+      expiresAt: new Date(Date.now() - 16 * 24 * 60 * 60 * 1000)
+    }
+  ];
+
+  // Quotations changed at the store (see CheckInMockService), by confirmation number
+  private updatedQuotations = new Map<string, Quotation>();
+
+  constructor(private datastore: DatastoreService) {}
+
+  /**
+   * Find a quotation by confirmation number and email
+   * Fails with 404 when nothing matches, like the real endpoint
+   */
+  getQuotation(confirmationNumber: string, email: string): Observable<Quotation> {
+    const quotation = this.findQuotation(confirmationNumber);
+
+    if (!quotation || quotation.email.toLowerCase() !== email.toLowerCase()) {
+      return throwError(() => new HttpErrorResponse({ status: HttpStatus.NOT_FOUND })).pipe(delay(300));
+    }
+
+    return of(quotation).pipe(delay(300));
+  }
+
+  /**
+   * Find a quotation by confirmation number only (store lookup)
+   */
+  findQuotation(confirmationNumber: string): Quotation | undefined {
+    const number = confirmationNumber.toUpperCase();
+    const updated = this.updatedQuotations.get(number);
+    if (updated) {
+      return updated;
+    }
+
+    const lastQuotation = this.datastore.getLastQuotation<Quotation>();
+    const candidates = lastQuotation ? [lastQuotation, ...this.mockQuotations] : this.mockQuotations;
+    return candidates.find(q => q.confirmationNumber.toUpperCase() === number);
+  }
+
+  /**
+   * Keep a quotation changed at the store for the rest of the session
+   */
+  saveQuotation(quotation: Quotation): void {
+    this.updatedQuotations.set(quotation.confirmationNumber.toUpperCase(), quotation);
+  }
+}
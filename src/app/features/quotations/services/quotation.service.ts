@@ -0,0 +1,117 @@
+import { Injectable, signal, computed } from '@angular/core';
+import { HttpClient, HttpErrorResponse, HttpParams } from '@angular/common/http';
+import { of } from 'rxjs';
+import { catchError } from 'rxjs/operators';
+import { APIService } from '../../../core/services/api.service';
+import { DatastoreService } from '../../../core/services/datastore.service';
+import { CommonErrorModalService } from '../../../shared/components/common-error-modal/common-error-modal.service';
+import { Quotation } from '../../../shared/interfaces/quotation.interface';
+import { errorCase, HttpStatus, QuotationStatus } from '../../../shared/constants/app.constants';
+import { environment } from '../../../../environments/environment';
+import { QuotationMockService } from './quotation-mock.service';
+
+/**
+ * Quotation lookup error types
+ */
+export type QuotationLookupError = 'NOT_FOUND' | 'GENERAL';
+
+/**
+ * Quotation Service
+ * Looks up submitted quotations by confirmation number and email
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class QuotationService {
+  // Private state
+  private _quotation = signal<Quotation | null>(null);
+  private _isLoading = signal<boolean>(false);
+  private _lookupError = signal<QuotationLookupError | null>(null);
+
+  // Public readonly signals
+  readonly quotation = this._quotation.asReadonly();
+  readonly isLoading = this._isLoading.asReadonly();
+  readonly lookupError = this._lookupError.asReadonly();
+
+  // Computed signals
+  readonly isExpired = computed(() => this._quotation()?.status === QuotationStatus.EXPIRED);
+
+  private useMock = environment.features.mockApiResponses;
+
+  constructor(
+    private http: HttpClient,
+    private api: APIService,
+    private datastore: DatastoreService,
+    private modalService: CommonErrorModalService,
+    private mockService: QuotationMockService
+  ) {}
+
+  /**
+   * Get the quotation last submitted from this browser
+   */
+  getLastQuotation(): Quotation | null {
+    const quotation = this.datastore.getLastQuotation<Quotation>();
+    return quotation ? this.mapQuotation(quotation) : null;
+  }
+
+  /**
+   * Look up a quotation and show the expired modal if it has lapsed
+   */
+  lookup(confirmationNumber: string, email: string): void {
+    const number = confirmationNumber.trim().replace(/^#/, '');
+    this._isLoading.set(true);
+    this._lookupError.set(null);
+    this._quotation.set(null);
+
+    const source$ = this.useMock
+      ? this.mockService.getQuotation(number, email.trim())
+      : this.http.get<Quotation>(`${this.api.quotations}/${encodeURIComponent(number)}`, {
+          params: new HttpParams().set('email', email.trim())
+        });
+
+    source$
+      .pipe(
+        catchError((error: HttpErrorResponse) => {
+          console.error('Quotation lookup error:', error);
+          this._lookupError.set(error.status === HttpStatus.NOT_FOUND ? 'NOT_FOUND' : 'GENERAL');
+          return of(null);
+        })
+      )
+      .subscribe(quotation => {
+        this._isLoading.set(false);
+        if (!quotation) {
+          return;
+        }
+
+        const mapped = this.mapQuotation(quotation);
+        this._quotation.set(mapped);
+        if (mapped.status === QuotationStatus.EXPIRED) {
+          this.modalService.openErrorDialog(errorCase.QUOTATION_EXPIRED);
+        }
+      });
+  }
+
+  /**
+   * Clear the current lookup result
+   */
+  clear(): void {
+    this._quotation.set(null);
+    this._lookupError.set(null);
+  }
+
+  /**
+   * Revive dates and mark open quotations past their expiry date as expired
+   */
+  mapQuotation(quotation: Quotation): Quotation {
+    const expiresAt = new Date(quotation.expiresAt);
+    const hasLapsed =
+      QuotationStatus.EXPIRABLE.includes(quotation.status) && expiresAt.getTime() < Date.now();
+
+    return {
+      ...quotation,
+      status: hasLapsed ? QuotationStatus.EXPIRED : quotation.status,
+      createdAt: new Date(quotation.createdAt),
+      expiresAt
+    };
+  }
+}
@@ -0,0 +1,76 @@
+import { Component, computed, CUSTOM_ELEMENTS_SCHEMA, EventEmitter, Input, OnInit, Output, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { interval } from 'rxjs';
+import { takeUntil } from 'rxjs/operators';
+import { BaseComponent } from '../../base-classes/base.component';
+import { LocaleService } from '../../../core/services/locale.service';
+import { Timings } from '../../constants/app.constants';
+
+/**
+ * Countdown Component
+ * Shows the time left until a deadline and emits once when it passes
+ */
+@Component({
+  selector: 'app-countdown',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './countdown.component.html',
+  styleUrl: './countdown.component.scss',
+  schemas: [CUSTOM_ELEMENTS_SCHEMA]
+})
+export class CountdownComponent extends BaseComponent implements OnInit {
+  @Input() label: string = '';
+  @Input() set deadline(value: Date | null) {
+    if (value?.getTime() !== this._deadline()?.getTime()) {
+      this._deadline.set(value);
+      this.hasEmittedExpired = false;
+    }
+  }
+  @Output() expired = new EventEmitter<void>();
+
+  private _deadline = signal<Date | null>(null);
+  private now = signal<number>(Date.now());
+  private hasEmittedExpired = false;
+
+  translations = computed(() => this.localeService.translations());
+
+  remaining = computed(() => {
+    const deadline = this._deadline();
+    return deadline ? Math.max(0, deadline.getTime() - this.now()) : 0;
+  });
+
+  isExpired = computed(() => !!this._deadline() && this.remaining() === 0);
+
+  remainingText = computed(() => {
+    const t = this.translations().countdown;
+    const totalSeconds = Math.floor(this.remaining() / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const hours = Math.floor((totalSeconds % 86400) / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (days > 0) {
+      return `${days}${t.days} ${hours}${t.hours} ${minutes}${t.minutes}`;
+    }
+    if (hours > 0) {
+      return `${hours}${t.hours} ${minutes}${t.minutes}`;
+    }
+    return `${minutes}${t.minutes} ${seconds}${t.seconds}`;
+  });
+
+  constructor(private localeService: LocaleService) {
+    super();
+  }
+
+  ngOnInit(): void {
+    interval(Timings.COUNTDOWN_TICK)
+      .pipe(takeUntil(this.ngUnSubscribe))
+      .subscribe(() => {
+        this.now.set(Date.now());
+        if (this.isExpired() && !this.hasEmittedExpired) {
+          this.hasEmittedExpired = true;
+          this.expired.emit();
+        }
+      });
+  }
+}
@@ -0,0 +1,31 @@
+import { Component, computed, input } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { QrCodeService } from '../../../core/services/qr-code.service';
+
+/**
+ * QR Code Component
+ * Renders text as a scalable SVG QR code, drawn in the browser
+ */
+@Component({
+  selector: 'app-qr-code',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './qr-code.component.html',
+  styleUrl: './qr-code.component.scss'
+})
+export class QrCodeComponent {
+  value = input<string>('');
+  label = input<string>('');
+
+  qrCode = computed(() => (this.value() ? this.qrCodeService.encode(this.value()) : null));
+
+  // Symbol plus the quiet zone on both sides
+  viewBoxSize = computed(() => (this.qrCode()?.size ?? 0) + this.qrCodeService.quietZone * 2);
+
+  path = computed(() => {
+    const qrCode = this.qrCode();
+    return qrCode ? this.qrCodeService.toSvgPath(qrCode) : '';
+  });
+
+  constructor(private qrCodeService: QrCodeService) {}
+}
@@ -1,8 +1,10 @@
 import { Component, OnInit, CUSTOM_ELEMENTS_SCHEMA, computed } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
  import { ToasterService } from './toaster.service';
 import { BaseComponent } from '../../base-classes/base.component';
 import { LocaleService } from '../../../core/services/locale.service';
+import { RemoteConfigService } from '../../../core/services/remote-config.service';
 
 @Component({
   selector: 'app-toaster',
@@ -16,10 +18,13 @@ export class ToasterComponent extends BaseComponent implements OnInit {
   direction = computed(() => this.localeService.isRTL() ? 'rtl' : 'ltr');
   translations = computed(() => this.localeService.translations());
   toasterData = computed(() => this.toasterService.toasterObject());
+  toastDuration = computed(() => this.remoteConfig.toastDuration());
 
   constructor(
     public toasterService: ToasterService,
-    private localeService: LocaleService
+    private localeService: LocaleService,
+    private remoteConfig: RemoteConfigService,
+    private router: Router
   ) {
     super();
   }
@@ -29,4 +34,17 @@ export class ToasterComponent extends BaseComponent implements OnInit {
   afterDismiss(): void {
     this.toasterService.closeToaster();
   }
+
+  /**
+   * Run the toaster action (e.g. undo) or open its link, then dismiss
+   */
+  onViewLinkClick(): void {
+    const viewLink = this.toasterData().viewLink;
+    this.toasterService.closeToaster();
+    if (viewLink?.action) {
+      viewLink.action();
+    } else if (viewLink?.link) {
+      this.router.navigateByUrl(viewLink.link);
+    }
+  }
 }
@@ -8,6 +8,10 @@ export interface ToasterData {
   viewLink?: {
     link: string;
     isVisible: boolean;
+    // Toaster translation key for the link text, VIEW by default
+    label?: string;
+    // Run instead of navigating to the link, e.g. undo
+    action?: () => void;
   };
 }
 
@@ -22,6 +22,149 @@ export namespace ProductCondition {
   };
 }
 
+/**
+ * Product Sort Orders
+ */
+export namespace ProductSort {
+  export const RELEVANCE = 'RELEVANCE';
+  export const HIGHEST_VALUE = 'HIGHEST_VALUE';
+  export const NAME = 'NAME';
+  export const NEWEST = 'NEWEST';
+
+  export const ALL = [RELEVANCE, HIGHEST_VALUE, NAME, NEWEST] as const;
+
+  export type Sort = typeof ALL[number];
+}
+
+/**
+ * Product Ineligibility Reasons
+ * Codes returned by the product API for products that cannot be bought back
+ */
+export namespace IneligibilityReason {
+  export const RECALLED = 'RECALLED';
+  export const HYGIENE = 'HYGIENE'; // mattresses, pillows, bedding
+  export const DISCONTINUED = 'DISCONTINUED';
+  export const UPHOLSTERED = 'UPHOLSTERED';
+
+  export const ALL = [RECALLED, HYGIENE, DISCONTINUED, UPHOLSTERED] as const;
+
+  export type Reason = typeof ALL[number];
+}
+
+/**
+ * Buyback List Rules
+ * Limits a change to the buyback list is checked against (see ValidationConfig)
+ */
+export namespace BuybackListRule {
+  export const MAX_ITEMS = 'MAX_ITEMS';
+  export const MAX_QUANTITY = 'MAX_QUANTITY';
+  export const MAX_VALUE = 'MAX_VALUE';
+  export const CATEGORY_LIMIT = 'CATEGORY_LIMIT';
+
+  export const ALL = [MAX_ITEMS, MAX_QUANTITY, MAX_VALUE, CATEGORY_LIMIT] as const;
+
+  export type Rule = typeof ALL[number];
+}
+
+/**
+ * Buy Back Flow Steps
+ * Each step is a child route of the buy back quote page
+ */
+export namespace BuybackStep {
+  export const DISCOVER = 'DISCOVER';
+  export const CATEGORY = 'CATEGORY';
+  export const PRODUCT = 'PRODUCT';
+  export const ESTIMATION = 'ESTIMATION';
+  export const CONFIRMATION = 'CONFIRMATION';
+  export const SHARED_LIST = 'SHARED_LIST';
+
+  export const ALL = [DISCOVER, CATEGORY, PRODUCT, ESTIMATION, CONFIRMATION, SHARED_LIST] as const;
+
+  export type Step = typeof ALL[number];
+}
+
+/**
+ * Condition Questionnaire Constants
+ */
+export namespace ConditionQuestionnaire {
+  // Top-level categories with fabric or upholstery, which also get the stains question
+  export const UPHOLSTERED_CATEGORY_IDS = ['6', '11', '12'];
+}
+
+/**
+ * Article Scanner Constants
+ */
+export namespace ArticleScanner {
+  // Label barcodes and QR codes that can carry an article number
+  export const BARCODE_FORMATS = ['code_128', 'ean_13', 'qr_code', 'data_matrix'];
+  export const SCAN_INTERVAL = 300; // 300ms between camera frame checks
+  export const MAX_MATCH_DISTANCE = 1; // one mistyped or swapped digit
+}
+
+/**
+ * Search Suggestion Constants
+ */
+export namespace SearchSuggestions {
+  export const MAX_PRODUCTS = 5;
+  export const MAX_CATEGORIES = 3;
+  export const MAX_RECENT_SEARCHES = 5;
+}
+
+/**
+ * Buyback List Undo History
+ */
+export namespace BuybackListHistory {
+  export const MAX_ENTRIES = 20;
+}
+
+/**
+ * Shared List Constants
+ */
+export namespace ListSharing {
+  export const TOKEN_LENGTH = 8;
+  // Letters and digits that cannot be mistaken for each other when typed
+  export const TOKEN_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+}
+
+/**
+ * How a shared list is added to the local list
+ */
+export namespace ListImportMode {
+  export const MERGE = 'MERGE';
+  export const REPLACE = 'REPLACE';
+
+  export const ALL = [MERGE, REPLACE] as const;
+
+  export type Mode = typeof ALL[number];
+}
+
+/**
+ * Resolution of a shared item that is already in the local list
+ * (same product and condition)
+ */
+export namespace ListConflictResolution {
+  export const KEEP_MINE = 'KEEP_MINE';
+  export const USE_SHARED = 'USE_SHARED';
+  export const COMBINE = 'COMBINE';
+
+  export const ALL = [KEEP_MINE, USE_SHARED, COMBINE] as const;
+
+  export type Resolution = typeof ALL[number];
+}
+
+/**
+ * Search Relevance Weights (per query term)
+ */
+export namespace SearchRelevance {
+  export const EXACT_NAME = 20; // bonus when the whole query is the product name
+  export const NAME_WORD = 10;
+  export const NAME_WORD_START = 8;
+  export const PRODUCT_NUMBER = 6;
+  export const NAME_PARTIAL = 5;
+  export const NAME_SOUND = 4; // Arabic spelling of the Latin name
+  export const DETAIL = 2; // description or category name
+}
+
 /**
  * Local Storage Keys
  */
@@ -32,6 +175,26 @@ export namespace StorageKeys {
   export const SELECTED_STORE = 'selected_store';
   export const USER_EMAIL = 'user_email';
   export const LAST_QUOTATION = 'last_quotation';
+  export const RECENT_SEARCHES = 'recent_searches';
+  // Lists saved by the local shared list mock backend
+  export const MOCK_SHARED_LISTS = 'mock_shared_lists';
+}
+
+/**
+ * Schema versions of versioned localStorage keys
+ * Bump with a migration in the key's VersionedStore when the shape changes
+ */
+export namespace StorageVersions {
+  export const BUYBACK_LIST = 2;
+}
+
+/**
+ * IndexedDB database for condition photos, which are too large for localStorage
+ */
+export namespace PhotoStorage {
+  export const DATABASE = 'buyback_photos';
+  export const STORE = 'photos';
+  export const VERSION = 1;
 }
 
 /**
@@ -80,6 +243,15 @@ export namespace Validation {
   export const MAX_EMAIL_LENGTH = 100;
   export const MIN_SEARCH_LENGTH = 2;
   export const MAX_ITEMS_IN_BUYBACK_LIST = 50;
+  export const MAX_QUANTITY_PER_ITEM = 10; // per article, all conditions together
+  // Buy-back value of one submission, in the market currency
+  export const MAX_BUYBACK_LIST_VALUE: Record<'sa' | 'bh', number> = {
+    sa: 10000,
+    bh: 1000
+  };
+  export const QUOTATION_VALIDITY_DAYS = 14;
+  export const FAMILY_CARD_PATTERN = /^\d{12,19}$/;
+  export const PHONE_PATTERN = /^\+?\d{8,15}$/;
 }
 
 /**
@@ -99,6 +271,43 @@ export namespace Files {
   export const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
   export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
   export const ALLOWED_DOCUMENT_TYPES = ['application/pdf'];
+  export const MAX_PHOTOS_PER_ITEM = 3;
+  export const PHOTO_MAX_DIMENSION = 1280; // px, longest side after compression
+  export const PHOTO_QUALITY = 0.75; // JPEG quality after compression
+}
+
+/**
+ * Quotation PDF download
+ */
+export namespace QuotationPdf {
+  // A4 in points (1/72 inch)
+  export const PAGE_WIDTH = 595.28;
+  export const PAGE_HEIGHT = 841.89;
+  // Canvas pixels per point - 2 gives about 144 dpi
+  export const SCALE = 2;
+  export const FILE_NAME_PREFIX = 'IKEA-buy-back-quotation';
+}
+
+/**
+ * Check-in code on the quotation, issued by the backend (see CheckInCodeService)
+ */
+export namespace CheckInCodes {
+  export const FORMAT = 'BYB1'; // Bump when the payload layout changes
+  export const SEPARATOR = ':';
+  export const TAG_LENGTH = 16; // Base32 characters (80 bits)
+}
+
+/**
+ * Accepted ranges for remote config values - anything outside falls back to the default
+ */
+export namespace RemoteConfigRanges {
+  export const MIN_SEARCH_LENGTH = { min: 1, max: 10 };
+  export const MAX_ITEMS_IN_BUYBACK_LIST = { min: 1, max: 500 };
+  export const MAX_QUANTITY_PER_ITEM = { min: 1, max: 100 };
+  export const MAX_BUYBACK_LIST_VALUE = { min: 1, max: 1000000 };
+  export const CATEGORY_LIMIT = { min: 1, max: 100 };
+  export const SEARCH_DEBOUNCE = { min: 0, max: 2000 }; // ms
+  export const TOAST_DURATION = { min: 1000, max: 30000 }; // ms
 }
 
 /**
@@ -109,6 +318,9 @@ export namespace Timings {
   export const AUTO_SAVE_DEBOUNCE = 1000; // 1 second
   export const TOAST_DURATION = 3000; // 3 seconds
   export const MODAL_ANIMATION = 250; // 250ms
+  export const PRICE_LOCK_DURATION = 48 * 60 * 60 * 1000; // 48 hours
+  export const COUNTDOWN_TICK = 1000; // 1 second
+  export const SHARED_LIST_VALIDITY = 30 * 24 * 60 * 60 * 1000; // 30 days
 }
 
 /**
@@ -122,12 +334,27 @@ export namespace CategoryLevel {
   export const MAX_LEVEL = 4;
 }
 
+/**
+ * Staff roles, granted by the staff session of the store network
+ */
+export namespace StaffRole {
+  export const COWORKER = 'BUYBACK_COWORKER'; // Checks in quotations at the buy back desk
+
+  export const ALL = [COWORKER] as const;
+
+  export type Role = typeof ALL[number];
+}
+
 /**
  * User Types
  */
 export namespace UserType {
   export const FAMILY_MEMBER = 'FAMILY_MEMBER';
   export const NON_MEMBER = 'NON_MEMBER';
+
+  export const ALL = [FAMILY_MEMBER, NON_MEMBER] as const;
+
+  export type Type = typeof ALL[number];
 }
 
 /**
@@ -140,6 +367,19 @@ export namespace QuotationStatus {
   export const REJECTED = 'REJECTED';
   export const EXPIRED = 'EXPIRED';
   export const COMPLETED = 'COMPLETED';
+
+  export const ALL = [DRAFT, SUBMITTED, ACCEPTED, REJECTED, EXPIRED, COMPLETED] as const;
+
+  export type Status = typeof ALL[number];
+
+  // Statuses that lapse once the quotation passes its expiry date
+  export const EXPIRABLE: readonly Status[] = [DRAFT, SUBMITTED, ACCEPTED];
+
+  // Statuses a store co-worker can move a quotation to at check-in
+  export const CHECK_IN_TRANSITIONS: Partial<Record<Status, readonly Status[]>> = {
+    [SUBMITTED]: [ACCEPTED, REJECTED],
+    [ACCEPTED]: [COMPLETED, REJECTED]
+  };
 }
 
 /**
@@ -253,6 +493,34 @@ export const errorCase = {
       btnText: 'OK',
       isVisible: true
     }
+  },
+
+  // disc is replaced by the message of the broken rule
+  BUYBACK_LIST_LIMIT: {
+    errType: 'BUYBACK_LIST_LIMIT',
+    disc: '',
+    primaryBtn: {
+      btnText: 'OK',
+      isVisible: true
+    }
+  },
+
+  SHARED_LIST_NOT_FOUND: {
+    errType: 'SHARED_LIST_NOT_FOUND',
+    disc: 'SHARED_LIST_NOT_FOUND_MESSAGE',
+    primaryBtn: {
+      btnText: 'OK',
+      isVisible: true
+    }
+  },
+
+  STAFF_ACCESS_DENIED: {
+    errType: 'STAFF_ACCESS_DENIED',
+    disc: 'STAFF_ACCESS_DENIED_MESSAGE',
+    primaryBtn: {
+      btnText: 'OK',
+      isVisible: true
+    }
   }
 };
 
@@ -274,17 +542,39 @@ export const toasterCases = {
     toasterType: 'ITEM_ADDED_SUCCESS',
     isVisible: true,
     viewLink: {
-      link: '/buyback-list',
-      isVisible: true,
+      link: '',
+      isVisible: false,
     },
   },
 
+  // The action (undo) is set by the caller
   ITEM_REMOVED: {
     toasterType: 'ITEM_REMOVED_SUCCESS',
     isVisible: true,
     viewLink: {
       link: '',
-      isVisible: false,
+      isVisible: true,
+      label: 'UNDO',
+    },
+  },
+
+  LIST_CLEARED: {
+    toasterType: 'LIST_CLEARED_SUCCESS',
+    isVisible: true,
+    viewLink: {
+      link: '',
+      isVisible: true,
+      label: 'UNDO',
+    },
+  },
+
+  LIST_IMPORTED: {
+    toasterType: 'LIST_IMPORTED_SUCCESS',
+    isVisible: true,
+    viewLink: {
+      link: '',
+      isVisible: true,
+      label: 'UNDO',
     },
   },
 
@@ -306,6 +596,15 @@ export const toasterCases = {
     },
   },
 
+  QUOTATION_CHECKED_IN: {
+    toasterType: 'QUOTATION_CHECKED_IN_SUCCESS',
+    isVisible: true,
+    viewLink: {
+      link: '',
+      isVisible: false,
+    },
+  },
+
   ERROR_OCCURRED: {
     toasterType: 'ERROR_OCCURRED',
     isVisible: true,
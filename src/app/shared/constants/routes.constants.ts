@@ -12,16 +12,56 @@ export namespace Routes {
   // Buyback - Single Page Application
   export const BUYBACK_QUOTE = 'buy-back-quote';
 
+  // Buyback steps (children of BUYBACK_QUOTE)
+  export const CATEGORY = 'category';
+  export const PRODUCT = 'product';
+  export const ESTIMATION = 'estimation';
+  export const CONFIRMATION = 'confirmation';
+  export const SHARED_LIST = 'list';
+
+  // Quotation tracking
+  export const MY_QUOTATIONS = 'my-quotations';
+
+  // Store co-worker check-in (staff only)
+  export const CHECK_IN = 'check-in';
+
   // Error Pages (for future use)
   export const NOT_FOUND = '404';
   export const ERROR = 'error';
 }
 
+/**
+ * Route parameters of the buyback steps
+ */
+export namespace RouteParams {
+  export const CATEGORY_ID = 'categoryId';
+  export const PRODUCT_ID = 'productId';
+  export const CONFIRMATION_NUMBER = 'confirmationNumber';
+  export const SHARE_TOKEN = 'shareToken';
+}
+
+/**
+ * Query string parameters for bookmarkable search and product filters
+ */
+export namespace QueryParams {
+  export const SEARCH = 'q';
+  export const MIN_PRICE = 'minPrice';
+  export const MAX_PRICE = 'maxPrice';
+  export const CONDITION = 'condition';
+  export const SERIES = 'series';
+  export const COLOUR = 'colour';
+  export const MATERIAL = 'material';
+  export const SORT = 'sort';
+  export const SHOW_INELIGIBLE = 'ineligible';
+}
+
 /**
  * Route Titles (for page titles)
  */
 export namespace RouteTitles {
   export const BUYBACK_QUOTE = 'IKEA Buyback Portal';
+  export const MY_QUOTATIONS = 'My quotations - IKEA Buyback Portal';
+  export const CHECK_IN = 'Quotation check-in - IKEA Buyback Portal';
   export const NOT_FOUND = 'Page Not Found';
   export const ERROR = 'Error';
 }
@@ -29,7 +29,11 @@ export const AR_BH_TRANSLATIONS: Translation = {
     ITEM_REMOVED_SUCCESS: 'تمت إزالة العنصر بنجاح',
     ITEM_UPDATED_SUCCESS: 'تم تحديث العنصر بنجاح',
     QUOTATION_SUBMITTED_SUCCESS: 'تم إرسال عرض الأسعار بنجاح',
-    ERROR_OCCURRED: 'حدث خطأ. يرجى المحاولة مرة أخرى.'
+    ERROR_OCCURRED: 'حدث خطأ. يرجى المحاولة مرة أخرى.',
+    UNDO: 'تراجع',
+    LIST_CLEARED_SUCCESS: 'تم مسح قائمة إعادة الشراء',
+    LIST_IMPORTED_SUCCESS: 'تمت إضافة القائمة المشتركة إلى قائمة إعادة الشراء',
+    QUOTATION_CHECKED_IN_SUCCESS: 'تم تحديث عرض السعر'
   },
   modal: {
     CLOSE_DIALOG: 'إغلاق الحوار',
@@ -53,7 +57,17 @@ export const AR_BH_TRANSLATIONS: Translation = {
     QUOTATION_EXPIRED: 'انتهت صلاحية عرض الأسعار',
     QUOTATION_EXPIRED_MESSAGE: 'انتهت صلاحية عرض الأسعار هذا. يرجى إنشاء عرض جديد.',
     STORE_NOT_FOUND: 'المتجر غير موجود',
-    STORE_NOT_FOUND_MESSAGE: 'لم يتم العثور على المتجر المحدد.'
+    STORE_NOT_FOUND_MESSAGE: 'لم يتم العثور على المتجر المحدد.',
+    BUYBACK_LIST_LIMIT: 'تم الوصول إلى حد قائمة إعادة الشراء',
+    MAX_ITEMS_LIMIT_MESSAGE: 'لقد وصلت إلى الحد الأقصى لعدد المنتجات المختلفة في قائمة إعادة الشراء الواحدة.',
+    MAX_QUANTITY_LIMIT_MESSAGE: 'لا يمكنك إضافة المزيد من هذا المنتج إلى قائمة إعادة الشراء الواحدة.',
+    MAX_VALUE_LIMIT_MESSAGE: 'سيؤدي ذلك إلى تجاوز قائمتك الحد الأقصى لقيمة إعادة الشراء للطلب الواحد.',
+    CATEGORY_LIMIT_MESSAGE: 'لقد وصلت إلى الحد الأقصى لعدد المنتجات من هذه الفئة في قائمة إعادة الشراء الواحدة.',
+    LIMIT: 'الحد الأقصى:',
+    SHARED_LIST_NOT_FOUND: 'رابط القائمة غير متاح',
+    SHARED_LIST_NOT_FOUND_MESSAGE: 'رابط القائمة هذا غير صالح أو منتهي الصلاحية. اطلب رابطاً جديداً للمتابعة.',
+    STAFF_ACCESS_DENIED: 'للموظفين فقط',
+    STAFF_ACCESS_DENIED_MESSAGE: 'هذه الصفحة مخصصة لموظفي ايكيا. سجّل الدخول من جهاز المتجر لاستلام عروض الأسعار.'
   },
   productDiscovery: {
     title: 'أداة تقدير إعادة الشراء',
@@ -70,7 +84,10 @@ export const AR_BH_TRANSLATIONS: Translation = {
     searchResults: 'نتائج البحث',
     productsFound: 'منتج',
     selectProduct: 'فقط بعض العناصر متاحة لإعادة الشراء وإعادة البيع. يمكن العثور على جميع العناصر المؤهلة من خلال البحث أو التنقل في الفئات.',
-    addToBuyback: 'اختيار'
+    addToBuyback: 'اختيار',
+    loadMore: 'عرض المزيد',
+    loadMoreFailed: 'تعذر تحميل المزيد من المنتجات',
+    buybackUnavailable: 'خدمة إعادة الشراء غير متاحة حالياً في سوقك. يرجى المحاولة لاحقاً.'
   },
   conditionAssessment: {
     title: 'حالة المنتج',
@@ -95,7 +112,12 @@ export const AR_BH_TRANSLATIONS: Translation = {
     estimatedOffer: 'العرض المقدر',
     itemPrice: 'السعر',
     totalEstimate: 'التقدير الإجمالي',
-    familyMemberPrice: 'سعر عائلة ايكيا'
+    familyMemberPrice: 'سعر عائلة ايكيا',
+    pricesHeldFor: 'الأسعار محجوزة لمدة',
+    pricesUpdatedTitle: 'انتهت صلاحية الأسعار المحفوظة، لذلك قمنا بتحديثها وفقاً لعرض اليوم:',
+    clearList: 'مسح القائمة',
+    undo: 'تراجع',
+    redo: 'إعادة'
   },
   estimation: {
     title: 'التقدير',
@@ -123,7 +145,8 @@ export const AR_BH_TRANSLATIONS: Translation = {
     step3: 'في المتجر، توجه إلى منطقة المرتجعات والتبادلات وسيقوم موظف ايكيا بإجراء تقييم نهائي',
     step4: 'ستحصل على رصيد متجر على شكل بطاقة استرداد ايكيا. يمكنك استخدامها عبر الإنترنت أو في المتجر.',
     estimateAnother: 'تقدير منتج آخر',
-    shareFeedback: 'شارك ملاحظاتك'
+    shareFeedback: 'شارك ملاحظاتك',
+    validFor: 'عرض السعر صالح لمدة'
   },
   offer: {
     title: 'عرض إعادة الشراء الخاص بك',
@@ -136,7 +159,10 @@ export const AR_BH_TRANSLATIONS: Translation = {
     familyBenefits: 'احصل على عروض أفضل ومزايا حصرية',
     offerBreakdown: 'تفاصيل العرض',
     acceptOffer: 'قبول العرض',
-    declineOffer: 'رفض'
+    declineOffer: 'رفض',
+    priceChanged: 'تم تحديث السعر',
+    priceChangedNotice: 'تغيرت بعض الأسعار منذ إضافة هذه المنتجات. تعرض الإجماليات أحدث عرض.',
+    calculating: 'جارٍ تحديث العرض...'
   },
   submission: {
     title: 'إرسال طلب إعادة الشراء',
@@ -154,7 +180,11 @@ export const AR_BH_TRANSLATIONS: Translation = {
     nextStepsDescription: 'قم بزيارة متجر ايكيا المحدد مع رقم عرض الأسعار هذا لإكمال عملية إعادة الشراء.',
     printQuotation: 'طباعة عرض الأسعار',
     downloadQuotation: 'تنزيل PDF',
-    backToHome: 'العودة للصفحة الرئيسية'
+    backToHome: 'العودة للصفحة الرئيسية',
+    openToday: 'مفتوح اليوم',
+    closedToday: 'مغلق اليوم',
+    buybackDeskAvailable: 'مكتب إعادة الشراء متاح',
+    buybackDeskUnavailable: 'إعادة الشراء غير متاحة في هذا المتجر'
   },
   errors: {
     general: 'حدث خطأ ما. يرجى المحاولة مرة أخرى.',
@@ -171,5 +201,196 @@ export const AR_BH_TRANSLATIONS: Translation = {
     minLength: 'الحد الأدنى للطول هو',
     maxLength: 'الحد الأقصى للطول هو',
     invalidFormat: 'تنسيق غير صحيح'
+  },
+  quotations: {
+    title: 'عروض الأسعار الخاصة بي',
+    description: 'أدخل رقم عرض السعر والبريد الإلكتروني الذي استخدمته عند الإرسال لمعرفة حالته الحالية.',
+    confirmationNumber: 'رقم عرض السعر',
+    findQuotation: 'البحث عن عرض السعر',
+    searching: 'جارٍ البحث...',
+    notFound: 'لم نتمكن من العثور على عرض سعر بهذه التفاصيل. يرجى التحقق من الرقم والبريد الإلكتروني.',
+    statusDraft: 'مسودة',
+    statusSubmitted: 'تم الإرسال',
+    statusAccepted: 'مقبول',
+    statusRejected: 'مرفوض',
+    statusExpired: 'منتهي الصلاحية',
+    statusCompleted: 'مكتمل',
+    submittedOn: 'تاريخ الإرسال',
+    validUntil: 'صالح حتى',
+    expiredOn: 'انتهت صلاحيته في',
+    store: 'المتجر',
+    items: 'المنتجات',
+    quantity: 'الكمية',
+    offeredAmount: 'المبلغ المعروض',
+    trackQuotation: 'تتبع عرض السعر',
+    backToEstimator: 'العودة إلى أداة تقدير إعادة الشراء'
+  },
+  countdown: {
+    days: ' ي',
+    hours: ' س',
+    minutes: ' د',
+    seconds: ' ث',
+    expired: 'منتهي الصلاحية'
+  },
+  photos: {
+    title: 'صور حالة المنتج (اختياري)',
+    hint: 'تساعد الصور زملاءنا على تأكيد حالة المنتج قبل زيارتك للمتجر. بصيغة JPG أو PNG أو WebP.',
+    addPhotos: 'إضافة صور',
+    processing: 'جارٍ المعالجة...',
+    removePhoto: 'إزالة الصورة',
+    unsupportedType: 'يتم دعم صور JPG وPNG وWebP فقط.',
+    tooLarge: 'يجب أن يكون حجم كل صورة أقل من',
+    limitReached: 'لقد وصلت إلى الحد الأقصى لعدد الصور لهذا المنتج.',
+    processingFailed: 'تعذرت معالجة هذه الصورة. يرجى تجربة صورة أخرى.'
+  },
+  questionnaire: {
+    question: 'السؤال',
+    of: 'من',
+    scratchesQuestion: 'هل توجد خدوش أو انبعاجات أو تشققات في المنتج؟',
+    scratchesNone: 'لا، لا توجد',
+    scratchesMinor: 'القليل من الخدوش البسيطة',
+    scratchesSeveral: 'خدوش متعددة أو عميقة',
+    stainsQuestion: 'هل توجد بقع على القماش أو التنجيد؟',
+    stainsNone: 'لا توجد بقع',
+    stainsLight: 'بقع خفيفة',
+    stainsVisible: 'بقع واضحة',
+    missingPartsQuestion: 'هل توجد أجزاء مفقودة أو مكسورة؟',
+    missingPartsNone: 'لا، المنتج مكتمل',
+    missingPartsMinor: 'أجزاء صغيرة، مثل البراغي أو الأغطية',
+    missingPartsMajor: 'نعم، أجزاء كبيرة',
+    assembledQuestion: 'هل المنتج مُجمّع؟',
+    assembledYes: 'نعم، مُجمّع بالكامل',
+    assembledNo: 'لا، المنتج مفكك',
+    suggestedCondition: 'بناءً على إجاباتك، نقترح هذه الحالة',
+    suggested: 'مقترح',
+    overrideWarning: 'اختيارك يختلف عن الحالة التي تقترحها إجاباتك. سيقوم زملاؤنا بفحص المنتج في المتجر وقد يتم تعديل العرض.',
+    answerAgain: 'الإجابة على الأسئلة مرة أخرى'
+  },
+  family: {
+    title: 'عائلة ايكيا',
+    description: 'هل أنت عضو في عائلة ايكيا؟ قم بتأكيد عضويتك للحصول على سعر عائلة ايكيا لمنتجاتك.',
+    cardNumber: 'رقم بطاقة عائلة ايكيا',
+    phoneNumber: 'رقم الهاتف',
+    verify: 'تأكيد العضوية',
+    verifying: 'جارٍ التحقق...',
+    verified: 'تم تأكيد عضويتك في عائلة ايكيا. تم تطبيق أسعار عائلة ايكيا على عرضك.',
+    pricesApplied: 'تم تطبيق أسعار عائلة ايكيا',
+    removeMembership: 'لست أنت؟ إزالة العضوية',
+    invalidCardNumber: 'يرجى إدخال رقم بطاقة عائلة ايكيا صحيح (12-19 رقماً).',
+    invalidPhoneNumber: 'يرجى إدخال رقم هاتف صحيح.',
+    notFound: 'لم نتمكن من العثور على عضوية عائلة ايكيا بهذه التفاصيل.'
+  },
+  articleScanner: {
+    title: 'امسح أو أدخل رقم المنتج',
+    subtitle: 'ستجد رقم المنتج على ملصق المنتج، مثل 305.292.87',
+    scanLabel: 'امسح ملصق المنتج',
+    stopScanning: 'إيقاف المسح',
+    pointCamera: 'وجّه الكاميرا نحو الباركود أو رمز QR على الملصق',
+    scanningNotSupported: 'المسح بالكاميرا غير متاح في هذا المتصفح. يرجى كتابة رقم المنتج بدلاً من ذلك.',
+    cameraUnavailable: 'تعذر الوصول إلى الكاميرا. يرجى السماح بالوصول إلى الكاميرا أو كتابة رقم المنتج.',
+    articleNumber: 'رقم المنتج',
+    articleNumberHint: '8 أرقام، مثل 305.292.87',
+    findProduct: 'ابحث عن المنتج',
+    invalidFormat: 'يرجى إدخال رقم منتج صحيح، مثل 305.292.87',
+    notFound: 'لم نتمكن من العثور على منتج بهذا الرقم',
+    didYouMean: 'لا يوجد تطابق تام. هل تقصد:'
+  },
+  searchSuggestions: {
+    products: 'المنتجات',
+    categories: 'الفئات',
+    recentSearches: 'عمليات البحث الأخيرة',
+    clearRecentSearches: 'مسح'
+  },
+  facets: {
+    title: 'التصفية',
+    sortBy: 'ترتيب حسب',
+    sortRelevance: 'الأكثر صلة',
+    sortHighestValue: 'أعلى قيمة إعادة شراء',
+    sortName: 'الاسم',
+    sortNewest: 'الأحدث',
+    price: 'قيمة إعادة الشراء',
+    priceOver: 'أكثر من',
+    conditions: 'الحالات المقبولة',
+    series: 'مجموعة المنتجات',
+    colours: 'اللون',
+    materials: 'الخامة',
+    clearFilters: 'مسح التصفية'
+  },
+  eligibility: {
+    notEligible: 'غير مؤهل لإعادة الشراء',
+    showIneligible: 'عرض المنتجات التي لا يمكن إعادة شرائها',
+    recalled: 'تم استدعاء هذا المنتج. يرجى إعادته إلى المتجر لاسترداد ثمنه بدلاً من ذلك.',
+    hygiene: 'لأسباب صحية، لا يمكننا إعادة شراء المراتب أو الوسائد أو مستلزمات السرير.',
+    discontinued: 'لم يعد هذا المنتج متوفراً للبيع، لذا لا يمكننا إعادة بيعه.',
+    upholstered: 'لا يمكننا إعادة شراء الأثاث المنجّد مثل الكنب والكراسي بذراعين.',
+    otherReason: 'لا يمكن إعادة شراء هذا المنتج.'
+  },
+  shareList: {
+    share: 'حفظ ومشاركة القائمة',
+    title: 'المتابعة على جهاز آخر',
+    subtitle: 'افتح هذا الرابط أو امسح رمز QR بهاتفك لمتابعة قائمتك من حيث توقفت.',
+    saving: 'جارٍ حفظ قائمتك...',
+    shareFailed: 'تعذر حفظ قائمتك. يرجى المحاولة مرة أخرى.',
+    link: 'رابط القائمة',
+    copyLink: 'نسخ الرابط',
+    linkCopied: 'تم نسخ الرابط',
+    validUntil: 'الرابط صالح حتى',
+    qrCodeLabel: 'رمز QR لرابط القائمة',
+    importTitle: 'قائمة إعادة شراء مشتركة',
+    importSummary: 'يحتوي هذا الرابط على',
+    importQuestion: 'لديك عناصر في قائمتك بالفعل. ماذا تريد أن تفعل؟',
+    merge: 'دمجها مع قائمتي',
+    replace: 'استبدال قائمتي',
+    addToList: 'إضافتها إلى قائمتي',
+    conflictsTitle: 'موجودة في قائمتك بالفعل',
+    keepMine: 'الاحتفاظ بعنصري',
+    useShared: 'استخدام المشترك',
+    combine: 'جمع الكميات',
+    mine: 'عنصري',
+    shared: 'المشترك',
+    quantity: 'الكمية'
+  },
+  quotationDocument: {
+    title: 'عرض أسعار إعادة الشراء',
+    issuedOn: 'التاريخ',
+    validUntil: 'صالح حتى',
+    store: 'المتجر',
+    product: 'المنتج',
+    condition: 'الحالة',
+    quantity: 'الكمية',
+    scanAtDesk: 'اعرض هذا الرمز في مكتب إعادة الشراء في المتجر',
+    disclaimer: 'الأسعار تقديرية. تُؤكَّد القيمة النهائية في المتجر بعد أن يفحص أحد الموظفين منتجاتك.',
+    pdfFailed: 'تعذر إنشاء ملف PDF. يرجى تجربة الطباعة بدلاً من ذلك.'
+  },
+  checkIn: {
+    title: 'استلام عرض السعر',
+    description: 'امسح رمز QR على عرض سعر العميل أو أدخل رقم التأكيد.',
+    codeLabel: 'رقم التأكيد أو رمز الاستلام',
+    findQuotation: 'البحث عن عرض السعر',
+    searching: 'جارٍ البحث...',
+    scanCode: 'مسح رمز QR',
+    stopScanning: 'إيقاف المسح',
+    pointCamera: 'وجّه الكاميرا نحو رمز QR على عرض السعر',
+    scanningNotSupported: 'المسح غير مدعوم على هذا الجهاز. أدخل رقم التأكيد بدلاً من ذلك.',
+    cameraUnavailable: 'تعذّر تشغيل الكاميرا. أدخل رقم التأكيد بدلاً من ذلك.',
+    invalidCode: 'رمز الاستلام هذا غير صالح. أدخل رقم التأكيد بدلاً من ذلك.',
+    notFound: 'لم يتم العثور على عرض سعر بهذا الرقم.',
+    customer: 'العميل',
+    customerType: 'الأسعار',
+    familyPrices: 'أسعار ايكيا فاميلي',
+    regularPrices: 'الأسعار العادية',
+    quoted: 'في العرض',
+    received: 'المستلم',
+    regrade: 'إعادة التقييم',
+    applyGrade: 'تطبيق التقييم',
+    regraded: 'أعيد تقييمه',
+    quotedTotal: 'المبلغ في العرض',
+    payout: 'المبلغ النهائي',
+    accept: 'قبول',
+    reject: 'رفض',
+    complete: 'إتمام ودفع المبلغ',
+    noItemsReceived: 'سجّل استلام منتج واحد على الأقل لإتمام عرض السعر.',
+    readOnly: 'لم يعد من الممكن تعديل عرض السعر هذا.',
+    saveFailed: 'تعذّر تحديث عرض السعر. يرجى المحاولة مرة أخرى.'
   }
 };
@@ -29,7 +29,11 @@ export const EN_BH_TRANSLATIONS: Translation = {
     ITEM_REMOVED_SUCCESS: 'Item removed successfully',
     ITEM_UPDATED_SUCCESS: 'Item updated successfully',
     QUOTATION_SUBMITTED_SUCCESS: 'Quotation submitted successfully',
-    ERROR_OCCURRED: 'An error occurred. Please try again.'
+    ERROR_OCCURRED: 'An error occurred. Please try again.',
+    UNDO: 'Undo',
+    LIST_CLEARED_SUCCESS: 'Buyback list cleared',
+    LIST_IMPORTED_SUCCESS: 'Shared list added to your buyback list',
+    QUOTATION_CHECKED_IN_SUCCESS: 'Quotation updated'
   },
   modal: {
     CLOSE_DIALOG: 'Close dialog',
@@ -53,7 +57,17 @@ export const EN_BH_TRANSLATIONS: Translation = {
     QUOTATION_EXPIRED: 'Quotation expired',
     QUOTATION_EXPIRED_MESSAGE: 'This quotation has expired. Please create a new one.',
     STORE_NOT_FOUND: 'Store not found',
-    STORE_NOT_FOUND_MESSAGE: 'The selected store could not be found.'
+    STORE_NOT_FOUND_MESSAGE: 'The selected store could not be found.',
+    BUYBACK_LIST_LIMIT: 'Buy back list limit reached',
+    MAX_ITEMS_LIMIT_MESSAGE: 'You\'ve reached the maximum number of different products in one buy back list.',
+    MAX_QUANTITY_LIMIT_MESSAGE: 'You can\'t add more of this product to one buy back list.',
+    MAX_VALUE_LIMIT_MESSAGE: 'This would take your list over the maximum buy back value for one request.',
+    CATEGORY_LIMIT_MESSAGE: 'You\'ve reached the maximum number of products from this category in one buy back list.',
+    LIMIT: 'Limit:',
+    SHARED_LIST_NOT_FOUND: 'List link not available',
+    SHARED_LIST_NOT_FOUND_MESSAGE: 'This list link is invalid or has expired. Ask for a new link to continue.',
+    STAFF_ACCESS_DENIED: 'Co-workers only',
+    STAFF_ACCESS_DENIED_MESSAGE: 'This page is for IKEA co-workers. Sign in on a store device to check in quotations.'
   },
   productDiscovery: {
     title: 'Buy back estimator tool',
@@ -70,7 +84,10 @@ export const EN_BH_TRANSLATIONS: Translation = {
     searchResults: 'Search Results',
     productsFound: 'products',
     selectProduct: 'Only certain items are available for Buy Back & Resell. All eligible items can be found through search or navigating the categories.',
-    addToBuyback: 'Select'
+    addToBuyback: 'Select',
+    loadMore: 'Show more',
+    loadMoreFailed: 'More products could not be loaded',
+    buybackUnavailable: 'Buy back is currently unavailable in your market. Please check again later.'
   },
   conditionAssessment: {
     title: 'Condition of the product',
@@ -95,7 +112,12 @@ export const EN_BH_TRANSLATIONS: Translation = {
     estimatedOffer: 'Estimated Offer',
     itemPrice: 'Price',
     totalEstimate: 'Total Estimate',
-    familyMemberPrice: 'IKEA Family Price'
+    familyMemberPrice: 'IKEA Family Price',
+    pricesHeldFor: 'Prices held for',
+    pricesUpdatedTitle: 'Your saved prices expired, so we updated them to today\'s offer:',
+    clearList: 'Clear list',
+    undo: 'Undo',
+    redo: 'Redo'
   },
   estimation: {
     title: 'Estimation',
@@ -123,7 +145,8 @@ export const EN_BH_TRANSLATIONS: Translation = {
     step3: 'At store, head to Returns & exchanges area and an IKEA co-worker will do a final evaluation',
     step4: 'You will receive a store credit in the form of an IKEA refund card. You can use it online or in the store.',
     estimateAnother: 'Estimate another product',
-    shareFeedback: 'Share your feedback'
+    shareFeedback: 'Share your feedback',
+    validFor: 'Your quotation is valid for'
   },
   offer: {
     title: 'Your Buyback Offer',
@@ -136,7 +159,10 @@ export const EN_BH_TRANSLATIONS: Translation = {
     familyBenefits: 'Get better offers and exclusive benefits',
     offerBreakdown: 'Offer Breakdown',
     acceptOffer: 'Accept Offer',
-    declineOffer: 'Decline'
+    declineOffer: 'Decline',
+    priceChanged: 'Price updated',
+    priceChangedNotice: 'Some prices have changed since you added these items. The totals show the latest offer.',
+    calculating: 'Updating offer...'
   },
   submission: {
     title: 'Submit Your Buyback',
@@ -154,7 +180,11 @@ export const EN_BH_TRANSLATIONS: Translation = {
     nextStepsDescription: 'Visit your selected IKEA store with this quotation number to complete the buyback process.',
     printQuotation: 'Print Quotation',
     downloadQuotation: 'Download PDF',
-    backToHome: 'Back to Home'
+    backToHome: 'Back to Home',
+    openToday: 'Open today',
+    closedToday: 'Closed today',
+    buybackDeskAvailable: 'Buy back desk available',
+    buybackDeskUnavailable: 'Buy back is not available at this store'
   },
   errors: {
     general: 'Something went wrong. Please try again.',
@@ -171,5 +201,196 @@ export const EN_BH_TRANSLATIONS: Translation = {
     minLength: 'Minimum length is',
     maxLength: 'Maximum length is',
     invalidFormat: 'Invalid format'
+  },
+  quotations: {
+    title: 'My quotations',
+    description: 'Enter your quotation number and the email you used when submitting to see its current status.',
+    confirmationNumber: 'Quotation number',
+    findQuotation: 'Find quotation',
+    searching: 'Searching...',
+    notFound: 'We couldn\'t find a quotation with these details. Please check the number and email.',
+    statusDraft: 'Draft',
+    statusSubmitted: 'Submitted',
+    statusAccepted: 'Accepted',
+    statusRejected: 'Rejected',
+    statusExpired: 'Expired',
+    statusCompleted: 'Completed',
+    submittedOn: 'Submitted on',
+    validUntil: 'Valid until',
+    expiredOn: 'Expired on',
+    store: 'Store',
+    items: 'Items',
+    quantity: 'Quantity',
+    offeredAmount: 'Offered amount',
+    trackQuotation: 'Track your quotation',
+    backToEstimator: 'Back to buy back estimator'
+  },
+  countdown: {
+    days: 'd',
+    hours: 'h',
+    minutes: 'm',
+    seconds: 's',
+    expired: 'Expired'
+  },
+  photos: {
+    title: 'Condition photos (optional)',
+    hint: 'Photos help our co-workers confirm the condition before you visit the store. JPG, PNG or WebP.',
+    addPhotos: 'Add photos',
+    processing: 'Processing...',
+    removePhoto: 'Remove photo',
+    unsupportedType: 'Only JPG, PNG and WebP photos are supported.',
+    tooLarge: 'Each photo must be smaller than',
+    limitReached: 'You have reached the maximum number of photos for this item.',
+    processingFailed: 'We couldn\'t process this photo. Please try another one.'
+  },
+  questionnaire: {
+    question: 'Question',
+    of: 'of',
+    scratchesQuestion: 'Does the product have scratches, dents or chips?',
+    scratchesNone: 'No, none',
+    scratchesMinor: 'A few minor ones',
+    scratchesSeveral: 'Several or deep ones',
+    stainsQuestion: 'Are there stains on the fabric or upholstery?',
+    stainsNone: 'No stains',
+    stainsLight: 'Light stains',
+    stainsVisible: 'Clearly visible stains',
+    missingPartsQuestion: 'Are any parts missing or broken?',
+    missingPartsNone: 'No, it is complete',
+    missingPartsMinor: 'Small parts, e.g. screws or caps',
+    missingPartsMajor: 'Yes, larger parts',
+    assembledQuestion: 'Is the product assembled?',
+    assembledYes: 'Yes, fully assembled',
+    assembledNo: 'No, it is disassembled',
+    suggestedCondition: 'Based on your answers, we suggest this condition',
+    suggested: 'Suggested',
+    overrideWarning: 'Your choice differs from the condition your answers suggest. Our co-workers will check the product in store and may adjust the offer.',
+    answerAgain: 'Answer the questions again'
+  },
+  family: {
+    title: 'IKEA Family',
+    description: 'Are you an IKEA Family member? Verify your membership to get the IKEA Family price for your items.',
+    cardNumber: 'Family card number',
+    phoneNumber: 'Phone number',
+    verify: 'Verify membership',
+    verifying: 'Verifying...',
+    verified: 'Your IKEA Family membership is verified. IKEA Family prices are applied to your offer.',
+    pricesApplied: 'IKEA Family prices applied',
+    removeMembership: 'Not you? Remove membership',
+    invalidCardNumber: 'Please enter a valid Family card number (12-19 digits).',
+    invalidPhoneNumber: 'Please enter a valid phone number.',
+    notFound: 'We couldn\'t find an IKEA Family membership with these details.'
+  },
+  articleScanner: {
+    title: 'Scan or enter article number',
+    subtitle: 'Find the article number on the product label, e.g. 305.292.87',
+    scanLabel: 'Scan product label',
+    stopScanning: 'Stop scanning',
+    pointCamera: 'Point the camera at the barcode or QR code on the label',
+    scanningNotSupported: 'Camera scanning is not available in this browser. Please type the article number instead.',
+    cameraUnavailable: 'We couldn\'t access your camera. Please allow camera access or type the article number.',
+    articleNumber: 'Article number',
+    articleNumberHint: '8 digits, e.g. 305.292.87',
+    findProduct: 'Find product',
+    invalidFormat: 'Please enter a valid article number, e.g. 305.292.87',
+    notFound: 'We couldn\'t find a product with this article number',
+    didYouMean: 'No exact match. Did you mean:'
+  },
+  searchSuggestions: {
+    products: 'Products',
+    categories: 'Categories',
+    recentSearches: 'Recent searches',
+    clearRecentSearches: 'Clear'
+  },
+  facets: {
+    title: 'Filters',
+    sortBy: 'Sort by',
+    sortRelevance: 'Best match',
+    sortHighestValue: 'Highest buy-back value',
+    sortName: 'Name',
+    sortNewest: 'Newest',
+    price: 'Buy-back value',
+    priceOver: 'Over',
+    conditions: 'Eligible conditions',
+    series: 'Product range',
+    colours: 'Colour',
+    materials: 'Material',
+    clearFilters: 'Clear filters'
+  },
+  eligibility: {
+    notEligible: 'Not eligible for buy back',
+    showIneligible: 'Show products we can\'t buy back',
+    recalled: 'This product has been recalled. Please return it to the store for a refund instead.',
+    hygiene: 'For hygiene reasons we can\'t buy back mattresses, pillows or bedding.',
+    discontinued: 'This product is no longer sold, so we can\'t resell it.',
+    upholstered: 'We can\'t buy back upholstered furniture such as sofas and armchairs.',
+    otherReason: 'This product can\'t be bought back.'
+  },
+  shareList: {
+    share: 'Save and share list',
+    title: 'Continue on another device',
+    subtitle: 'Open this link or scan the QR code on your phone to pick up your list where you left off.',
+    saving: 'Saving your list...',
+    shareFailed: 'We could not save your list. Please try again.',
+    link: 'List link',
+    copyLink: 'Copy link',
+    linkCopied: 'Link copied',
+    validUntil: 'Link valid until',
+    qrCodeLabel: 'QR code of the list link',
+    importTitle: 'Shared buyback list',
+    importSummary: 'This link contains',
+    importQuestion: 'You already have items in your list. What would you like to do?',
+    merge: 'Merge with my list',
+    replace: 'Replace my list',
+    addToList: 'Add to my list',
+    conflictsTitle: 'Already in your list',
+    keepMine: 'Keep mine',
+    useShared: 'Use shared',
+    combine: 'Add quantities together',
+    mine: 'Mine',
+    shared: 'Shared',
+    quantity: 'Qty'
+  },
+  quotationDocument: {
+    title: 'Buy back quotation',
+    issuedOn: 'Date',
+    validUntil: 'Valid until',
+    store: 'Store',
+    product: 'Product',
+    condition: 'Condition',
+    quantity: 'Qty',
+    scanAtDesk: 'Show this code at the buy back desk in store',
+    disclaimer: 'Prices are estimates. The final value is confirmed in store once a co-worker has checked your products.',
+    pdfFailed: 'The PDF could not be created. Please try printing instead.'
+  },
+  checkIn: {
+    title: 'Quotation check-in',
+    description: 'Scan the QR code on the customer\'s quotation or enter the confirmation number.',
+    codeLabel: 'Confirmation number or check-in code',
+    findQuotation: 'Find quotation',
+    searching: 'Searching...',
+    scanCode: 'Scan QR code',
+    stopScanning: 'Stop scanning',
+    pointCamera: 'Point the camera at the QR code on the quotation',
+    scanningNotSupported: 'Scanning is not supported on this device. Enter the confirmation number instead.',
+    cameraUnavailable: 'The camera could not be started. Enter the confirmation number instead.',
+    invalidCode: 'This check-in code is not valid. Enter the confirmation number instead.',
+    notFound: 'No quotation found with this confirmation number.',
+    customer: 'Customer',
+    customerType: 'Prices',
+    familyPrices: 'IKEA Family prices',
+    regularPrices: 'Regular prices',
+    quoted: 'Quoted',
+    received: 'Received',
+    regrade: 'Re-grade',
+    applyGrade: 'Apply grade',
+    regraded: 'Re-graded',
+    quotedTotal: 'Quoted amount',
+    payout: 'Final payout',
+    accept: 'Accept',
+    reject: 'Reject',
+    complete: 'Complete and pay out',
+    noItemsReceived: 'Record at least one item received to complete the quotation.',
+    readOnly: 'This quotation can no longer be changed.',
+    saveFailed: 'The quotation could not be updated. Please try again.'
   }
 };
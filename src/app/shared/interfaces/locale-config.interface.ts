@@ -30,6 +30,11 @@ export type SupportedMarket = (typeof SUPPORTED_MARKETS)[number];
 export const SUPPORTED_LANGUAGES = ['en', 'ar'] as const;
 export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
 
+/**
+ * Text provided in every supported language
+ */
+export type LocalizedText = Record<SupportedLanguage, string>;
+
 /**
  * Market-specific configurations
  */
@@ -1,3 +1,6 @@
+import { LocalizedText } from './locale-config.interface';
+import { IneligibilityReason, ProductCondition, ProductSort } from '../constants/app.constants';
+
 /**
  * Product Interfaces
  * Defines the structure for product-related data
@@ -5,6 +8,8 @@
 
 /**
  * Product interface representing a buyback-eligible product
+ * name, description and categoryName hold the text for the current language;
+ * the localized fields carry every supported language
  */
 export interface Product {
   id: string;
@@ -13,11 +18,19 @@ export interface Product {
   description: string;
   categoryId: string;
   categoryName: string;
+  localizedName?: LocalizedText;
+  localizedDescription?: LocalizedText;
+  localizedCategoryName?: LocalizedText;
+  series?: string;
+  colours?: string[];
+  materials?: string[];
+  introducedAt?: string; // ISO date the product was launched
   imageUrl: string;
   thumbnailUrl: string;
   basePrice: number;
   conditions: ProductConditionPrice[];
   isEligible: boolean;
+  ineligibilityReason?: IneligibilityReason.Reason; // set when isEligible is false
 }
 
 /**
@@ -41,6 +54,49 @@ export interface BuybackItem {
   familyMemberPrice: number;
   quantity: number;
   addedAt: Date;
+  priceValidUntil: Date;
+  photos?: BuybackPhoto[];
+  conditionAssessment?: ConditionAssessment;
+}
+
+/**
+ * Questionnaire answers behind the chosen condition grade
+ */
+export interface ConditionAssessment {
+  answers: ConditionAnswer[];
+  suggestedCondition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED';
+  isOverridden: boolean;
+}
+
+/**
+ * Answer to a single condition question
+ */
+export interface ConditionAnswer {
+  questionId: 'SCRATCHES' | 'MISSING_PARTS' | 'STAINS' | 'ASSEMBLED';
+  value: string;
+}
+
+/**
+ * Compressed photo attached to a buyback item as condition evidence
+ */
+export interface BuybackPhoto {
+  id: string;
+  fileName: string;
+  dataUrl: string; // compressed JPEG
+  size: number; // bytes after compression
+}
+
+/**
+ * Price update applied to a buyback item whose price lock expired
+ */
+export interface BuybackPriceChange {
+  itemId: string;
+  productName: string;
+  condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED';
+  previousPrice: number;
+  newPrice: number;
+  previousFamilyPrice: number;
+  newFamilyPrice: number;
 }
 
 /**
@@ -52,6 +108,7 @@ export interface Category {
   parentId: string | null;
   level: number;
   children?: Category[];
+  hasChildren?: boolean;
   productCount: number;
   imageUrl?: string;
   isExpanded?: boolean;
@@ -65,6 +122,37 @@ export interface SearchResult {
   totalCount: number;
   page: number;
   pageSize: number;
+  facets?: ProductFacets;
+}
+
+/**
+ * Facets of a search result
+ * Counts for a facet apply every selected filter except that facet's own
+ */
+export interface ProductFacets {
+  priceRanges: PriceRangeFacet[];
+  conditions: FacetOption[];
+  series: FacetOption[];
+  colours: FacetOption[];
+  materials: FacetOption[];
+}
+
+/**
+ * Selectable facet value with its localized label and product count
+ */
+export interface FacetOption {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Buy-back value range (max is null for the open-ended top range)
+ */
+export interface PriceRangeFacet {
+  min: number;
+  max: number | null;
+  count: number;
 }
 
 /**
@@ -73,6 +161,33 @@ export interface SearchResult {
 export interface ProductFilter {
   categoryId?: string;
   searchQuery?: string;
+  articleNumber?: string;
   page?: number;
   pageSize?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  conditions?: ProductCondition.Condition[];
+  series?: string[];
+  colours?: string[];
+  materials?: string[];
+  sortBy?: ProductSort.Sort;
+  includeIneligible?: boolean; // ineligible products are left out unless set
+}
+
+/**
+ * Facet and sort part of a product filter (the bookmarkable part)
+ */
+export type ProductFacetSelection = Pick<
+  ProductFilter,
+  'minPrice' | 'maxPrice' | 'conditions' | 'series' | 'colours' | 'materials' | 'sortBy' | 'includeIneligible'
+>;
+
+/**
+ * Article number lookup result
+ * Suggestions are near matches (one digit off) when there is no exact match
+ */
+export interface ArticleLookupResult {
+  articleNumber: string;
+  product: Product | null;
+  suggestions: Product[];
 }
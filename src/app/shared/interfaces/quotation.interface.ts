@@ -0,0 +1,41 @@
+import { QuotationStatus, UserType } from '../constants/app.constants';
+
+/**
+ * Quotation Interfaces
+ * Defines the structure for submitted buyback quotations
+ */
+
+/**
+ * Buyback quotation as tracked after submission
+ */
+export interface Quotation {
+  confirmationNumber: string;
+  email: string;
+  storeId: string;
+  status: QuotationStatus.Status;
+  items: QuotationItem[];
+  totalValue: number;
+  createdAt: Date;
+  expiresAt: Date;
+  // Whose prices apply (absent on quotations submitted before it was recorded)
+  userType?: UserType.Type;
+  // Issued by the submissions endpoint, for the buy back desk to scan
+  // (absent on quotations submitted before codes were issued)
+  checkInCode?: string;
+}
+
+/**
+ * Individual line of a quotation
+ */
+export interface QuotationItem {
+  productId: string;
+  productNumber: string;
+  productName: string;
+  condition: 'LIKE_NEW' | 'VERY_GOOD' | 'WELL_USED';
+  price: number;
+  quantity: number;
+  // Both prices per item, for the quotation document
+  // (absent on quotations submitted before they were recorded)
+  regularPrice?: number;
+  familyMemberPrice?: number;
+}
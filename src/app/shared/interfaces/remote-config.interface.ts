@@ -0,0 +1,45 @@
+import { FeatureFlags } from '../../../environments/environment.model';
+
+/**
+ * Remote Configuration Interfaces
+ * Defines the market configuration served by the config endpoint
+ */
+
+/**
+ * Resolved runtime configuration (defaults merged with remote values)
+ */
+export interface RemoteConfig {
+  buybackEnabled: boolean;
+  features: FeatureFlags;
+  validation: ValidationConfig;
+  timings: TimingsConfig;
+}
+
+/**
+ * Validation limits that can be changed per market
+ */
+export interface ValidationConfig {
+  minSearchLength: number;
+  maxItemsInBuybackList: number; // distinct lines
+  maxQuantityPerItem: number; // per article, all conditions together
+  maxBuybackListValue: number; // per submission, in the market currency
+  categoryLimits: Record<string, number>; // max quantity by product category id
+}
+
+/**
+ * UI timings that can be changed per market
+ */
+export interface TimingsConfig {
+  searchDebounce: number;
+  toastDuration: number;
+}
+
+/**
+ * Config endpoint payload - every section is optional and partial
+ */
+export interface RemoteConfigResponse {
+  buybackEnabled?: boolean;
+  features?: Partial<FeatureFlags>;
+  validation?: Partial<ValidationConfig>;
+  timings?: Partial<TimingsConfig>;
+}
@@ -0,0 +1,28 @@
+import { LocalizedText, SupportedMarket } from './locale-config.interface';
+
+/**
+ * Store Interfaces
+ * Defines the structure for IKEA store data
+ */
+
+/**
+ * IKEA store where buyback items can be handed in
+ */
+export interface Store {
+  id: string;
+  market: SupportedMarket;
+  name: LocalizedText;
+  address: LocalizedText;
+  openingHours: OpeningHours[];
+  hasBuybackDesk: boolean;
+}
+
+/**
+ * Opening hours for one day of the week
+ */
+export interface OpeningHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  opens: string; // HH:mm
+  closes: string; // HH:mm
+  isClosed?: boolean;
+}
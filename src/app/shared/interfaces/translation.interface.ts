@@ -15,6 +15,18 @@ export interface Translation {
   validation: ValidationTranslations;
   toaster: ToasterTranslations;
   modal: ModalTranslations;
+  quotations: QuotationTranslations;
+  countdown: CountdownTranslations;
+  photos: PhotoTranslations;
+  questionnaire: QuestionnaireTranslations;
+  family: FamilyTranslations;
+  articleScanner: ArticleScannerTranslations;
+  searchSuggestions: SearchSuggestionsTranslations;
+  facets: FacetsTranslations;
+  eligibility: EligibilityTranslations;
+  shareList: ShareListTranslations;
+  quotationDocument: QuotationDocumentTranslations;
+  checkIn: CheckInTranslations;
 }
 
 export interface CommonTranslations {
@@ -53,6 +65,9 @@ export interface ProductDiscoveryTranslations {
   productsFound: string;
   selectProduct: string;
   addToBuyback: string;
+  loadMore: string;
+  loadMoreFailed: string;
+  buybackUnavailable: string;
 }
 
 export interface ConditionAssessmentTranslations {
@@ -80,6 +95,11 @@ export interface BuybackListTranslations {
   itemPrice: string;
   totalEstimate: string;
   familyMemberPrice: string;
+  pricesHeldFor: string;
+  pricesUpdatedTitle: string;
+  clearList: string;
+  undo: string;
+  redo: string;
 }
 
 export interface EstimationTranslations {
@@ -110,6 +130,7 @@ export interface ConfirmationTranslations {
   step4: string;
   estimateAnother: string;
   shareFeedback: string;
+  validFor: string;
 }
 
 export interface OfferTranslations {
@@ -124,6 +145,9 @@ export interface OfferTranslations {
   offerBreakdown: string;
   acceptOffer: string;
   declineOffer: string;
+  priceChanged: string;
+  priceChangedNotice: string;
+  calculating: string;
 }
 
 export interface SubmissionTranslations {
@@ -143,6 +167,10 @@ export interface SubmissionTranslations {
   printQuotation: string;
   downloadQuotation: string;
   backToHome: string;
+  openToday: string;
+  closedToday: string;
+  buybackDeskAvailable: string;
+  buybackDeskUnavailable: string;
 }
 
 export interface ErrorTranslations {
@@ -170,6 +198,10 @@ export interface ToasterTranslations {
   ITEM_UPDATED_SUCCESS: string;
   QUOTATION_SUBMITTED_SUCCESS: string;
   ERROR_OCCURRED: string;
+  UNDO: string;
+  LIST_CLEARED_SUCCESS: string;
+  LIST_IMPORTED_SUCCESS: string;
+  QUOTATION_CHECKED_IN_SUCCESS: string;
 }
 
 export interface ModalTranslations {
@@ -195,4 +227,217 @@ export interface ModalTranslations {
   QUOTATION_EXPIRED_MESSAGE: string;
   STORE_NOT_FOUND: string;
   STORE_NOT_FOUND_MESSAGE: string;
+  BUYBACK_LIST_LIMIT: string;
+  MAX_ITEMS_LIMIT_MESSAGE: string;
+  MAX_QUANTITY_LIMIT_MESSAGE: string;
+  MAX_VALUE_LIMIT_MESSAGE: string;
+  CATEGORY_LIMIT_MESSAGE: string;
+  LIMIT: string;
+  SHARED_LIST_NOT_FOUND: string;
+  SHARED_LIST_NOT_FOUND_MESSAGE: string;
+  STAFF_ACCESS_DENIED: string;
+  STAFF_ACCESS_DENIED_MESSAGE: string;
+}
+
+export interface QuotationTranslations {
+  title: string;
+  description: string;
+  confirmationNumber: string;
+  findQuotation: string;
+  searching: string;
+  notFound: string;
+  statusDraft: string;
+  statusSubmitted: string;
+  statusAccepted: string;
+  statusRejected: string;
+  statusExpired: string;
+  statusCompleted: string;
+  submittedOn: string;
+  validUntil: string;
+  expiredOn: string;
+  store: string;
+  items: string;
+  quantity: string;
+  offeredAmount: string;
+  trackQuotation: string;
+  backToEstimator: string;
+}
+
+export interface CountdownTranslations {
+  days: string;
+  hours: string;
+  minutes: string;
+  seconds: string;
+  expired: string;
+}
+
+export interface PhotoTranslations {
+  title: string;
+  hint: string;
+  addPhotos: string;
+  processing: string;
+  removePhoto: string;
+  unsupportedType: string;
+  tooLarge: string;
+  limitReached: string;
+  processingFailed: string;
+}
+
+export interface QuestionnaireTranslations {
+  question: string;
+  of: string;
+  scratchesQuestion: string;
+  scratchesNone: string;
+  scratchesMinor: string;
+  scratchesSeveral: string;
+  stainsQuestion: string;
+  stainsNone: string;
+  stainsLight: string;
+  stainsVisible: string;
+  missingPartsQuestion: string;
+  missingPartsNone: string;
+  missingPartsMinor: string;
+  missingPartsMajor: string;
+  assembledQuestion: string;
+  assembledYes: string;
+  assembledNo: string;
+  suggestedCondition: string;
+  suggested: string;
+  overrideWarning: string;
+  answerAgain: string;
+}
+
+export interface FamilyTranslations {
+  title: string;
+  description: string;
+  cardNumber: string;
+  phoneNumber: string;
+  verify: string;
+  verifying: string;
+  verified: string;
+  pricesApplied: string;
+  removeMembership: string;
+  invalidCardNumber: string;
+  invalidPhoneNumber: string;
+  notFound: string;
+}
+
+export interface ArticleScannerTranslations {
+  title: string;
+  subtitle: string;
+  scanLabel: string;
+  stopScanning: string;
+  pointCamera: string;
+  scanningNotSupported: string;
+  cameraUnavailable: string;
+  articleNumber: string;
+  articleNumberHint: string;
+  findProduct: string;
+  invalidFormat: string;
+  notFound: string;
+  didYouMean: string;
+}
+
+export interface SearchSuggestionsTranslations {
+  products: string;
+  categories: string;
+  recentSearches: string;
+  clearRecentSearches: string;
+}
+
+export interface FacetsTranslations {
+  title: string;
+  sortBy: string;
+  sortRelevance: string;
+  sortHighestValue: string;
+  sortName: string;
+  sortNewest: string;
+  price: string;
+  priceOver: string;
+  conditions: string;
+  series: string;
+  colours: string;
+  materials: string;
+  clearFilters: string;
+}
+
+export interface EligibilityTranslations {
+  notEligible: string;
+  showIneligible: string;
+  recalled: string;
+  hygiene: string;
+  discontinued: string;
+  upholstered: string;
+  otherReason: string;
+}
+
+export interface ShareListTranslations {
+  share: string;
+  title: string;
+  subtitle: string;
+  saving: string;
+  shareFailed: string;
+  link: string;
+  copyLink: string;
+  linkCopied: string;
+  validUntil: string;
+  qrCodeLabel: string;
+  importTitle: string;
+  importSummary: string;
+  importQuestion: string;
+  merge: string;
+  replace: string;
+  addToList: string;
+  conflictsTitle: string;
+  keepMine: string;
+  useShared: string;
+  combine: string;
+  mine: string;
+  shared: string;
+  quantity: string;
+}
+
+export interface QuotationDocumentTranslations {
+  title: string;
+  issuedOn: string;
+  validUntil: string;
+  store: string;
+  product: string;
+  condition: string;
+  quantity: string;
+  scanAtDesk: string;
+  disclaimer: string;
+  pdfFailed: string;
+}
+
+export interface CheckInTranslations {
+  title: string;
+  description: string;
+  codeLabel: string;
+  findQuotation: string;
+  searching: string;
+  scanCode: string;
+  stopScanning: string;
+  pointCamera: string;
+  scanningNotSupported: string;
+  cameraUnavailable: string;
+  invalidCode: string;
+  notFound: string;
+  customer: string;
+  customerType: string;
+  familyPrices: string;
+  regularPrices: string;
+  quoted: string;
+  received: string;
+  regrade: string;
+  applyGrade: string;
+  regraded: string;
+  quotedTotal: string;
+  payout: string;
+  accept: string;
+  reject: string;
+  complete: string;
+  noItemsReceived: string;
+  readOnly: string;
+  saveFailed: string;
 }
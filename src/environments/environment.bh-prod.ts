@@ -14,7 +14,11 @@ export const environment: Environment = {
     offers: '/api/buyback/offers',
     offerCalculation: '/api/buyback/calculate-offer',
     submissions: '/api/buyback/submissions',
+    quotations: '/api/buyback/quotations',
+    familyMembership: '/api/buyback/family-membership',
     stores: '/api/buyback/stores',
+    sharedLists: '/api/buyback/shared-lists',
+    staffSession: '/api/buyback/staff/session',
     config: '/api/buyback/config'
   },
   supportedLanguages: ['en', 'ar'],
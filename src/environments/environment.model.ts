@@ -26,7 +26,11 @@ export interface ApiEndpoints {
   offers: string;
   offerCalculation: string;
   submissions: string;
+  quotations: string;
+  familyMembership: string;
   stores: string;
+  sharedLists: string;
+  staffSession: string;
   config: string;
 }
 
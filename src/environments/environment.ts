@@ -15,7 +15,11 @@ export const environment: Environment = {
     offers: '/buyback/offers',
     offerCalculation: '/buyback/calculate-offer',
     submissions: '/buyback/submissions',
+    quotations: '/buyback/quotations',
+    familyMembership: '/buyback/family-membership',
     stores: '/buyback/stores',
+    sharedLists: '/buyback/shared-lists',
+    staffSession: '/buyback/staff/session',
     config: '/buyback/config'
   },
   supportedLanguages: ['en', 'ar'],